@@ -1,28 +1,61 @@
-import React, { useState, useCallback } from 'react';
-import { AudioInput } from './components/AudioInput';
-import { ResultsView } from './components/ResultsView';
-import { analyzeAudio } from './services/geminiService';
-import type { VocalProfile, EQSetting } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AudioInput, type AudioSample } from './components/AudioInput';
+import { ResultsView, type SavedPreset } from './components/ResultsView';
+import type { RefineOptions } from './components/RefinementPanel';
+import { AnalysisProviderPicker } from './components/AnalysisProviderPicker';
+import {
+  ANALYSIS_STAGES,
+  AnalysisError,
+  defaultProviderId,
+  getProvider,
+  loadProviderConfig,
+  loadSelectedProviderId,
+  runAnalysis,
+  runRefinement,
+  saveProviderConfig,
+  saveSelectedProviderId,
+  toAnalysisError,
+  type AnalysisErrorKind,
+  type AnalysisProgress,
+  type AnalysisStage,
+  type ProviderConfig,
+} from './services/analysis';
+import { createEntry, saveEntry, updateEntry, type LibraryEntry } from './services/presetLibrary';
+import { PresetLibrary } from './components/PresetLibrary';
+import type { VocalProfile, EQSetting, VoiceMeasurements, TargetModeId, ProcessingChain, GeminiAnalysisResult } from './types';
+import type { ReferenceMatch } from './services/referenceMatch';
+import { decodeShareFragment, isShareFragment, type SharedPreset } from './services/shareLink';
+import { DEFAULT_TARGET_MODE } from './services/targetModes';
 
 type Status = 'idle' | 'processing' | 'success' | 'error';
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result.split(',')[1]);
-      } else {
-        reject(new Error('Failed to convert blob to base64'));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+const ERROR_HELP: Record<AnalysisErrorKind, { title: string; hint: string }> = {
+  auth: { title: 'API Key Rejected', hint: 'Check the API key in the analysis settings below the recorder.' },
+  quota: { title: 'Quota or Rate Limit Reached', hint: 'Wait a minute and try again, or switch to the offline analysis.' },
+  safety: { title: 'Blocked by Safety Filters', hint: 'Try a different recording.' },
+  malformed: { title: 'Unusable Model Response', hint: 'The model kept returning output that could not be used. Try again or pick another model.' },
+  network: { title: 'Connection Problem', hint: 'Check your connection or the server address, then try again.' },
+  config: { title: 'Analysis Not Configured', hint: 'Fill in the analysis settings below the recorder.' },
+  input: { title: 'Recording Problem', hint: 'Try a longer or clearer recording of speech.' },
+  cancelled: { title: 'Analysis Cancelled', hint: '' },
+  unknown: { title: 'Analysis Failed', hint: '' },
+};
+
+const initialProviderId = () => {
+  const saved = loadSelectedProviderId();
+  return saved && getProvider(saved) ? saved : defaultProviderId();
 };
 
-const Header: React.FC = () => (
-  <header className="py-4 px-6 text-center">
+const Header: React.FC<{ onOpenLibrary?: () => void }> = ({ onOpenLibrary }) => (
+  <header className="relative py-4 px-6 text-center">
+    {onOpenLibrary && (
+      <button
+        onClick={onOpenLibrary}
+        className="absolute right-0 top-0 px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+      >
+        Library
+      </button>
+    )}
     <h1 className="text-4xl md:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-brand-blue to-brand-purple">
       EQ Template Creator
     </h1>
@@ -30,69 +63,273 @@ const Header: React.FC = () => (
   </header>
 );
 
-const Loader: React.FC<{ message: string }> = ({ message }) => (
-  <div className="flex flex-col items-center justify-center space-y-4 p-8">
-    <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-brand-blue"></div>
-    <p className="text-lg text-gray-300">{message}</p>
-  </div>
-);
+interface LoaderProps {
+  message: string;
+  progress: AnalysisProgress;
+  /** Stages reported so far; earlier stages that never ran (e.g. uploading for offline rules) are hidden. */
+  seenStages: AnalysisStage[];
+  onCancel: () => void;
+}
+
+const Loader: React.FC<LoaderProps> = ({ message, progress, seenStages, onCancel }) => {
+  const current = ANALYSIS_STAGES.findIndex(s => s.id === progress.stage);
+  return (
+    <div className="flex flex-col items-center justify-center space-y-4 p-8">
+      <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-brand-blue"></div>
+      <p className="text-lg text-gray-300">{message}</p>
+      <ol className="space-y-1 text-sm">
+        {ANALYSIS_STAGES.map((stage, index) => {
+          if (index < current && !seenStages.includes(stage.id)) return null;
+          const state = index < current ? 'done' : index === current ? 'active' : 'pending';
+          return (
+            <li key={stage.id} className={state === 'done' ? 'text-green-400' : state === 'active' ? 'text-gray-100' : 'text-gray-500'}>
+              <span className="inline-block w-5">{state === 'done' ? '✓' : state === 'active' ? '›' : '·'}</span>
+              {stage.label}
+              {state === 'active' && progress.receivedChars ? ` (${progress.receivedChars.toLocaleString()} characters received)` : ''}
+            </li>
+          );
+        })}
+      </ol>
+      <button
+        onClick={onCancel}
+        className="px-6 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
 
 export default function App() {
   const [status, setStatus] = useState<Status>('idle');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
   const [vocalProfile, setVocalProfile] = useState<VocalProfile | null>(null);
   const [eqSettings, setEqSettings] = useState<EQSetting[] | null>(null);
+  const [processingChain, setProcessingChain] = useState<ProcessingChain | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [audacityXml, setAudacityXml] = useState<string | null>(null);
+  // The submitted sample, kept so a cancelled analysis returns to the recorder with it loaded.
+  const [sample, setSample] = useState<AudioSample | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress>({ stage: 'decoding' });
+  const [seenStages, setSeenStages] = useState<AnalysisStage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const [measurements, setMeasurements] = useState<VoiceMeasurements | null>(null);
+  const [referenceMatch, setReferenceMatch] = useState<ReferenceMatch | null>(null);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [existingPresetReview, setExistingPresetReview] = useState<string[] | null>(null);
+  const [providerId, setProviderId] = useState(initialProviderId);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => loadProviderConfig(providerId));
+  const provider = getProvider(providerId)!;
+  const [libraryEntry, setLibraryEntry] = useState<LibraryEntry | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  // A preset opened from a share link, shown read-only; the fragment keys its view.
+  const [shared, setShared] = useState<{ fragment: string; name: string } | null>(null);
+  // The mode picked for the next analysis, and the one the displayed result was made for.
+  const [targetMode, setTargetMode] = useState<TargetModeId>(DEFAULT_TARGET_MODE);
+  const [resultMode, setResultMode] = useState<TargetModeId>(DEFAULT_TARGET_MODE);
 
-  const handleAudioSubmit = useCallback(async (blob: Blob, mimeType: string) => {
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    setProviderConfig(loadProviderConfig(id));
+    saveSelectedProviderId(id);
+  };
+
+  const handleProviderConfigChange = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(providerId, config);
+  };
+
+  const handleAudioSubmit = useCallback(async (submitted: AudioSample) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setStatus('processing');
     setError(null);
-    setAudioBlob(blob);
+    setAudioBlob(submitted.blob);
+    setSample(submitted);
+    setProgress({ stage: 'decoding' });
+    setSeenStages([]);
 
     try {
-      const base64Audio = await blobToBase64(blob);
-      const result = await analyzeAudio(base64Audio, mimeType);
+      const { result, measurements: measured, referenceMatch: match, referenceError: matchError } = await runAnalysis(submitted.blob, submitted.mimeType, provider, providerConfig, targetMode, {
+        signal: controller.signal,
+        region: submitted.region,
+        reference: submitted.reference,
+        existingPreset: submitted.existingPreset?.settings,
+        onProgress: update => {
+          setProgress(update);
+          setSeenStages(prev => prev.includes(update.stage) ? prev : [...prev, update.stage]);
+        },
+      });
       
+      // Every analysis goes into the library; the recording is only kept when the user asks for it.
+      const entry = createEntry({
+        name: `Vocal preset ${new Date().toLocaleString()}`,
+        vocalProfile: result.vocalProfile,
+        eqSettings: result.eqPreset,
+        measurements: measured,
+        providerId: provider.id,
+        targetMode: result.targetMode,
+        processingChain: result.processingChain ?? null,
+        audio: null,
+      });
+      await saveEntry(entry).catch(err => console.error("Could not save to the preset library:", err));
+
+      setLibraryEntry(entry);
+      setMeasurements(measured);
+      setReferenceMatch(match);
+      setReferenceError(matchError);
+      setExistingPresetReview(result.existingPresetReview ?? null);
       setVocalProfile(result.vocalProfile);
       setEqSettings(result.eqPreset);
-      setAudacityXml(result.audacityXml);
+      setProcessingChain(result.processingChain ?? null);
+      setResultMode(result.targetMode);
       setStatus('success');
     } catch (err) {
+      const analysisError = toAnalysisError(err);
+      if (analysisError.kind === 'cancelled') {
+        // Back to the recorder with the sample still loaded.
+        setStatus('idle');
+        return;
+      }
       console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred during analysis.');
+      setError(analysisError);
       setStatus('error');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
-  }, []);
+  }, [provider, providerConfig, targetMode]);
+
+  const handleCancel = () => abortRef.current?.abort();
   
+  const clearShareFragment = () => {
+    if (isShareFragment(window.location.hash)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  };
+
   const handleReset = () => {
+    clearShareFragment();
+    setShared(null);
     setStatus('idle');
     setError(null);
     setVocalProfile(null);
     setEqSettings(null);
+    setProcessingChain(null);
     setAudioBlob(null);
-    setAudacityXml(null);
+    setSample(null);
+    setMeasurements(null);
+    setReferenceMatch(null);
+    setReferenceError(null);
+    setExistingPresetReview(null);
+    setLibraryEntry(null);
+  };
+
+  const handleOpenEntry = (entry: LibraryEntry) => {
+    clearShareFragment();
+    setShared(null);
+    setLibraryEntry(entry);
+    setVocalProfile(entry.vocalProfile);
+    setEqSettings(entry.eqSettings);
+    setProcessingChain(entry.processingChain ?? null);
+    setMeasurements(entry.measurements);
+    setAudioBlob(entry.audio);
+    setSample(null);
+    setReferenceMatch(null);
+    setReferenceError(null);
+    setExistingPresetReview(null);
+    setResultMode(entry.targetMode);
+    setError(null);
+    setLibraryOpen(false);
+    setStatus('success');
+  };
+
+  const handleOpenShared = (fragment: string, preset: SharedPreset) => {
+    setShared({ fragment, name: preset.name });
+    setLibraryEntry(null);
+    setVocalProfile(preset.vocalProfile);
+    setEqSettings(preset.eqSettings);
+    setProcessingChain(preset.processingChain);
+    setMeasurements(null);
+    setAudioBlob(null);
+    setSample(null);
+    setReferenceMatch(null);
+    setReferenceError(null);
+    setExistingPresetReview(null);
+    setResultMode(preset.targetMode);
+    setError(null);
+    setLibraryOpen(false);
+    setStatus('success');
+  };
+
+  // A share link opens its preset without any analysis, on load and when pasted into an open tab.
+  useEffect(() => {
+    const openFromHash = () => {
+      const fragment = window.location.hash;
+      if (!isShareFragment(fragment)) return;
+      decodeShareFragment(fragment)
+        .then(preset => handleOpenShared(fragment, preset))
+        .catch(err => alert(err instanceof Error ? err.message : 'The share link could not be opened.'));
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  const handleRefine = useCallback((current: GeminiAnalysisResult, feedback: string, options: RefineOptions) =>
+    runRefinement(current, feedback, measurements, provider, providerConfig, options),
+  [measurements, provider, providerConfig]);
+
+  const handleSaveToLibrary = async (name: string, preset: SavedPreset, includeAudio: boolean) => {
+    if (!libraryEntry) return;
+    const saved = await saveEntry(updateEntry(libraryEntry, {
+      name,
+      ...preset,
+      audio: includeAudio ? audioBlob : null,
+    }));
+    setLibraryEntry(saved);
   };
 
   const renderContent = () => {
     switch (status) {
       case 'processing':
-        return <Loader message="Gemini is analyzing your voice... this may take a moment." />;
+        return (
+          <Loader
+            message={`${provider.label} is analyzing your voice... this may take a moment.`}
+            progress={progress}
+            seenStages={seenStages}
+            onCancel={handleCancel}
+          />
+        );
       case 'success':
-        return vocalProfile && eqSettings && audioBlob && audacityXml && (
+        return vocalProfile && eqSettings && (
             <ResultsView 
+                key={libraryEntry?.id ?? shared?.fragment}
                 vocalProfile={vocalProfile} 
                 eqSettings={eqSettings}
                 audioBlob={audioBlob}
-                audacityXml={audacityXml}
+                measurements={measurements}
+                referenceMatch={referenceMatch}
+                referenceError={referenceError}
+                existingPreset={sample?.existingPreset}
+                existingPresetReview={existingPresetReview}
+                targetMode={resultMode}
+                processingChain={processingChain}
+                presetName={libraryEntry?.name ?? shared?.name}
+                audioSaved={!!libraryEntry?.audio}
+                onSaveToLibrary={shared ? undefined : handleSaveToLibrary}
+                onRefine={provider.refine && !shared ? handleRefine : undefined}
+                refineLabel={provider.label}
+                readOnly={!!shared}
                 onReset={handleReset} 
             />
         );
       case 'error':
         return (
           <div className="text-center p-8 bg-red-900/20 rounded-lg border border-red-500">
-            <h3 className="text-2xl font-bold text-red-400">Analysis Failed</h3>
-            <p className="mt-2 text-red-300">{error}</p>
+            <h3 className="text-2xl font-bold text-red-400">{ERROR_HELP[error?.kind ?? 'unknown'].title}</h3>
+            <p className="mt-2 text-red-300">{error?.message}</p>
+            {error && ERROR_HELP[error.kind].hint && (
+              <p className="mt-2 text-sm text-red-200/80">{ERROR_HELP[error.kind].hint}</p>
+            )}
             <button
               onClick={handleReset}
               className="mt-6 px-6 py-2 bg-brand-blue text-white font-semibold rounded-lg hover:bg-opacity-80 transition-all"
@@ -103,19 +340,39 @@ export default function App() {
         );
       case 'idle':
       default:
-        return <AudioInput onAudioSubmit={handleAudioSubmit} isProcessing={status === 'processing'}/>;
+        return (
+          <>
+            <AudioInput
+              initialSample={sample}
+              onAudioSubmit={handleAudioSubmit}
+              isProcessing={status === 'processing'}
+              targetMode={targetMode}
+              onTargetModeChange={setTargetMode}
+            />
+            <AnalysisProviderPicker
+              providerId={providerId}
+              config={providerConfig}
+              onProviderChange={handleProviderChange}
+              onConfigChange={handleProviderConfigChange}
+            />
+          </>
+        );
     }
   };
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4">
       <main className="w-full max-w-4xl mx-auto">
-        <Header />
+        <Header onOpenLibrary={status === 'processing' || libraryOpen ? undefined : () => setLibraryOpen(true)} />
         <div className="mt-8 bg-gray-800/50 rounded-2xl shadow-2xl backdrop-blur-sm border border-gray-700">
-          {renderContent()}
+          {libraryOpen && <PresetLibrary onOpen={handleOpenEntry} onClose={() => setLibraryOpen(false)} />}
+          {/* Hidden rather than unmounted, so preset edits, undo history and revisions survive a visit to the library. */}
+          <div hidden={libraryOpen}>
+            {renderContent()}
+          </div>
         </div>
         <footer className="text-center mt-8 text-gray-500 text-sm">
-          <p>Powered by Google Gemini. For demonstration purposes only.</p>
+          <p>Analysis by {provider.label}. For demonstration purposes only.</p>
         </footer>
       </main>
     </div>
@@ -0,0 +1,42 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { encodeWav } from '../services/audioEncoders';
+import { collectAudioFiles, decodeAudioFile } from './audioFiles';
+
+let dir = '';
+
+const wavBytes = async () => new Uint8Array(await encodeWav([new Float32Array(800).fill(0.25)], 8000, 16, { title: 'Tone' }).arrayBuffer());
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'eq-preset-'));
+    await mkdir(path.join(dir, 'nested'));
+    await writeFile(path.join(dir, 'b.wav'), await wavBytes());
+    await writeFile(path.join(dir, 'nested', 'a.MP3'), 'mp3');
+    await writeFile(path.join(dir, 'notes.txt'), 'not audio');
+});
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+describe('collectAudioFiles', () => {
+    it('searches directories recursively for audio files and reports missing paths', async () => {
+        const missing = path.join(dir, 'missing.wav');
+        const { files, unreadable } = await collectAudioFiles([dir, path.join(dir, 'b.wav'), missing]);
+        expect(files).toEqual([path.join(dir, 'b.wav'), path.join(dir, 'nested', 'a.MP3')]);
+        expect(unreadable).toEqual([{ file: missing, message: 'No such file or directory.' }]);
+    });
+});
+
+describe('decodeAudioFile', () => {
+    it('decodes a WAV file without ffmpeg', async () => {
+        const audio = await decodeAudioFile('tone.wav', await wavBytes());
+        expect(audio.sampleRate).toBe(8000);
+        expect(audio.channels[0]).toHaveLength(800);
+    });
+
+    it('rejects a .wav file without a RIFF/WAVE header', async () => {
+        await expect(decodeAudioFile('fake.wav', new TextEncoder().encode('ID3 not really a wav')))
+            .rejects.toThrow('fake.wav is not a valid WAV file: it has no RIFF/WAVE header.');
+    });
+});
@@ -0,0 +1,100 @@
+import { spawn } from 'node:child_process';
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { decodeWav, type DecodedAudio } from '../core';
+
+/** Extensions picked up when searching directories, with the MIME type each file is sent as. */
+export const AUDIO_TYPES: Record<string, string> = {
+    '.wav': 'audio/wav',
+    '.mp3': 'audio/mpeg',
+    '.flac': 'audio/flac',
+    '.ogg': 'audio/ogg',
+    '.opus': 'audio/ogg',
+    '.m4a': 'audio/mp4',
+    '.aac': 'audio/aac',
+    '.webm': 'audio/webm',
+};
+
+export const mimeTypeOf = (file: string) => AUDIO_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+
+/**
+ * Expands the paths into audio files: files are taken as given, directories are searched
+ * recursively for known audio extensions. Paths that cannot be read are returned with the reason.
+ */
+export async function collectAudioFiles(inputs: string[]): Promise<{ files: string[]; unreadable: { file: string; message: string }[] }> {
+    const files: string[] = [];
+    const unreadable: { file: string; message: string }[] = [];
+    const walk = async (dir: string) => {
+        const entries = await readdir(dir, { withFileTypes: true });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) await walk(full);
+            else if (entry.isFile() && path.extname(entry.name).toLowerCase() in AUDIO_TYPES) files.push(full);
+        }
+    };
+    for (const input of inputs) {
+        try {
+            if ((await stat(input)).isDirectory()) await walk(input);
+            else files.push(input);
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            unreadable.push({ file: input, message: code === 'ENOENT' ? 'No such file or directory.' : (error as Error).message });
+        }
+    }
+    return { files: [...new Set(files)], unreadable };
+}
+
+class FfmpegMissingError extends Error {}
+
+/** Decodes any format ffmpeg knows into a 32-bit float WAV at the file's own rate and channel count. */
+function ffmpegToWav(file: string): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', ['-nostdin', '-v', 'error', '-i', file, '-vn', '-f', 'wav', '-c:a', 'pcm_f32le', '-'], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+        });
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        ffmpeg.on('error', error => {
+            reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? new FfmpegMissingError() : error);
+        });
+        ffmpeg.on('close', code => {
+            if (code === 0) {
+                const data = Buffer.concat(chunks);
+                resolve(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+            } else {
+                const reason = stderr.trim().split('\n').pop();
+                reject(new Error(`ffmpeg could not decode the file${reason ? `: ${reason}` : '.'}`));
+            }
+        });
+    });
+}
+
+/**
+ * Decodes a recording: PCM and float WAV files directly, anything else (and WAV encodings the
+ * built-in reader does not support) through ffmpeg when it is on the PATH. A .wav file without a
+ * RIFF/WAVE header is reported as invalid rather than handed to ffmpeg.
+ */
+export async function decodeAudioFile(file: string, bytes: Uint8Array): Promise<DecodedAudio> {
+    const header = new TextDecoder().decode(bytes.subarray(0, 12));
+    const hasWavHeader = header.startsWith('RIFF') && header.endsWith('WAVE');
+    if (path.extname(file).toLowerCase() === '.wav' && !hasWavHeader) {
+        throw new Error(`${path.basename(file)} is not a valid WAV file: it has no RIFF/WAVE header.`);
+    }
+    let wavError: unknown = null;
+    if (hasWavHeader) {
+        try {
+            return decodeWav(bytes);
+        } catch (error) {
+            wavError = error;
+        }
+    }
+    try {
+        return decodeWav(await ffmpegToWav(file));
+    } catch (error) {
+        if (!(error instanceof FfmpegMissingError)) throw error;
+        throw wavError ?? new Error('Only WAV files can be read without ffmpeg. Install ffmpeg or convert the recording to WAV.');
+    }
+}
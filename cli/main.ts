@@ -0,0 +1,232 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AudioRegion, EQSetting, TargetModeId } from '../types';
+import {
+    AnalysisError,
+    TARGET_MODES,
+    defaultProviderId,
+    generatePreset,
+    getExporters,
+    getProvider,
+    getProviders,
+    getTargetMode,
+    isTargetModeId,
+    parsePresetFile,
+    preflightStatus,
+    summarizeMeasurements,
+    type GeneratedPreset,
+    type ProviderConfig,
+} from '../core';
+import { AUDIO_TYPES, collectAudioFiles, decodeAudioFile, mimeTypeOf } from './audioFiles';
+
+const DEFAULT_OUT_DIR = 'eq-presets';
+
+const USAGE = `Usage: eq-preset [options] <file or directory>...
+
+Generates a vocal EQ preset for each recording and writes the chosen export formats and a
+summary.json into one folder per recording. Directories are searched recursively for
+${Object.keys(AUDIO_TYPES).join(' ')} files. WAV is read directly; other formats need ffmpeg on the PATH.
+
+Options:
+  -p, --provider <id>       ${getProviders().map(p => p.id).join(', ')}
+                            (default: gemini when GEMINI_API_KEY is set, otherwise offline)
+  -m, --mode <id>           ${TARGET_MODES.map(m => m.id).join(', ')} (default: podcast)
+  -f, --format <ids>        Export formats, comma-separated or repeated (default: all):
+                            ${getExporters().map(e => e.id).join(', ')}
+  -o, --out <dir>           Output directory (default: ${DEFAULT_OUT_DIR})
+      --set <key=value>     Provider setting, repeatable, e.g. --set model=gemini-2.5-pro
+      --region <start-end>  Analyse only this part of each recording, in seconds, e.g. 30-210
+      --existing <file>     Review this Audacity, Equalizer APO or REW preset against each voice
+  -h, --help                Show this help
+
+Provider settings not given with --set come from GEMINI_API_KEY, GEMINI_MODEL, OPENAI_BASE_URL,
+OPENAI_API_KEY and OPENAI_MODEL. Exits with 1 when any recording failed, 2 on invalid options.`;
+
+/** An invalid command line; reported with a pointer to --help and exit code 2. */
+class UsageError extends Error {}
+
+interface Options {
+    inputs: string[];
+    providerId: string;
+    config: ProviderConfig;
+    targetMode: TargetModeId;
+    formats: string[] | undefined;
+    outDir: string;
+    region: AudioRegion | null;
+    existingPreset: EQSetting[] | null;
+}
+
+async function readOptions(args: string[]): Promise<Options | null> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                provider: { type: 'string', short: 'p' },
+                mode: { type: 'string', short: 'm' },
+                format: { type: 'string', short: 'f', multiple: true },
+                out: { type: 'string', short: 'o' },
+                set: { type: 'string', multiple: true },
+                region: { type: 'string' },
+                existing: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) return null;
+    if (positionals.length === 0) throw new UsageError('Give at least one recording or directory.');
+
+    const providerId = values.provider ?? defaultProviderId(process.env);
+    const provider = getProvider(providerId);
+    if (!provider) throw new UsageError(`Unknown provider "${providerId}".`);
+    const config: ProviderConfig = {};
+    for (const setting of values.set ?? []) {
+        const [key, ...rest] = setting.split('=');
+        if (!rest.length || !provider.fields.some(field => field.key === key)) {
+            const keys = provider.fields.map(field => field.key);
+            throw new UsageError(`--set ${setting}: ${provider.label} takes ${keys.length ? keys.map(k => `${k}=…`).join(', ') : 'no settings'}.`);
+        }
+        config[key] = rest.join('=');
+    }
+
+    const targetMode = values.mode ?? 'podcast';
+    if (!isTargetModeId(targetMode)) throw new UsageError(`Unknown mode "${targetMode}".`);
+    const formats = values.format?.flatMap(list => list.split(',')).map(id => id.trim()).filter(Boolean);
+    const unknownFormat = formats?.find(id => !getExporters().some(e => e.id === id));
+    if (unknownFormat) throw new UsageError(`Unknown format "${unknownFormat}".`);
+
+    let region: AudioRegion | null = null;
+    if (values.region) {
+        const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(values.region);
+        if (!match || Number(match[1]) >= Number(match[2])) throw new UsageError(`--region ${values.region}: expected start-end in seconds, e.g. 30-210.`);
+        region = { startS: Number(match[1]), endS: Number(match[2]) };
+    }
+
+    let existingPreset: EQSetting[] | null = null;
+    if (values.existing) {
+        try {
+            existingPreset = parsePresetFile(await readFile(values.existing, 'utf8'), path.basename(values.existing), getTargetMode(targetMode)).settings;
+        } catch (error) {
+            const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+            throw new UsageError(`--existing ${values.existing}: ${missing ? 'No such file.' : (error as Error).message}`);
+        }
+    }
+
+    return { inputs: positionals, providerId, config, targetMode, formats, outDir: values.out ?? DEFAULT_OUT_DIR, region, existingPreset };
+}
+
+/** A folder name per recording, numbered when two recordings share a name. */
+function outputFolder(file: string, used: Set<string>): string {
+    const stem = path.basename(file, path.extname(file)) || 'recording';
+    let folder = stem;
+    for (let n = 2; used.has(folder.toLowerCase()); n++) folder = `${stem}-${n}`;
+    used.add(folder.toLowerCase());
+    return folder;
+}
+
+function summary(file: string, options: Options, { result, measurements, preflight, files }: GeneratedPreset) {
+    return {
+        source: path.resolve(file),
+        provider: options.providerId,
+        targetMode: result.targetMode,
+        region: options.region,
+        preflight: { status: preflightStatus(preflight), ...preflight },
+        measurements: measurements ? summarizeMeasurements(measurements) : null,
+        vocalProfile: result.vocalProfile,
+        eqPreset: result.eqPreset,
+        processingChain: result.processingChain ?? null,
+        ...(result.existingPresetReview ? { existingPresetReview: result.existingPresetReview } : {}),
+        files: files.map(f => f.fileName),
+    };
+}
+
+async function processFile(file: string, folder: string, options: Options, signal: AbortSignal): Promise<string> {
+    const bytes = new Uint8Array(await readFile(file));
+    const audio = await decodeAudioFile(file, bytes);
+    const generated = await generatePreset(new Blob([bytes], { type: mimeTypeOf(file) }), audio, {
+        name: folder,
+        providerId: options.providerId,
+        config: options.config,
+        env: process.env,
+        targetMode: options.targetMode,
+        formats: options.formats,
+        region: options.region,
+        existingPreset: options.existingPreset,
+        signal,
+    });
+    const dir = path.join(options.outDir, folder);
+    await mkdir(dir, { recursive: true });
+    for (const { fileName, content } of generated.files) {
+        await writeFile(path.join(dir, fileName), content);
+    }
+    await writeFile(path.join(dir, 'summary.json'), `${JSON.stringify(summary(file, options, generated), null, 2)}\n`);
+
+    const bands = generated.result.eqPreset.length;
+    const warnings = generated.preflight.checks.filter(c => c.status !== 'pass').map(c => c.label.toLowerCase());
+    return `${bands} ${bands === 1 ? 'band' : 'bands'}${warnings.length ? `, check ${warnings.join(', ')}` : ''} -> ${dir}`;
+}
+
+async function main(args: string[]): Promise<number> {
+    let options: Options | null;
+    try {
+        options = await readOptions(args);
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(`eq-preset: ${error.message}\nRun eq-preset --help for the options.`);
+        return 2;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const { files, unreadable } = await collectAudioFiles(options.inputs);
+    const failures = [...unreadable];
+    if (files.length === 0 && failures.length === 0) {
+        console.error('eq-preset: No audio files were found in the given directories.');
+        return 2;
+    }
+
+    // The first Ctrl+C cancels the running analysis and stops the batch; the report still follows.
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    const used = new Set<string>();
+    let done = 0;
+    // A settings problem such as a missing API key fails every file the same way, so it stops the batch.
+    let configError = false;
+    for (const [i, file] of files.entries()) {
+        if (controller.signal.aborted || configError) break;
+        const prefix = `[${i + 1}/${files.length}] ${file}`;
+        try {
+            console.error(`${prefix}: ${await processFile(file, outputFolder(file, used), options, controller.signal)}`);
+            done++;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`${prefix}: failed: ${message}`);
+            failures.push({ file, message });
+            configError = error instanceof AnalysisError && error.kind === 'config';
+        }
+    }
+
+    const skipped = files.length + unreadable.length - done - failures.length;
+    const stoppedBy = configError ? 'the settings error' : 'cancelling';
+    console.error(`\n${done} of ${files.length + unreadable.length} recordings done${skipped ? `, ${skipped} skipped after ${stoppedBy}` : ''}.`);
+    if (failures.length) {
+        console.error(`${failures.length} failed:`);
+        for (const { file, message } of failures) console.error(`  ${file}: ${message}`);
+    }
+    return failures.length || skipped ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(error);
+        process.exitCode = 1;
+    },
+);
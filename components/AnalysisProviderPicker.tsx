@@ -0,0 +1,64 @@
+import React from 'react';
+import { buildEnvironment, getProvider, getProviders, type ProviderConfig } from '../services/analysis';
+
+interface AnalysisProviderPickerProps {
+  providerId: string;
+  config: ProviderConfig;
+  onProviderChange: (id: string) => void;
+  onConfigChange: (config: ProviderConfig) => void;
+}
+
+export const AnalysisProviderPicker: React.FC<AnalysisProviderPickerProps> = ({ providerId, config, onProviderChange, onConfigChange }) => {
+  const provider = getProvider(providerId);
+  const defaults = provider?.defaults(buildEnvironment()) ?? {};
+
+  return (
+    <div className="px-6 pb-6 md:px-8 md:pb-8">
+      <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label htmlFor="analysis-provider" className="text-sm font-semibold text-gray-300">Analysis</label>
+          <select
+            id="analysis-provider"
+            value={providerId}
+            onChange={e => onProviderChange(e.target.value)}
+            className="px-3 py-1 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+          >
+            {getProviders().map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        {provider && <p className="text-sm text-gray-400">{provider.description}</p>}
+        {provider && provider.fields.length > 0 && (
+          <div className="grid md:grid-cols-2 gap-3">
+            {provider.fields.map(field => field.kind === 'checkbox' ? (
+              <label key={field.key} className="flex items-center gap-2 text-sm text-gray-300 md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={(config[field.key] ?? defaults[field.key]) === 'true'}
+                  onChange={e => onConfigChange({ ...config, [field.key]: e.target.checked ? 'true' : '' })}
+                />
+                {field.label}
+              </label>
+            ) : (
+              <label key={field.key} className="flex flex-col gap-1 text-sm text-gray-300">
+                {field.label}
+                <input
+                  type={field.kind === 'secret' ? 'password' : 'text'}
+                  value={config[field.key] ?? ''}
+                  placeholder={(field.kind !== 'secret' && defaults[field.key]) || field.placeholder}
+                  onChange={e => onConfigChange({ ...config, [field.key]: e.target.value })}
+                  autoComplete="off"
+                  className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {provider && provider.fields.some(f => f.kind === 'secret') && (
+          <p className="text-xs text-gray-500">Settings are stored in this browser. Leave a field empty to use the build's default.</p>
+        )}
+      </div>
+    </div>
+  );
+};
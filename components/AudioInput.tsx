@@ -1,11 +1,41 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { AudioRegion, TargetModeId } from '../types';
+import { TARGET_MODES, getTargetMode } from '../services/targetModes';
+import { audioBufferToChannels, decodeAudioBlob, detectSourceSampleRate } from '../services/audioDecoder';
+import { preflightChecks, preflightStatus, type PreflightStatus } from '../services/preflight';
+import { parsePresetFile, type ImportedPreset } from '../services/presetImport';
+import { InputLevelMeter } from './InputLevelMeter';
+import { WaveformRegionSelector } from './WaveformRegionSelector';
+
+export interface AudioSample {
+  blob: Blob;
+  mimeType: string;
+  /** The part of the recording to analyse, or null for all of it. */
+  region: AudioRegion | null;
+  /** A recording of the voice to sound like, or null. */
+  reference: File | null;
+  /** The EQ the user has been using, to compare and blend with the new preset, or null. */
+  existingPreset: ImportedPreset | null;
+}
 
 interface AudioInputProps {
-  onAudioSubmit: (blob: Blob, mimeType: string) => void;
+  /** A sample to start with, e.g. the one whose analysis was just cancelled. */
+  initialSample?: AudioSample | null;
+  onAudioSubmit: (sample: AudioSample) => void;
   isProcessing: boolean;
+  targetMode: TargetModeId;
+  onTargetModeChange: (mode: TargetModeId) => void;
 }
 
+const MAX_RECORDING_S = 180;
+
+const STATUS_STYLES: Record<PreflightStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-400' },
+  warn: { icon: '!', className: 'text-yellow-400' },
+  fail: { icon: '✗', className: 'text-red-400' },
+};
+
 const MicrophoneIcon: React.FC<{className?: string}> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
@@ -19,15 +49,22 @@ const UploadIcon: React.FC<{className?: string}> = ({ className }) => (
 );
 
 
-export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcessing }) => {
+export const AudioInput: React.FC<AudioInputProps> = ({ initialSample, onAudioSubmit, isProcessing, targetMode, onTargetModeChange }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [audioURL, setAudioURL] = useState<string | null>(null);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [mimeType, setMimeType] = useState<string>('audio/webm');
+  const [audioURL, setAudioURL] = useState<string | null>(() => initialSample ? URL.createObjectURL(initialSample.blob) : null);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(initialSample?.blob ?? null);
+  const [mimeType, setMimeType] = useState<string>(initialSample?.mimeType ?? 'audio/webm');
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const [recordTime, setRecordTime] = useState(0);
   const timerIntervalRef = useRef<number | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [decoded, setDecoded] = useState<{ buffer: AudioBuffer; sourceRate: number | null } | null>(null);
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [region, setRegion] = useState<AudioRegion | null>(initialSample?.region ?? null);
+  const [reference, setReference] = useState<File | null>(initialSample?.reference ?? null);
+  const [existingPreset, setExistingPreset] = useState<ImportedPreset | null>(initialSample?.existingPreset ?? null);
+  const [presetError, setPresetError] = useState<string | null>(null);
 
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -44,9 +81,11 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
   const handleStartRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      setStream(stream);
       setIsRecording(true);
       setAudioURL(null);
       setAudioBlob(null);
+      setRegion(null);
       
       let options = { mimeType: 'audio/webm' };
       if (!MediaRecorder.isTypeSupported('audio/webm')) {
@@ -65,6 +104,7 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
         setAudioURL(url);
         audioChunksRef.current = [];
         stream.getTracks().forEach(track => track.stop()); // Stop microphone access
+        setStream(null);
       };
       mediaRecorderRef.current.start();
       setRecordTime(0);
@@ -78,18 +118,51 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
     }
   };
 
-  const handleStopRecording = () => {
-    if (mediaRecorderRef.current) {
+  const handleStopRecording = useCallback(() => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    if (isRecording && recordTime >= MAX_RECORDING_S) handleStopRecording();
+  }, [isRecording, recordTime, handleStopRecording]);
+
+  useEffect(() => {
+    setDecoded(null);
+    setDecodeFailed(false);
+    if (!audioBlob) return;
+    let cancelled = false;
+    detectSourceSampleRate(audioBlob)
+      .then(async sourceRate => ({ buffer: await decodeAudioBlob(audioBlob, sourceRate ?? undefined), sourceRate }))
+      .then(result => {
+        if (!cancelled) setDecoded(result);
+      })
+      .catch(err => {
+        console.error("Error decoding audio for pre-flight checks:", err);
+        if (!cancelled) setDecodeFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob]);
+
+  // Checks cover only the selected region, since that is what gets analysed.
+  const preflight = useMemo(() => {
+    if (!decoded) return null;
+    const { buffer, sourceRate } = decoded;
+    const start = region ? Math.floor(region.startS * buffer.sampleRate) : 0;
+    const end = region ? Math.ceil(region.endS * buffer.sampleRate) : buffer.length;
+    return preflightChecks(audioBufferToChannels(buffer).map(c => c.subarray(start, end)), buffer.sampleRate, sourceRate);
+  }, [decoded, region]);
   
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type.startsWith('audio/')) {
       const url = URL.createObjectURL(file);
+      setRegion(null);
       setAudioBlob(file);
       setMimeType(file.type);
       setAudioURL(url);
@@ -97,16 +170,41 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
         alert("Please upload a valid audio file.");
     }
   };
+
+  const handleReferenceUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && file.type.startsWith('audio/')) {
+      setReference(file);
+    } else {
+      alert("Please upload a valid audio file.");
+    }
+  };
   
+  const handlePresetUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setExistingPreset(parsePresetFile(await file.text(), file.name, getTargetMode(targetMode)));
+      setPresetError(null);
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
   const handleSubmit = () => {
       if(audioBlob) {
-          onAudioSubmit(audioBlob, mimeType);
+          onAudioSubmit({ blob: audioBlob, mimeType, region, reference, existingPreset });
       }
   };
   
   const handleReset = () => {
     setAudioBlob(null);
     setAudioURL(null);
+    setRegion(null);
+    setReference(null);
+    setExistingPreset(null);
+    setPresetError(null);
     setIsRecording(false);
     setRecordTime(0);
     if(mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
@@ -120,8 +218,25 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
     <div className="p-6 md:p-8 space-y-6">
         <div>
             <h2 className="text-2xl font-semibold text-center text-gray-100">Submit Your Voice Sample</h2>
-            <p className="text-center text-gray-400 mt-2">Record up to 3 minutes of audio or upload a file.</p>
+            <p className="text-center text-gray-400 mt-2">Record up to {MAX_RECORDING_S / 60} minutes of audio or upload a file.</p>
         </div>
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Target use">
+          {TARGET_MODES.map(mode => (
+            <button
+              key={mode.id}
+              role="radio"
+              aria-checked={mode.id === targetMode}
+              onClick={() => onTargetModeChange(mode.id)}
+              disabled={isProcessing}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${mode.id === targetMode ? 'bg-brand-purple border-brand-purple text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-400 text-center">{getTargetMode(targetMode).description}</p>
+      </div>
       <div className="flex flex-col md:flex-row items-center justify-center gap-4">
         {isRecording ? (
           <button
@@ -132,7 +247,7 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
               <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-white opacity-75"></span>
               <span className="relative inline-flex rounded-full h-3 w-3 bg-white"></span>
             </span>
-            Stop Recording ({formatTime(recordTime)})
+            Stop Recording ({formatTime(recordTime)} / {formatTime(MAX_RECORDING_S)})
           </button>
         ) : (
           <button
@@ -151,18 +266,112 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioSubmit, isProcess
           <input type="file" accept="audio/*" className="hidden" onChange={handleFileUpload} disabled={isRecording || !!audioBlob} />
         </label>
       </div>
+      {stream && isRecording && (
+        <div className="flex justify-center">
+          <InputLevelMeter stream={stream} />
+        </div>
+      )}
       
       {audioURL && (
         <div className="mt-6 p-4 bg-gray-900/50 rounded-lg flex flex-col items-center gap-4">
           <p className="font-semibold">Your Audio Sample:</p>
           <audio controls src={audioURL} className="w-full max-w-md"></audio>
+          {decoded && (
+            <WaveformRegionSelector buffer={decoded.buffer} region={region} onRegionChange={setRegion} disabled={isProcessing} />
+          )}
+          <div className="w-full max-w-md text-sm">
+            {decodeFailed ? (
+              <p className="text-yellow-400">Pre-flight checks unavailable: the browser could not decode this audio file.</p>
+            ) : !preflight ? (
+              <p className="text-gray-400">Checking the recording...</p>
+            ) : (
+              <>
+                <ul className="space-y-1">
+                  {preflight.checks.map(check => (
+                    <li key={check.id} className="flex gap-2">
+                      <span className={`w-4 font-bold ${STATUS_STYLES[check.status].className}`}>{STATUS_STYLES[check.status].icon}</span>
+                      <span>
+                        <span className="text-gray-200">{check.label}:</span>{' '}
+                        <span className="text-gray-400">{check.detail}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {preflightStatus(preflight) !== 'pass' && (
+                  <p className={`mt-2 ${preflightStatus(preflight) === 'fail' ? 'text-red-400' : 'text-yellow-400'}`}>
+                    {preflightStatus(preflight) === 'fail'
+                      ? 'This sample is unlikely to give a useful preset. Reset and record again before spending an analysis on it.'
+                      : 'Consider resetting and recording again to get a more reliable preset.'}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+          <div className="w-full max-w-md text-sm border-t border-gray-700 pt-4">
+            <p className="text-gray-200">Reference voice (optional)</p>
+            <p className="text-gray-400">
+              A recording of a co-host or show you want to sound like. A preset that moves your voice towards it is built alongside the analysis.
+            </p>
+            {reference ? (
+              <div className="flex items-center gap-3 mt-2">
+                <span className="flex-1 truncate text-gray-300" title={reference.name}>{reference.name}</span>
+                <button
+                  onClick={() => setReference(null)}
+                  disabled={isProcessing}
+                  className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <label className={`inline-flex items-center gap-2 mt-2 px-3 py-1 bg-gray-700 text-gray-200 rounded-lg transition-colors ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-600'}`}>
+                <UploadIcon className="w-4 h-4"/>
+                Choose Reference
+                <input type="file" accept="audio/*" className="hidden" onChange={handleReferenceUpload} disabled={isProcessing} />
+              </label>
+            )}
+          </div>
+          <div className="w-full max-w-md text-sm border-t border-gray-700 pt-4">
+            <p className="text-gray-200">Existing preset (optional)</p>
+            <p className="text-gray-400">
+              The EQ you use now, as an Audacity EQ curve or preset, or an Equalizer APO or REW filter file. The analysis points out where it works against your voice, and you can blend it with the new preset.
+            </p>
+            {existingPreset ? (
+              <div className="mt-2 space-y-1">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 truncate text-gray-300" title={existingPreset.name}>
+                    {existingPreset.name} · {existingPreset.format} · {existingPreset.settings.length} {existingPreset.settings.length === 1 ? 'band' : 'bands'}
+                  </span>
+                  <button
+                    onClick={() => setExistingPreset(null)}
+                    disabled={isProcessing}
+                    className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {existingPreset.warnings.length > 0 && (
+                  <ul className="list-disc list-inside text-yellow-400">
+                    {existingPreset.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <label className={`inline-flex items-center gap-2 mt-2 px-3 py-1 bg-gray-700 text-gray-200 rounded-lg transition-colors ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-600'}`}>
+                <UploadIcon className="w-4 h-4"/>
+                Import Preset
+                <input type="file" accept=".xml,.txt,.cfg" className="hidden" onChange={handlePresetUpload} disabled={isProcessing} />
+              </label>
+            )}
+            {presetError && <p className="mt-1 text-red-400">{presetError}</p>}
+          </div>
           <div className="flex gap-4 mt-2">
             <button
                 onClick={handleSubmit}
                 disabled={isProcessing}
                 className="px-8 py-2 bg-gradient-to-r from-brand-blue to-brand-purple text-white font-bold rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-wait"
             >
-                {isProcessing ? 'Processing...' : 'Generate EQ'}
+                {isProcessing ? 'Processing...' : preflight && preflightStatus(preflight) !== 'pass' ? 'Generate EQ anyway' : 'Generate EQ'}
             </button>
              <button
                 onClick={handleReset}
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import type { EQSetting } from '../types';
+import { DEVICE_PROFILES, type BandFit } from '../services/bandFitting';
+import { CurveComparisonChart } from './CurveComparisonChart';
+import { formatHz } from './MeasurementsPanel';
+
+interface BandFitPanelProps {
+    profileId: string;
+    onProfileChange: (id: string) => void;
+    fit: BandFit | null;
+    onApply: (settings: EQSetting[]) => void;
+}
+
+export const BandFitPanel: React.FC<BandFitPanelProps> = ({ profileId, onProfileChange, fit, onApply }) => {
+    const worst = fit?.residual.reduce((a, b) => Math.abs(b.errorDb) > Math.abs(a.errorDb) ? b : a);
+    const residualSeries = useMemo(() => fit ? [{
+        label: 'Fit error (fitted − preset)',
+        points: fit.residual.map(p => ({ frequency: p.frequency, gain: p.errorDb })),
+        color: '#f59e0b',
+    }] : [], [fit]);
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="text-xl font-semibold text-gray-200">Fit to Fixed-Band EQ</h3>
+                <select
+                    aria-label="Device profile"
+                    value={profileId}
+                    onChange={e => onProfileChange(e.target.value)}
+                    className="px-3 py-1 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+                >
+                    <option value="">Off</option>
+                    {DEVICE_PROFILES.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                </select>
+            </div>
+            {!fit ? (
+                <p className="text-sm text-gray-400">
+                    Pick a device to find the slider settings on a graphic or fixed-frequency EQ that come closest to this preset.
+                </p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-400 mb-3">
+                        RMS error {fit.rmsErrorDb.toFixed(1)} dB, worst {fit.maxErrorDb.toFixed(1)} dB
+                        {worst && ` at ${formatHz(worst.frequency)} (${worst.errorDb > 0 ? 'too high' : 'too low'})`}.
+                        {' '}Gains are limited to {fit.profile.minGainDb}…+{fit.profile.maxGainDb} dB in {fit.profile.gainStepDb} dB steps.
+                    </p>
+                    <CurveComparisonChart series={residualSeries} />
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {fit.settings.map(band => (
+                            <div key={band.frequency} className="bg-gray-800/60 px-2 py-1 rounded text-center">
+                                <p className="text-xs text-gray-400">{formatHz(band.frequency)}</p>
+                                <p className="font-mono text-sm text-gray-100">{band.gain > 0 ? '+' : ''}{band.gain.toFixed(1)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => onApply(fit.settings)}
+                        className="px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        Use Fitted Bands as Preset
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import type { EQSetting } from '../types';
+import { eqResponseDb } from '../services/eqFilters';
+import { MAX_GAIN_DB } from './FrequencyVisualizer';
+
+// Let TypeScript know D3 is available on the global scope
+declare const d3: any;
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const CURVE_POINTS = 240;
+
+export interface CurveSeries {
+    label: string;
+    /** The preset whose response is drawn, unless `points` are given. */
+    settings?: EQSetting[];
+    /** A curve to draw as it is, in dB. */
+    points?: { frequency: number; gain: number }[];
+    color: string;
+    dashed?: boolean;
+}
+
+/** EQ response curves of several presets, or other curves in dB, on one set of axes. */
+export const CurveComparisonChart: React.FC<{ series: CurveSeries[] }> = ({ series }) => {
+    const d3Container = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        const svgNode = d3Container.current;
+        if (!svgNode) return;
+
+        const svg = d3.select(svgNode);
+        svg.selectAll("*").remove();
+
+        const { width: containerWidth, height: containerHeight } = svgNode.getBoundingClientRect();
+        const margin = { top: 20, right: 20, bottom: 40, left: 50 };
+        const width = containerWidth - margin.left - margin.right;
+        const height = containerHeight - margin.top - margin.bottom;
+        if (width <= 0 || height <= 0) return;
+
+        const g = svg.append("g").attr("transform", `translate(${margin.left},${margin.top})`);
+        const x = d3.scaleLog().domain([MIN_FREQUENCY, MAX_FREQUENCY]).range([0, width]);
+        const y = d3.scaleLinear().domain([-MAX_GAIN_DB, MAX_GAIN_DB]).range([height, 0]).clamp(true);
+
+        g.append("g")
+            .attr("transform", `translate(0,${height})`)
+            .call(d3.axisBottom(x).ticks(5, ".0s").tickSizeOuter(0))
+            .selectAll("text")
+            .style("fill", "#9ca3af");
+
+        g.append("g")
+            .call(d3.axisLeft(y).ticks(6).tickSizeOuter(0))
+            .selectAll("text")
+            .style("fill", "#9ca3af");
+
+        g.append("text")
+         .attr("text-anchor", "middle")
+         .attr("transform", "rotate(-90)")
+         .attr("y", -margin.left + 15)
+         .attr("x", -height/2)
+         .style("fill", "#9ca3af")
+         .text("EQ Gain (dB)");
+
+        g.append("line")
+         .attr("x1", 0)
+         .attr("x2", width)
+         .attr("y1", y(0))
+         .attr("y2", y(0))
+         .attr("stroke", "#6b7280")
+         .attr("stroke-dasharray", "4 4");
+
+        const line = d3.line()
+            .x((d: { frequency: number }) => x(d.frequency))
+            .y((d: { gain: number }) => y(d.gain));
+
+        series.forEach(({ label, settings = [], points, color, dashed }, i) => {
+            const curve = points ?? Array.from({ length: CURVE_POINTS }, (_, k) => {
+                const frequency = MIN_FREQUENCY * (MAX_FREQUENCY / MIN_FREQUENCY) ** (k / (CURVE_POINTS - 1));
+                return { frequency, gain: eqResponseDb(settings, frequency) };
+            });
+            g.append("path")
+             .datum(curve)
+             .attr("fill", "none")
+             .attr("stroke", color)
+             .attr("stroke-width", 2)
+             .attr("stroke-dasharray", dashed ? "5 4" : null)
+             .attr("d", line);
+
+            g.append("text")
+             .attr("x", 8)
+             .attr("y", 12 + i * 16)
+             .style("fill", color)
+             .style("font-size", "12px")
+             .text(label);
+        });
+    }, [series]);
+
+    return <svg ref={d3Container} className="w-full h-56 md:h-64 select-none"></svg>;
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import type { EQSetting, FilterType } from '../types';
+import { FILTER_TYPES, GRAPHIC_EQ_Q, defaultQ, hasGain } from '../services/eqFilters';
+import { MAX_GAIN_DB } from './FrequencyVisualizer';
+
+interface EqBandTableProps {
+    eqSettings: EQSetting[];
+    /** The table is read-only when omitted. */
+    onChange?: (next: EQSetting[]) => void;
+}
+
+/** Number field that keeps a local draft and only reports valid values on blur or Enter. */
+const NumberField: React.FC<{ value: number; min: number; max: number; step: number; onCommit: (value: number) => void; label: string; disabled?: boolean }> = ({ value, min, max, step, onCommit, label, disabled }) => {
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => {
+        setDraft(String(value));
+    }, [value]);
+
+    const commit = () => {
+        const parsed = Number(draft);
+        if (draft.trim() === '' || !Number.isFinite(parsed)) {
+            setDraft(String(value));
+            return;
+        }
+        const clamped = Math.min(max, Math.max(min, parsed));
+        setDraft(String(clamped));
+        if (clamped !== value) onCommit(clamped);
+    };
+
+    return (
+        <input
+            type="number"
+            aria-label={label}
+            value={draft}
+            min={min}
+            max={max}
+            step={step}
+            disabled={disabled}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => {
+                if (e.key === 'Enter') commit();
+            }}
+            className="w-24 px-2 py-1 bg-gray-800 border border-gray-600 rounded font-mono text-gray-200 disabled:opacity-40"
+        />
+    );
+};
+
+/** Frequency halfway (on a log scale) across the widest gap between existing bands. */
+const newBandFrequency = (settings: EQSetting[]) => {
+    const frequencies = [20, ...settings.map(s => s.frequency).sort((a, b) => a - b), 20000];
+    let best = 1000;
+    let widest = 0;
+    for (let i = 1; i < frequencies.length; i++) {
+        const gap = Math.log(frequencies[i] / frequencies[i - 1]);
+        if (gap > widest) {
+            widest = gap;
+            best = Math.sqrt(frequencies[i] * frequencies[i - 1]);
+        }
+    }
+    return Math.round(best);
+};
+
+export const EqBandTable: React.FC<EqBandTableProps> = ({ eqSettings, onChange }) => {
+    const updateBand = (index: number, patch: Partial<EQSetting>) => {
+        onChange?.(eqSettings.map((band, i) => i === index ? { ...band, ...patch } : band));
+    };
+
+    // Switching type resets Q to that type's default, since a bell Q is rarely right for a shelf or pass filter.
+    const changeType = (index: number, type: FilterType) => {
+        updateBand(index, { type, q: defaultQ(type) });
+    };
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <table className="w-full text-left">
+                <thead className="border-b border-gray-600">
+                    <tr>
+                        <th className="py-2 px-2">Type</th>
+                        <th className="py-2 px-2">Frequency (Hz)</th>
+                        <th className="py-2 px-2">Gain (dB)</th>
+                        <th className="py-2 px-2">Q</th>
+                        <th className="py-2 px-2">Action</th>
+                        <th className="py-2 px-2">Basis</th>
+                        {onChange && <th className="py-2 px-2"></th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {eqSettings.map(({ type, frequency, gain, q, rationale, evidence }, i) => (
+                        <tr key={i} className="border-b border-gray-700 last:border-0">
+                            {onChange ? (
+                                <>
+                                    <td className="py-2 px-2">
+                                        <select
+                                            aria-label="Filter type"
+                                            value={type}
+                                            onChange={e => changeType(i, e.target.value as FilterType)}
+                                            className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200"
+                                        >
+                                            {FILTER_TYPES.map(t => (
+                                                <option key={t.id} value={t.id}>{t.label}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="py-2 px-2">
+                                        <NumberField label="Frequency" value={frequency} min={20} max={20000} step={1} onCommit={v => updateBand(i, { frequency: v })} />
+                                    </td>
+                                    <td className="py-2 px-2">
+                                        <NumberField label="Gain" value={gain} min={-MAX_GAIN_DB} max={MAX_GAIN_DB} step={0.1} disabled={!hasGain(type)} onCommit={v => updateBand(i, { gain: v })} />
+                                    </td>
+                                    <td className="py-2 px-2">
+                                        <NumberField label="Q" value={q} min={0.1} max={30} step={0.01} onCommit={v => updateBand(i, { q: v })} />
+                                    </td>
+                                </>
+                            ) : (
+                                <>
+                                    <td className="py-2 px-2 text-gray-200">{FILTER_TYPES.find(t => t.id === type)!.label}</td>
+                                    <td className="py-2 px-2 font-mono text-gray-200">{Number(frequency.toFixed(1))}</td>
+                                    <td className="py-2 px-2 font-mono text-gray-200">{hasGain(type) ? gain.toFixed(1) : '—'}</td>
+                                    <td className="py-2 px-2 font-mono text-gray-200">{q.toFixed(2)}</td>
+                                </>
+                            )}
+                            <td className="py-2 px-2">
+                                {hasGain(type) ? (
+                                    <span className={`px-2 py-1 text-xs rounded-full ${gain > 0.1 ? 'bg-green-800/50 text-green-300' : gain < -0.1 ? 'bg-red-800/50 text-red-300' : 'bg-gray-600 text-gray-300'}`}>
+                                        {gain > 0.1 ? 'Boost' : gain < -0.1 ? 'Cut' : 'Neutral'}
+                                    </span>
+                                ) : (
+                                    <span className="px-2 py-1 text-xs rounded-full bg-red-800/50 text-red-300">Filter</span>
+                                )}
+                            </td>
+                            <td className="py-2 px-2 text-xs text-gray-400">
+                                {rationale}
+                                {evidence && evidence.length > 0 && (
+                                    <div className="mt-1 flex flex-wrap gap-1">
+                                        {evidence.map(item => (
+                                            <span key={item} className="px-1.5 py-0.5 rounded bg-gray-700 font-mono text-gray-300">{item}</span>
+                                        ))}
+                                    </div>
+                                )}
+                            </td>
+                            {onChange && (
+                                <td className="py-2 px-2">
+                                    <button
+                                        onClick={() => onChange(eqSettings.filter((_, j) => j !== i))}
+                                        aria-label={`Remove ${frequency} Hz band`}
+                                        className="px-2 py-1 text-gray-400 hover:text-red-400 transition-colors"
+                                    >
+                                        ✕
+                                    </button>
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {onChange && (
+                <button
+                    onClick={() => onChange([...eqSettings, { type: 'peak', frequency: newBandFrequency(eqSettings), gain: 0, q: GRAPHIC_EQ_Q }])}
+                    className="mt-3 px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                    + Add Band
+                </button>
+            )}
+        </div>
+    );
+};
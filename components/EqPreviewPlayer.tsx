@@ -0,0 +1,265 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { EQSetting, ProcessingChain, SpectrumPoint } from '../types';
+import { decodeAudioBlob } from '../services/audioDecoder';
+import { createDynamicsChain, createGate, gateEnvelope, type DynamicsChain, type GateNode } from '../services/dynamics';
+import { createEqChain, levelMatchGainDb, type EqChain } from '../services/eqFilters';
+
+interface EqPreviewPlayerProps {
+  audioBlob: Blob;
+  eqSettings: EQSetting[];
+  spectrum: SpectrumPoint[] | null;
+  /** Dynamics to run around the EQ on B, or null for EQ only. */
+  processingChain: ProcessingChain | null;
+}
+
+interface PlaybackGraph {
+  source: AudioBufferSourceNode;
+  gate: GateNode | null;
+  chain: EqChain;
+  dynamics: DynamicsChain;
+  trim: GainNode;
+  wet: GainNode;
+  dry: GainNode;
+  startedAt: number;
+  offset: number;
+}
+
+// Short crossfade so switching between A and B doesn't click.
+const SWITCH_TIME = 0.03;
+
+const formatSeconds = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const EqPreviewPlayer: React.FC<EqPreviewPlayerProps> = ({ audioBlob, eqSettings, spectrum, processingChain }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [decodeError, setDecodeError] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [bypass, setBypass] = useState(false);
+  const [levelMatch, setLevelMatch] = useState(true);
+  const [loopEnabled, setLoopEnabled] = useState(true);
+  const [loopStart, setLoopStart] = useState(0);
+  const [loopEnd, setLoopEnd] = useState(0);
+  const [position, setPosition] = useState(0);
+  const contextRef = useRef<AudioContext | null>(null);
+  const graphRef = useRef<PlaybackGraph | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const trimDb = useMemo(() => levelMatchGainDb(eqSettings, spectrum), [eqSettings, spectrum]);
+  const gate = processingChain?.gate;
+  const envelope = useMemo(() => buffer && gate ? gateEnvelope(buffer, gate) : null, [buffer, gate]);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudioBlob(audioBlob)
+      .then(decoded => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setLoopStart(0);
+        setLoopEnd(Math.min(decoded.duration, 10));
+      })
+      .catch(err => {
+        console.error("Error decoding audio for preview:", err);
+        if (!cancelled) setDecodeError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob]);
+
+  const stop = () => {
+    const graph = graphRef.current;
+    graphRef.current = null;
+    if (graph) {
+      graph.source.onended = null;
+      graph.source.stop();
+      graph.source.disconnect();
+      graph.gate?.control.stop();
+    }
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    return () => {
+      stop();
+      contextRef.current?.close();
+    };
+  }, []);
+
+  const play = () => {
+    if (!buffer) return;
+    stop();
+    const context = contextRef.current ?? new (window.AudioContext || (window as any).webkitAudioContext)();
+    contextRef.current = context;
+    if (context.state === 'suspended') context.resume();
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loopEnabled;
+    source.loopStart = loopStart;
+    source.loopEnd = loopEnd;
+
+    const gateNode = envelope ? createGate(context, envelope) : null;
+    if (gateNode) {
+      gateNode.control.loop = loopEnabled;
+      gateNode.control.loopStart = loopStart;
+      gateNode.control.loopEnd = loopEnd;
+    }
+    const chain = createEqChain(context, eqSettings);
+    const dynamics = createDynamicsChain(context, processingChain);
+    const trim = context.createGain();
+    const wet = context.createGain();
+    const dry = context.createGain();
+    trim.gain.value = levelMatch ? 10 ** (trimDb / 20) : 1;
+    wet.gain.value = bypass ? 0 : 1;
+    dry.gain.value = bypass ? 1 : 0;
+
+    source.connect(dry).connect(context.destination);
+    (gateNode ? source.connect(gateNode.node) : source).connect(chain.input);
+    chain.output.connect(dynamics.input);
+    dynamics.output.connect(trim).connect(wet).connect(context.destination);
+
+    const offset = loopEnabled ? loopStart : 0;
+    source.start(0, offset);
+    gateNode?.control.start(0, offset);
+    source.onended = () => {
+      if (graphRef.current?.source === source) stop();
+    };
+    graphRef.current = { source, gate: gateNode, chain, dynamics, trim, wet, dry, startedAt: context.currentTime, offset };
+    setIsPlaying(true);
+
+    const tick = () => {
+      const graph = graphRef.current;
+      if (!graph) return;
+      let pos = graph.offset + context.currentTime - graph.startedAt;
+      const { loop, loopStart: ls, loopEnd: le } = graph.source;
+      if (loop && le > ls && pos > le) pos = ls + ((pos - ls) % (le - ls));
+      setPosition(Math.min(pos, buffer.duration));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    const context = contextRef.current;
+    if (!graph || !context) return;
+    graph.wet.gain.setTargetAtTime(bypass ? 0 : 1, context.currentTime, SWITCH_TIME);
+    graph.dry.gain.setTargetAtTime(bypass ? 1 : 0, context.currentTime, SWITCH_TIME);
+  }, [bypass]);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    const context = contextRef.current;
+    if (!graph || !context) return;
+    graph.trim.gain.setTargetAtTime(levelMatch ? 10 ** (trimDb / 20) : 1, context.currentTime, SWITCH_TIME);
+  }, [levelMatch, trimDb]);
+
+  // Rebuild the filter chain in place when the preset changes mid-playback.
+  useEffect(() => {
+    const graph = graphRef.current;
+    const context = contextRef.current;
+    if (!graph || !context) return;
+    const chain = createEqChain(context, eqSettings);
+    const feed = graph.gate?.node ?? graph.source;
+    feed.disconnect(graph.chain.input);
+    graph.chain.output.disconnect();
+    feed.connect(chain.input);
+    chain.output.connect(graph.dynamics.input);
+    graph.chain = chain;
+  }, [eqSettings]);
+
+  // The gate runs in step with the source, so a different chain restarts playback.
+  useEffect(() => {
+    if (graphRef.current) play();
+  }, [processingChain, envelope]);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    for (const node of [graph.source, graph.gate?.control]) {
+      if (!node) continue;
+      node.loop = loopEnabled;
+      node.loopStart = loopStart;
+      node.loopEnd = loopEnd;
+    }
+  }, [loopEnabled, loopStart, loopEnd]);
+
+  if (decodeError) {
+    return (
+      <div className="bg-gray-900/50 p-4 rounded-lg text-gray-400">
+        Preview unavailable: the browser could not decode this audio file.
+      </div>
+    );
+  }
+
+  const duration = buffer?.duration ?? 0;
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-semibold text-gray-200">Preview</h3>
+        <span className="font-mono text-sm text-gray-400">{formatSeconds(position)} / {formatSeconds(duration)}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={isPlaying ? stop : play}
+          disabled={!buffer}
+          className="px-6 py-2 bg-brand-blue text-white font-semibold rounded-lg hover:bg-opacity-80 transition-all disabled:bg-gray-600 disabled:cursor-wait"
+        >
+          {!buffer ? 'Loading...' : isPlaying ? 'Stop' : 'Play'}
+        </button>
+        <div className="flex rounded-lg overflow-hidden border border-gray-600">
+          <button
+            onClick={() => setBypass(true)}
+            className={`px-4 py-2 text-sm font-semibold transition-colors ${bypass ? 'bg-gray-200 text-gray-900' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          >
+            A: Original
+          </button>
+          <button
+            onClick={() => setBypass(false)}
+            className={`px-4 py-2 text-sm font-semibold transition-colors ${!bypass ? 'bg-brand-purple text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          >
+            {processingChain ? 'B: EQ + Dynamics' : 'B: EQ Applied'}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={levelMatch} onChange={e => setLevelMatch(e.target.checked)} />
+          Level match ({trimDb > 0 ? '+' : ''}{trimDb.toFixed(1)} dB on B)
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={loopEnabled} onChange={e => setLoopEnabled(e.target.checked)} />
+          Loop region {formatSeconds(loopStart)} – {formatSeconds(loopEnd)}
+        </label>
+        <div className="grid grid-cols-[4rem_1fr] items-center gap-2 text-xs text-gray-400">
+          <span>Start</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={loopStart}
+            disabled={!buffer || !loopEnabled}
+            onChange={e => setLoopStart(Math.min(Number(e.target.value), loopEnd - 0.1))}
+          />
+          <span>End</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={loopEnd}
+            disabled={!buffer || !loopEnabled}
+            onChange={e => setLoopEnd(Math.max(Number(e.target.value), loopStart + 0.1))}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import type { EQSetting } from '../types';
+import { blendPresets } from '../services/presetDiff';
+import type { ImportedPreset } from '../services/presetImport';
+import { CurveComparisonChart } from './CurveComparisonChart';
+
+interface ExistingPresetPanelProps {
+    preset: ImportedPreset;
+    /** Where the preset works against the measured voice; null when it could not be reviewed. */
+    review: string[] | null;
+    /** The new preset to blend with. */
+    recommended: EQSetting[];
+    /** The bands in the editor, to tell whether the blend is in use. */
+    current: EQSetting[];
+    onApply: (settings: EQSetting[]) => void;
+}
+
+export const ExistingPresetPanel: React.FC<ExistingPresetPanelProps> = ({ preset, review, recommended, current, onApply }) => {
+    // Share of the new preset in the blend, in percent.
+    const [share, setShare] = useState(50);
+    const blend = useMemo(() => blendPresets(preset.settings, recommended, share / 100), [preset, recommended, share]);
+    const series = useMemo(() => [
+        { label: `Existing: ${preset.name}`, settings: preset.settings, color: '#f59e0b' },
+        { label: 'Recommended', settings: recommended, color: '#00BFFF' },
+        { label: 'Blend', settings: blend, color: '#8A2BE2', dashed: true },
+    ], [preset, recommended, blend]);
+    const applied = current === blend;
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-200">Your Existing Preset</h3>
+                <p className="text-sm text-gray-400 mt-1">
+                    {preset.name} · {preset.format} · {preset.settings.length} {preset.settings.length === 1 ? 'band' : 'bands'}
+                </p>
+            </div>
+            <CurveComparisonChart series={series} />
+            <div>
+                <h4 className="text-sm font-semibold text-gray-300 mb-1">Conflicts with your voice</h4>
+                {review === null ? (
+                    <p className="text-sm text-gray-400">Your voice could not be measured, so the preset was not reviewed.</p>
+                ) : review.length === 0 ? (
+                    <p className="text-sm text-gray-400">Nothing in it works against your measured voice.</p>
+                ) : (
+                    <ul className="list-disc list-inside text-sm text-yellow-300 space-y-1">
+                        {review.map((note, i) => <li key={i}>{note}</li>)}
+                    </ul>
+                )}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label htmlFor="preset-blend" className="text-gray-300">Blend</label>
+                <input
+                    id="preset-blend"
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={10}
+                    value={share}
+                    onChange={e => setShare(Number(e.target.value))}
+                    className="flex-1 min-w-[8rem] accent-brand-purple"
+                />
+                <span className="font-mono text-gray-400 w-44">{100 - share}% existing · {share}% new</span>
+                <button
+                    onClick={() => onApply(blend)}
+                    disabled={applied || blend.length === 0}
+                    className="px-4 py-1 text-sm bg-brand-purple text-white rounded-lg hover:bg-opacity-80 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {applied ? 'In Use' : 'Use Blend'}
+                </button>
+            </div>
+            {preset.warnings.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-1">Import notes</h4>
+                    <ul className="list-disc list-inside text-sm text-gray-400 space-y-1">
+                        {preset.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
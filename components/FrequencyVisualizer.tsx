@@ -0,0 +1,377 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { EQSetting, SpectrumPoint, VoiceMeasurements } from '../types';
+import { eqResponseDb, hasGain } from '../services/eqFilters';
+
+// Let TypeScript know D3 is available on the global scope
+declare const d3: any;
+
+export const MAX_GAIN_DB = 15;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const CURVE_POINTS = 240;
+
+export type BandChangeHandler = (index: number, band: EQSetting, options: { transient: boolean }) => void;
+
+interface FrequencyVisualizerProps {
+    measurements: VoiceMeasurements | null;
+    eqSettings: EQSetting[];
+    onBandChange?: BandChangeHandler;
+    /** Settings fitted to a fixed-band device, drawn as a dashed curve over the target. */
+    fittedSettings?: EQSetting[] | null;
+    /** Target voice spectrum relative to 1 kHz, drawn against the measured spectrum. */
+    targetCurve?: SpectrumPoint[];
+}
+
+interface ChartFrame {
+    layer: any;
+    x: any;
+    y: any;
+    yGain: any;
+    width: number;
+    height: number;
+}
+
+type LayerId = 'original' | 'processed' | 'eq' | 'target' | 'fitted';
+
+const LAYERS: { id: LayerId; label: string; colour: string; selector: string }[] = [
+    { id: 'original', label: 'Original spectrum', colour: '#00BFFF', selector: '.bar' },
+    { id: 'processed', label: 'After EQ', colour: '#f472b6', selector: '.processed-spectrum' },
+    { id: 'eq', label: 'EQ response', colour: '#facc15', selector: '.eq-curve' },
+    { id: 'target', label: 'Target', colour: '#34d399', selector: '.target-curve' },
+    { id: 'fitted', label: 'Device fit', colour: '#a78bfa', selector: '.fit-curve' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const inRange = (spectrum: SpectrumPoint[]) =>
+    spectrum.filter(d => d.frequency >= MIN_FREQUENCY && d.frequency <= MAX_FREQUENCY);
+
+/** Level at `frequency`, interpolated on a log-frequency axis; null outside the measured range. */
+function levelAt(points: SpectrumPoint[], frequency: number): number | null {
+    const upper = points.findIndex(p => p.frequency >= frequency);
+    if (upper < 0 || (upper === 0 && points[0].frequency > frequency)) return null;
+    if (upper === 0) return points[0].level;
+    const a = points[upper - 1];
+    const b = points[upper];
+    const t = Math.log(frequency / a.frequency) / Math.log(b.frequency / a.frequency);
+    return a.level + (b.level - a.level) * t;
+}
+
+/** Measured band nearest 1 kHz, which the relative target curve is anchored to. */
+const targetAnchor = (data: SpectrumPoint[]) =>
+    data.reduce((a, b) => Math.abs(Math.log(b.frequency / 1000)) < Math.abs(Math.log(a.frequency / 1000)) ? b : a);
+
+/** Predicted spectrum after the EQ: each band's level plus the EQ's gain at its centre. */
+const processedSpectrum = (data: SpectrumPoint[], settings: EQSetting[]): SpectrumPoint[] =>
+    data.map(d => ({ frequency: d.frequency, level: d.level + eqResponseDb(settings, d.frequency) }));
+
+const formatFrequency = (frequency: number) =>
+    frequency >= 1000 ? `${(frequency / 1000).toFixed(frequency >= 10000 ? 1 : 2)} kHz` : `${Math.round(frequency)} Hz`;
+
+const formatDb = (value: number, signed = false) => `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+export const FrequencyVisualizer: React.FC<FrequencyVisualizerProps> = ({ measurements, eqSettings, onBandChange, fittedSettings, targetCurve }) => {
+    const d3Container = useRef<SVGSVGElement | null>(null);
+    const frameRef = useRef<ChartFrame | null>(null);
+    const [hidden, setHidden] = useState<Set<LayerId>>(new Set());
+    const [hoverFrequency, setHoverFrequency] = useState<number | null>(null);
+
+    // Static layers: axes and the measured spectrum.
+    useEffect(() => {
+        const svgNode = d3Container.current;
+        frameRef.current = null;
+        if (!svgNode) return;
+
+        const svg = d3.select(svgNode);
+        svg.selectAll("*").remove();
+
+        const { width: containerWidth, height: containerHeight } = svgNode.getBoundingClientRect();
+
+        const margin = { top: 20, right: 50, bottom: 40, left: 50 };
+        const width = containerWidth - margin.left - margin.right;
+        const height = containerHeight - margin.top - margin.bottom;
+
+        if (width <= 0 || height <= 0) return;
+
+        const spectrum: SpectrumPoint[] = measurements?.spectrum ?? [];
+        const g = svg.append("g").attr("transform", `translate(${margin.left},${margin.top})`);
+
+        const levels = spectrum.map(d => d.level);
+        const maxLevel = levels.length ? Math.ceil(Math.max(...levels) / 10) * 10 : 0;
+        const minLevel = Math.max(maxLevel - 80, levels.length ? Math.floor(Math.min(...levels) / 10) * 10 : -80);
+
+        const x = d3.scaleLog().domain([MIN_FREQUENCY, MAX_FREQUENCY]).range([0, width]);
+        const y = d3.scaleLinear().domain([minLevel, maxLevel]).range([height, 0]).clamp(true);
+        const yGain = d3.scaleLinear().domain([-MAX_GAIN_DB, MAX_GAIN_DB]).range([height, 0]);
+
+        g.append("g")
+            .attr("transform", `translate(0,${height})`)
+            .call(d3.axisBottom(x).ticks(5, ".0s").tickSizeOuter(0))
+            .selectAll("text")
+            .style("fill", "#9ca3af");
+
+        g.append("g")
+            .call(d3.axisLeft(y).ticks(5).tickSizeOuter(0))
+            .selectAll("text")
+            .style("fill", "#9ca3af");
+
+        g.append("g")
+            .attr("transform", `translate(${width},0)`)
+            .call(d3.axisRight(yGain).ticks(6).tickSizeOuter(0))
+            .selectAll("text")
+            .style("fill", "#facc15");
+
+        g.append("text")
+         .attr("text-anchor", "middle")
+         .attr("x", width/2)
+         .attr("y", height + margin.bottom - 5)
+         .style("fill", "#9ca3af")
+         .text("Frequency (Hz)");
+
+        g.append("text")
+         .attr("text-anchor", "middle")
+         .attr("transform", "rotate(-90)")
+         .attr("y", -margin.left + 15)
+         .attr("x", -height/2)
+         .style("fill", "#9ca3af")
+         .text("Level (dBFS)");
+
+        g.append("text")
+         .attr("text-anchor", "middle")
+         .attr("transform", "rotate(90)")
+         .attr("y", -width - margin.right + 15)
+         .attr("x", height/2)
+         .style("fill", "#facc15")
+         .text("EQ Gain (dB)");
+
+        const data = inRange(spectrum);
+        if (data.length === 0) {
+            g.append("text")
+             .attr("x", width / 2)
+             .attr("y", height / 2)
+             .attr("text-anchor", "middle")
+             .style("fill", "#e5e7eb")
+             .text(!measurements ? "Could not decode the audio file for measurement." : "No voiced speech detected in the sample.");
+        } else {
+            // Bars span half a band on either side of each centre frequency.
+            const halfBand = data.length > 1 ? Math.sqrt(data[1].frequency / data[0].frequency) : 1.06;
+
+            g.selectAll(".bar")
+                .data(data)
+                .enter()
+                .append("rect")
+                .attr("class", "bar")
+                .attr("x", (d: SpectrumPoint) => x(d.frequency / halfBand))
+                .attr("y", (d: SpectrumPoint) => y(d.level))
+                .attr("width", (d: SpectrumPoint) => Math.max(1, x(d.frequency * halfBand) - x(d.frequency / halfBand) - 1))
+                .attr("height", (d: SpectrumPoint) => height - y(d.level))
+                .attr("fill", '#00BFFF')
+                .attr("opacity", 0.6);
+        }
+
+        if (data.length > 0 && targetCurve && targetCurve.length > 1) {
+            const anchor = targetAnchor(data);
+            g.append("path")
+             .datum(targetCurve)
+             .attr("class", "target-curve")
+             .attr("fill", "none")
+             .attr("stroke", "#34d399")
+             .attr("stroke-width", 2)
+             .attr("stroke-dasharray", "2 4")
+             .attr("d", d3.line()
+                .x((d: SpectrumPoint) => x(d.frequency))
+                .y((d: SpectrumPoint) => y(anchor.level + d.level)));
+        }
+
+        g.append("line")
+         .attr("x1", 0)
+         .attr("x2", width)
+         .attr("y1", yGain(0))
+         .attr("y2", yGain(0))
+         .attr("stroke", "#6b7280")
+         .attr("stroke-dasharray", "4 4");
+
+        const hoverLine = g.append("line")
+         .attr("y1", 0)
+         .attr("y2", height)
+         .attr("stroke", "#e5e7eb")
+         .attr("stroke-opacity", 0.4)
+         .style("pointer-events", "none")
+         .style("display", "none");
+
+        svg.on("mousemove", (event: MouseEvent) => {
+            const [px] = d3.pointer(event, g.node());
+            if (px < 0 || px > width) {
+                hoverLine.style("display", "none");
+                setHoverFrequency(null);
+                return;
+            }
+            hoverLine.attr("x1", px).attr("x2", px).style("display", null);
+            setHoverFrequency(x.invert(px));
+        });
+        svg.on("mouseleave", () => {
+            hoverLine.style("display", "none");
+            setHoverFrequency(null);
+        });
+
+        frameRef.current = { layer: g.append("g").attr("class", "eq-layer"), x, y, yGain, width, height };
+    }, [measurements, targetCurve]);
+
+    // EQ curve and draggable band nodes, updated in place so an active drag keeps its element.
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame) return;
+        const { layer, x, y, yGain, width, height } = frame;
+
+        const sampleCurve = (settings: EQSetting[]) => Array.from({ length: CURVE_POINTS }, (_, i) => {
+            const frequency = MIN_FREQUENCY * (MAX_FREQUENCY / MIN_FREQUENCY) ** (i / (CURVE_POINTS - 1));
+            return { frequency, gain: eqResponseDb(settings, frequency) };
+        });
+        const line = d3.line()
+            .x((d: { frequency: number }) => x(d.frequency))
+            .y((d: { gain: number }) => yGain(clamp(d.gain, -MAX_GAIN_DB, MAX_GAIN_DB)));
+
+        // Drawn first so the EQ curves and nodes stay on top of it.
+        const data = inRange(measurements?.spectrum ?? []);
+        layer.selectAll("path.processed-spectrum")
+            .data(data.length ? [processedSpectrum(data, eqSettings)] : [])
+            .join((enter: any) => enter.insert("path", ":first-child"))
+            .attr("class", "processed-spectrum")
+            .attr("fill", "none")
+            .attr("stroke", "#f472b6")
+            .attr("stroke-width", 2)
+            .attr("d", d3.line()
+                .x((d: SpectrumPoint) => x(d.frequency))
+                .y((d: SpectrumPoint) => y(d.level)));
+
+        layer.selectAll("path.eq-curve")
+            .data([sampleCurve(eqSettings)])
+            .join("path")
+            .attr("class", "eq-curve")
+            .attr("fill", "none")
+            .attr("stroke", "#facc15")
+            .attr("stroke-width", 2)
+            .attr("d", line);
+
+        // Inserted before the nodes so it never covers a drag handle.
+        layer.selectAll("path.fit-curve")
+            .data(fittedSettings ? [sampleCurve(fittedSettings)] : [])
+            .join((enter: any) => enter.insert("path", "circle"))
+            .attr("class", "fit-curve")
+            .attr("fill", "none")
+            .attr("stroke", "#a78bfa")
+            .attr("stroke-width", 2)
+            .attr("stroke-dasharray", "6 3")
+            .attr("d", line);
+
+        const nodes = eqSettings.map((band, index) => ({ band, index }));
+        type Node = (typeof nodes)[number];
+
+        // Pass and notch bands have no gain, so they sit on the zero line and only drag horizontally.
+        const nodeGain = (band: EQSetting) => hasGain(band.type) ? clamp(band.gain, -MAX_GAIN_DB, MAX_GAIN_DB) : 0;
+        const bandAt = (node: Node, event: { x: number; y: number }): EQSetting => ({
+            ...node.band,
+            frequency: Math.round(x.invert(clamp(event.x, 0, width))),
+            gain: hasGain(node.band.type) ? Math.round(yGain.invert(clamp(event.y, 0, height)) * 10) / 10 : node.band.gain,
+        });
+
+        let moved = false;
+        const drag = d3.drag()
+            .container(layer.node())
+            .on("start", () => {
+                moved = false;
+            })
+            .on("drag", (event: { x: number; y: number }, node: Node) => {
+                moved = true;
+                onBandChange?.(node.index, bandAt(node, event), { transient: true });
+            })
+            .on("end", (event: { x: number; y: number }, node: Node) => {
+                if (moved) onBandChange?.(node.index, bandAt(node, event), { transient: false });
+            });
+
+        const circles = layer.selectAll("circle.eq-node")
+            .data(nodes, (d: Node) => d.index)
+            .join("circle")
+            .attr("class", "eq-node")
+            .attr("r", 7)
+            .attr("cx", (d: Node) => x(d.band.frequency))
+            .attr("cy", (d: Node) => yGain(nodeGain(d.band)))
+            .attr("fill", (d: Node) => !hasGain(d.band.type) ? '#f97316' : d.band.gain > 0.1 ? '#22c55e' : d.band.gain < -0.1 ? '#ef4444' : '#9ca3af')
+            .attr("stroke", "#111827")
+            .attr("stroke-width", 2)
+            .style("cursor", onBandChange ? "grab" : "default");
+
+        circles.selectAll("title")
+            .data((d: Node) => [d])
+            .join("title")
+            .text((d: Node) => hasGain(d.band.type)
+                ? `${Math.round(d.band.frequency)} Hz, ${d.band.gain > 0 ? '+' : ''}${d.band.gain.toFixed(1)} dB, Q ${d.band.q.toFixed(2)}`
+                : `${Math.round(d.band.frequency)} Hz, Q ${d.band.q.toFixed(2)}`);
+
+        if (onBandChange) circles.call(drag);
+    }, [measurements, eqSettings, onBandChange, fittedSettings]);
+
+    // Runs after both drawing effects, which recreate the elements it hides.
+    useEffect(() => {
+        const svgNode = d3Container.current;
+        if (!svgNode) return;
+        for (const layer of LAYERS) {
+            d3.select(svgNode).selectAll(layer.selector).style("display", hidden.has(layer.id) ? "none" : null);
+        }
+    }, [hidden, measurements, targetCurve, eqSettings, fittedSettings]);
+
+    const data = inRange(measurements?.spectrum ?? []);
+    const available = LAYERS.filter(layer =>
+        layer.id === 'eq'
+        || ((layer.id === 'original' || layer.id === 'processed') && data.length > 0)
+        || (layer.id === 'target' && data.length > 0 && !!targetCurve && targetCurve.length > 1)
+        || (layer.id === 'fitted' && !!fittedSettings));
+
+    const toggleLayer = (id: LayerId) => setHidden(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const readout = (frequency: number) => {
+        const values: { id: LayerId; text: string }[] = [];
+        const original = levelAt(data, frequency);
+        const gain = eqResponseDb(eqSettings, frequency);
+        if (original != null) {
+            values.push({ id: 'original', text: `${formatDb(original)} dBFS` });
+            values.push({ id: 'processed', text: `${formatDb(original + gain)} dBFS` });
+        }
+        values.push({ id: 'eq', text: `${formatDb(gain, true)} dB` });
+        if (data.length && targetCurve && targetCurve.length > 1) {
+            const target = levelAt(targetCurve, frequency);
+            if (target != null) values.push({ id: 'target', text: `${formatDb(targetAnchor(data).level + target)} dBFS` });
+        }
+        if (fittedSettings) values.push({ id: 'fitted', text: `${formatDb(eqResponseDb(fittedSettings, frequency), true)} dB` });
+        return values.filter(v => !hidden.has(v.id));
+    };
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <h3 className="text-xl font-semibold mb-2 text-gray-200">Spectrum &amp; EQ Curve</h3>
+            <p className="text-sm text-gray-400 mb-2">
+                Bars show the long-term average spectrum of voiced speech and the pink line its predicted level after the EQ{targetCurve && ', the dotted green line the target balance for this use'}. The yellow curve is the EQ's computed frequency response on the right-hand axis; drag a node to change a band's frequency and gain.
+                {fittedSettings && ' The dashed curve is the preset fitted to the selected device.'}
+            </p>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-sm">
+                {available.map(layer => (
+                    <label key={layer.id} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={!hidden.has(layer.id)} onChange={() => toggleLayer(layer.id)} />
+                        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: layer.colour }} />
+                        {layer.label}
+                    </label>
+                ))}
+            </div>
+            <svg ref={d3Container} className="w-full h-64 md:h-80 select-none"></svg>
+            <p className="mt-1 text-xs text-gray-400 font-mono min-h-[1rem]">
+                {hoverFrequency == null
+                    ? 'Hover over the chart to read each layer at a frequency.'
+                    : [formatFrequency(hoverFrequency), ...readout(hoverFrequency).map(v => `${LAYERS.find(l => l.id === v.id)!.label} ${v.text}`)].join(' · ')}
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface InputLevelMeterProps {
+  stream: MediaStream;
+}
+
+const FLOOR_DB = -60;
+const CLIP_LEVEL = 0.999;
+const PEAK_HOLD_MS = 1500;
+// Speech peaks in this range leave headroom without burying the voice in the noise floor.
+const GOOD_PEAK_DB: [number, number] = [-18, -6];
+
+const toDb = (value: number) => value > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(value)) : FLOOR_DB;
+const toPercent = (db: number) => 100 * (db - FLOOR_DB) / -FLOOR_DB;
+
+/** Live peak and RMS meter for a microphone stream, with a clip light that stays on until clicked. */
+export const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ stream }) => {
+  const [level, setLevel] = useState({ peakDb: FLOOR_DB, rmsDb: FLOOR_DB, holdDb: FLOOR_DB });
+  const [clipCount, setClipCount] = useState(0);
+  const holdRef = useRef({ db: FLOOR_DB, at: 0 });
+
+  useEffect(() => {
+    const context: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const tick = (now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+      let peak = 0;
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+        sum += samples[i] * samples[i];
+      }
+      const peakDb = toDb(peak);
+      const hold = holdRef.current;
+      if (peakDb >= hold.db || now - hold.at > PEAK_HOLD_MS) {
+        holdRef.current = { db: peakDb, at: now };
+      }
+      if (peak >= CLIP_LEVEL) setClipCount(count => count + 1);
+      setLevel({ peakDb, rmsDb: toDb(Math.sqrt(sum / samples.length)), holdDb: holdRef.current.db });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  const peakColour = level.holdDb > GOOD_PEAK_DB[1] ? 'bg-red-500'
+    : level.holdDb >= GOOD_PEAK_DB[0] ? 'bg-green-500'
+    : 'bg-yellow-500';
+
+  return (
+    <div className="w-full max-w-md flex items-center gap-3" aria-label="Input level">
+      <div className="relative flex-1 h-3 bg-gray-800 rounded overflow-hidden">
+        <div
+          className="absolute inset-y-0 bg-green-900/40"
+          style={{ left: `${toPercent(GOOD_PEAK_DB[0])}%`, width: `${toPercent(GOOD_PEAK_DB[1]) - toPercent(GOOD_PEAK_DB[0])}%` }}
+        />
+        <div className="absolute inset-y-0 left-0 bg-brand-blue/60" style={{ width: `${toPercent(level.peakDb)}%` }} />
+        <div className="absolute inset-y-0 left-0 bg-brand-blue" style={{ width: `${toPercent(level.rmsDb)}%` }} />
+        <div className={`absolute inset-y-0 w-0.5 ${peakColour}`} style={{ left: `${toPercent(level.holdDb)}%` }} />
+      </div>
+      <span className="w-16 text-right font-mono text-xs text-gray-400">{level.holdDb.toFixed(0)} dB</span>
+      <button
+        onClick={() => setClipCount(0)}
+        title={clipCount ? 'The input clipped. Lower the microphone gain, then click to reset.' : 'No clipping so far'}
+        className={`px-2 py-0.5 text-xs font-bold rounded ${clipCount ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-500'}`}
+      >
+        CLIP
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import type { EQSetting, ProcessingChain } from '../types';
+import { decodeAudioBlob } from '../services/audioDecoder';
+import { renderWithEq } from '../services/audioRender';
+import { measureBufferLoudness, type LoudnessReport } from '../services/loudness';
+import {
+    DELIVERY_STANDARDS,
+    checkCompliance,
+    getDeliveryStandard,
+    requirements,
+    type ComplianceCheck,
+    type DeliveryStandardId,
+} from '../services/deliveryStandards';
+
+interface LoudnessPanelProps {
+    audioBlob: Blob;
+    eqSettings: EQSetting[];
+    processingChain: ProcessingChain | null;
+    defaultStandard: DeliveryStandardId;
+}
+
+// Rendering and metering the whole recording is too slow to repeat on every drag step.
+const REMEASURE_DELAY_MS = 600;
+
+const METRICS: { key: keyof LoudnessReport; label: string; unit: string }[] = [
+    { key: 'integratedLufs', label: 'Integrated loudness', unit: 'LUFS' },
+    { key: 'loudnessRangeLu', label: 'Loudness range', unit: 'LU' },
+    { key: 'truePeakDbtp', label: 'True peak', unit: 'dBTP' },
+    { key: 'samplePeakDbfs', label: 'Sample peak', unit: 'dBFS' },
+    { key: 'rmsDbfs', label: 'RMS level', unit: 'dBFS' },
+    { key: 'noiseFloorDbfs', label: 'Noise floor', unit: 'dBFS' },
+];
+
+const ReportCell: React.FC<{ report: LoudnessReport | null; metric: (typeof METRICS)[number]; check?: ComplianceCheck }> = ({ report, metric, check }) => {
+    if (!report) return <td className="py-2 px-3 text-gray-500">…</td>;
+    const value = report[metric.key];
+    return (
+        <td className="py-2 px-3 font-mono text-gray-200 whitespace-nowrap">
+            {value != null ? `${value.toFixed(1)} ${metric.unit}` : '—'}
+            {check && (
+                <span className={`ml-2 ${check.pass ? 'text-green-400' : 'text-red-400'}`}>{check.pass ? '✓' : '✗'}</span>
+            )}
+        </td>
+    );
+};
+
+const summary = (checks: ComplianceCheck[]) => {
+    const failed = checks.filter(c => !c.pass).length;
+    return failed === 0 ? 'passes' : `fails ${failed} of ${checks.length} checks`;
+};
+
+export const LoudnessPanel: React.FC<LoudnessPanelProps> = ({ audioBlob, eqSettings, processingChain, defaultStandard }) => {
+    const [standardId, setStandardId] = useState(defaultStandard);
+    const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+    const [original, setOriginal] = useState<LoudnessReport | null>(null);
+    const [processed, setProcessed] = useState<LoudnessReport | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        decodeAudioBlob(audioBlob)
+            .then(decoded => {
+                if (cancelled) return;
+                setBuffer(decoded);
+                setOriginal(measureBufferLoudness(decoded));
+            })
+            .catch(err => {
+                console.error("Error decoding audio for loudness metering:", err);
+                if (!cancelled) setFailed(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [audioBlob]);
+
+    useEffect(() => {
+        if (!buffer) return;
+        let cancelled = false;
+        setProcessed(null);
+        const timer = setTimeout(() => {
+            renderWithEq(buffer, eqSettings, processingChain)
+                .then(rendered => {
+                    if (!cancelled) setProcessed(measureBufferLoudness(rendered));
+                })
+                .catch(err => console.error("Error metering the processed audio:", err));
+        }, REMEASURE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [buffer, eqSettings, processingChain]);
+
+    if (failed) {
+        return (
+            <div className="bg-gray-900/50 p-4 rounded-lg text-gray-400">
+                Loudness metering unavailable: the browser could not decode this audio file.
+            </div>
+        );
+    }
+
+    const standard = getDeliveryStandard(standardId);
+    const originalChecks = original ? checkCompliance(original, standard) : [];
+    const processedChecks = processed ? checkCompliance(processed, standard) : [];
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="text-xl font-semibold text-gray-200">Loudness &amp; Delivery</h3>
+                <select
+                    aria-label="Delivery standard"
+                    value={standardId}
+                    onChange={e => setStandardId(e.target.value as DeliveryStandardId)}
+                    className="px-3 py-1 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+                >
+                    {DELIVERY_STANDARDS.map(s => (
+                        <option key={s.id} value={s.id}>{s.label}</option>
+                    ))}
+                </select>
+            </div>
+            <p className="text-sm text-gray-400 mb-3">
+                ITU-R BS.1770 loudness and true peak of the recording as it is and after the
+                {processingChain ? ' EQ and vocal chain' : ' EQ'}, before any peak normalisation.
+                {original && ` Original ${summary(originalChecks)}`}
+                {processed && `; processed ${summary(processedChecks)}`}
+                {original && '.'}
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead>
+                        <tr className="border-b border-gray-600 text-gray-400">
+                            <th className="py-2 px-3 font-medium">Measurement</th>
+                            <th className="py-2 px-3 font-medium">{standard.label}</th>
+                            <th className="py-2 px-3 font-medium">Original</th>
+                            <th className="py-2 px-3 font-medium">Processed</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {METRICS.map(metric => (
+                            <tr key={metric.key} className="border-b border-gray-700 last:border-0">
+                                <td className="py-2 px-3 text-gray-300">{metric.label}</td>
+                                <td className="py-2 px-3 text-gray-400">
+                                    {requirements(standard).find(r => r.metric === metric.key)?.label ?? '—'}
+                                </td>
+                                <ReportCell report={original} metric={metric} check={originalChecks.find(c => c.metric === metric.key)} />
+                                <ReportCell report={processed} metric={metric} check={processedChecks.find(c => c.metric === metric.key)} />
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
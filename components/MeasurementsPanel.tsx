@@ -0,0 +1,59 @@
+import React from 'react';
+import type { VoiceMeasurements } from '../types';
+
+export const formatHz = (hz: number) => hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`;
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+const Stat: React.FC<{ label: string; value: string; hint: string }> = ({ label, value, hint }) => (
+    <div className="bg-gray-800/60 p-3 rounded-lg">
+        <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+        <p className="text-lg font-mono text-gray-100">{value}</p>
+        <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+);
+
+export const MeasurementsPanel: React.FC<{ measurements: VoiceMeasurements | null }> = ({ measurements }) => {
+    if (!measurements) {
+        return (
+            <div className="bg-gray-900/50 p-4 rounded-lg text-gray-400">
+                Local measurement unavailable: the browser could not decode this audio file.
+            </div>
+        );
+    }
+
+    const { f0Median, f0Low, f0High, spectralCentroid, sibilanceRatioDb, lowMidBuildupDb, noiseFloorDb } = measurements;
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <h3 className="text-xl font-semibold mb-1 text-gray-200">Measured Voice Data</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                Computed locally from {measurements.voicedDuration.toFixed(1)} s of voiced speech
+                in a {measurements.duration.toFixed(1)} s recording.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <Stat
+                    label="F0 median"
+                    value={f0Median != null ? formatHz(f0Median) : '—'}
+                    hint={f0Low != null && f0High != null ? `${formatHz(f0Low)} – ${formatHz(f0High)}` : 'no pitch found'}
+                />
+                <Stat
+                    label="Spectral centroid"
+                    value={spectralCentroid != null ? formatHz(spectralCentroid) : '—'}
+                    hint="brightness"
+                />
+                <Stat
+                    label="Sibilance"
+                    value={sibilanceRatioDb != null ? formatDb(sibilanceRatioDb) : '—'}
+                    hint="4–10 kHz vs. total"
+                />
+                <Stat
+                    label="Low-mid buildup"
+                    value={lowMidBuildupDb != null ? formatDb(lowMidBuildupDb) : '—'}
+                    hint="200–500 Hz vs. 500 Hz–2 kHz"
+                />
+                <Stat label="Noise floor" value={`${noiseFloorDb.toFixed(0)} dBFS`} hint="quietest 10% of frames" />
+            </div>
+        </div>
+    );
+};
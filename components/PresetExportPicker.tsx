@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { EQSetting, ProcessingChain } from '../types';
+import { getExporter, getExporters } from '../services/exporters';
+import { CHAIN_STAGES, chainStages } from '../services/dynamics';
+import { downloadBlob, toFileName } from '../services/download';
+
+interface PresetExportPickerProps {
+  eqSettings: EQSetting[];
+  presetName: string;
+  processingChain: ProcessingChain | null;
+}
+
+const stageList = (ids: string[]) => ids.map(id => CHAIN_STAGES.find(s => s.id === id)!.label.toLowerCase()).join(', ');
+
+export const PresetExportPicker: React.FC<PresetExportPickerProps> = ({ eqSettings, presetName, processingChain }) => {
+  const exporters = getExporters();
+  const [formatId, setFormatId] = useState(exporters[0].id);
+  const selected = getExporter(formatId) ?? exporters[0];
+  const stages = chainStages(processingChain);
+  const included = stages.filter(id => selected.chainStages?.includes(id));
+  const omitted = stages.filter(id => !included.includes(id));
+  const droppedBands = selected.maxBands !== undefined ? Math.max(0, eqSettings.length - selected.maxBands) : 0;
+
+  const build = () => ({
+    exporter: selected,
+    content: selected.build(eqSettings, { name: presetName, processingChain }),
+  });
+
+  const handleDownload = () => {
+    const { exporter, content } = build();
+    downloadBlob(new Blob([content], { type: exporter.mimeType }), toFileName(presetName, exporter.extension));
+  };
+
+  const handleCopy = () => {
+    const { exporter, content } = build();
+    navigator.clipboard.writeText(content);
+    alert(`${exporter.label} copied to clipboard!`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <select
+        aria-label="Export format"
+        value={formatId}
+        onChange={e => setFormatId(e.target.value)}
+        className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+      >
+        {exporters.map(e => (
+          <option key={e.id} value={e.id}>{e.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleDownload}
+        className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors"
+      >
+        Download Preset
+      </button>
+      <button
+        onClick={handleCopy}
+        className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+      >
+        Copy
+      </button>
+      {stages.length > 0 && (
+        <p className="w-full text-center text-xs text-gray-400">
+          {included.length > 0 ? `Includes the ${stageList(included)}.` : 'EQ only.'}
+          {omitted.length > 0 && ` This format cannot carry the ${stageList(omitted)}.`}
+        </p>
+      )}
+      {droppedBands > 0 && (
+        <p className="w-full text-center text-xs text-yellow-300">
+          This format holds {selected.maxBands} bands, so the {droppedBands} with the least effect are left out.
+        </p>
+      )}
+    </div>
+  );
+};
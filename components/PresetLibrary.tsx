@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    deleteEntry,
+    exportLibrary,
+    importLibrary,
+    listEntries,
+    matchesQuery,
+    parseTags,
+    saveEntry,
+    updateEntry,
+    type LibraryEntry,
+} from '../services/presetLibrary';
+import { FILTER_TYPES, hasGain } from '../services/eqFilters';
+import { downloadBlob } from '../services/download';
+import { CurveComparisonChart } from './CurveComparisonChart';
+import { formatHz } from './MeasurementsPanel';
+import { getTargetMode } from '../services/targetModes';
+
+interface PresetLibraryProps {
+    onOpen: (entry: LibraryEntry) => void;
+    onClose: () => void;
+}
+
+const COMPARE_COLORS = ['#facc15', '#a78bfa'];
+
+const typeLabel = (type: string) => FILTER_TYPES.find(t => t.id === type)?.label ?? type;
+
+/** Text field that reports its value on blur or Enter, for inline renaming and tagging. */
+const InlineField: React.FC<{ value: string; label: string; placeholder?: string; onCommit: (value: string) => void; className?: string }> = ({ value, label, placeholder, onCommit, className }) => {
+    const [draft, setDraft] = useState(value);
+
+    useEffect(() => {
+        setDraft(value);
+    }, [value]);
+
+    return (
+        <input
+            type="text"
+            aria-label={label}
+            value={draft}
+            placeholder={placeholder}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={() => draft !== value && onCommit(draft)}
+            onKeyDown={e => {
+                if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+            }}
+            className={`px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 ${className ?? ''}`}
+        />
+    );
+};
+
+const PresetComparison: React.FC<{ entries: LibraryEntry[] }> = ({ entries }) => (
+    <div className="bg-gray-900/50 p-4 rounded-lg space-y-4">
+        <h3 className="text-xl font-semibold text-gray-200">Comparison</h3>
+        <CurveComparisonChart
+            series={entries.map((entry, i) => ({ label: entry.name, settings: entry.eqSettings, color: COMPARE_COLORS[i] }))}
+        />
+        <div className="grid md:grid-cols-2 gap-4">
+            {entries.map((entry, i) => (
+                <div key={entry.id} className="space-y-2">
+                    <h4 className="font-semibold" style={{ color: COMPARE_COLORS[i] }}>{entry.name}</h4>
+                    <p className="text-sm text-gray-300">{entry.vocalProfile.description}</p>
+                    <p className="text-xs text-gray-400">
+                        {getTargetMode(entry.targetMode).label} · {entry.vocalProfile.fundamentalRange} · {entry.vocalProfile.keyCharacteristics.join(', ')}
+                    </p>
+                    <table className="w-full text-left text-sm">
+                        <tbody>
+                            {entry.eqSettings.map((band, j) => (
+                                <tr key={j} className="border-b border-gray-700 last:border-0">
+                                    <td className="py-1 text-gray-400">{typeLabel(band.type)}</td>
+                                    <td className="py-1 font-mono text-gray-200">{formatHz(band.frequency)}</td>
+                                    <td className="py-1 font-mono text-gray-200">
+                                        {hasGain(band.type) ? `${band.gain > 0 ? '+' : ''}${band.gain.toFixed(1)} dB` : '—'}
+                                    </td>
+                                    <td className="py-1 font-mono text-gray-400">Q {band.q.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({ onOpen, onClose }) => {
+    const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+    const [query, setQuery] = useState('');
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement | null>(null);
+
+    const refresh = () => listEntries()
+        .then(setEntries)
+        .catch(err => {
+            console.error("Could not read the preset library:", err);
+            setEntries([]);
+            setMessage('The preset library is unavailable in this browser.');
+        });
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleUpdate = async (entry: LibraryEntry, patch: Parameters<typeof updateEntry>[1]) => {
+        const next = await saveEntry(updateEntry(entry, patch));
+        setEntries(current => current && current.map(e => e.id === next.id ? next : e));
+    };
+
+    const handleDelete = async (entry: LibraryEntry) => {
+        if (!confirm(`Delete "${entry.name}" from the library?`)) return;
+        await deleteEntry(entry.id);
+        setCompareIds(ids => ids.filter(id => id !== entry.id));
+        refresh();
+    };
+
+    const toggleCompare = (id: string) => {
+        // Keeps the two most recently ticked entries.
+        setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+    };
+
+    const handleExport = async () => {
+        downloadBlob(await exportLibrary(), `eq-library-${new Date().toISOString().slice(0, 10)}.json`);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const { written, problems } = await importLibrary(file);
+            setMessage([`Imported ${written} ${written === 1 ? 'entry' : 'entries'}.`, ...problems].join(' '));
+            refresh();
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Import failed.');
+        }
+    };
+
+    const visible = (entries ?? []).filter(e => matchesQuery(e, query));
+    const compared = compareIds
+        .map(id => entries?.find(e => e.id === id))
+        .filter((e): e is LibraryEntry => !!e);
+
+    return (
+        <div className="p-6 md:p-8 space-y-6 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-brand-blue to-brand-purple">Preset Library</h2>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={handleExport}
+                        disabled={!entries?.length}
+                        className="px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Export Library
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        Import Library
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) handleImport(file);
+                        }}
+                    />
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-1 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition-colors"
+                    >
+                        Back
+                    </button>
+                </div>
+            </div>
+
+            {message && <p className="text-sm text-gray-300">{message}</p>}
+
+            <input
+                type="search"
+                aria-label="Search presets"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Search by name, tag or description"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+            />
+
+            {compared.length === 2 && <PresetComparison entries={compared} />}
+
+            {entries === null ? (
+                <p className="text-gray-400">Loading…</p>
+            ) : visible.length === 0 ? (
+                <p className="text-gray-400">
+                    {entries.length === 0 ? 'No saved analyses yet. Every analysis you run is saved here.' : 'No presets match the search.'}
+                </p>
+            ) : (
+                <ul className="space-y-3">
+                    {visible.map(entry => (
+                        <li key={entry.id} className="bg-gray-900/50 p-4 rounded-lg space-y-2">
+                            <div className="flex flex-wrap items-center gap-3">
+                                <label className="flex items-center gap-1 text-xs text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(entry.id)}
+                                        onChange={() => toggleCompare(entry.id)}
+                                    />
+                                    Compare
+                                </label>
+                                <InlineField
+                                    label="Preset name"
+                                    value={entry.name}
+                                    onCommit={name => name.trim() && handleUpdate(entry, { name: name.trim() })}
+                                    className="flex-1 min-w-[12rem] font-semibold"
+                                />
+                                <span className="text-xs text-gray-500">
+                                    {new Date(entry.createdAt).toLocaleString()} · {getTargetMode(entry.targetMode).label} · {entry.eqSettings.length} bands
+                                    {entry.audio && ' · audio saved'}
+                                </span>
+                            </div>
+                            <p className="text-sm text-gray-400 line-clamp-2">{entry.vocalProfile.description}</p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <InlineField
+                                    label="Tags"
+                                    value={entry.tags.join(', ')}
+                                    placeholder="Add tags, e.g. studio, cold"
+                                    onCommit={text => handleUpdate(entry, { tags: parseTags(text) })}
+                                    className="flex-1 min-w-[12rem] text-sm"
+                                />
+                                <button
+                                    onClick={() => onOpen(entry)}
+                                    className="px-4 py-1 text-sm bg-brand-blue text-white rounded-lg hover:bg-opacity-80 transition-opacity"
+                                >
+                                    Open
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(entry)}
+                                    className="px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-red-700 transition-colors"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
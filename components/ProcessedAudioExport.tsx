@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import type { EQSetting, ProcessingChain } from '../types';
+import { RENDER_FORMATS, renderProcessedAudio, type RenderFormat } from '../services/audioRender';
+import { downloadBlob, toFileName } from '../services/download';
+
+interface ProcessedAudioExportProps {
+  audioBlob: Blob;
+  eqSettings: EQSetting[];
+  presetName: string;
+  processingChain: ProcessingChain | null;
+}
+
+export const ProcessedAudioExport: React.FC<ProcessedAudioExportProps> = ({ audioBlob, eqSettings, presetName, processingChain }) => {
+  const [format, setFormat] = useState<RenderFormat>('wav24');
+  const [isRendering, setIsRendering] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRender = async () => {
+    setIsRendering(true);
+    setMessage(null);
+    try {
+      const rendered = await renderProcessedAudio(audioBlob, eqSettings, format, presetName, processingChain);
+      downloadBlob(rendered.blob, toFileName(presetName, rendered.extension));
+      const rate = `${(rendered.sampleRate / 1000).toFixed(1)} kHz`;
+      setMessage(rendered.peakReductionDb < 0
+        ? `Rendered at ${rate}. Output was lowered by ${Math.abs(rendered.peakReductionDb).toFixed(1)} dB to avoid clipping.`
+        : `Rendered at ${rate}.`);
+    } catch (err) {
+      console.error("Error rendering processed audio:", err);
+      setMessage("Could not render the audio. Your browser may not be able to decode this file.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+      <h3 className="text-xl font-semibold text-gray-200">Processed Audio</h3>
+      <p className="text-sm text-gray-400">Download your recording with the EQ{processingChain && ' and dynamics'} already applied.</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as RenderFormat)}
+          className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-gray-200"
+        >
+          {RENDER_FORMATS.map(f => (
+            <option key={f.id} value={f.id}>{f.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleRender}
+          disabled={isRendering}
+          className="px-6 py-2 bg-brand-purple text-white font-semibold rounded-lg hover:bg-opacity-80 transition-all disabled:opacity-50 disabled:cursor-wait"
+        >
+          {isRendering ? 'Rendering...' : 'Download Processed Audio'}
+        </button>
+      </div>
+      {message && <p className="text-sm text-gray-300">{message}</p>}
+    </div>
+  );
+};
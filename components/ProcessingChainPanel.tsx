@@ -0,0 +1,35 @@
+import React from 'react';
+import type { ProcessingChain } from '../types';
+import { CHAIN_STAGES, chainStages, stageSummary } from '../services/dynamics';
+
+interface ProcessingChainPanelProps {
+    chain: ProcessingChain;
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+}
+
+export const ProcessingChainPanel: React.FC<ProcessingChainPanelProps> = ({ chain, enabled, onEnabledChange }) => (
+    <div className="bg-gray-900/50 p-4 rounded-lg">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-xl font-semibold text-gray-200">Vocal Chain</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={enabled} onChange={e => onEnabledChange(e.target.checked)} />
+                Use in preview, processed audio and exports
+            </label>
+        </div>
+        <p className="text-sm text-gray-400 mb-3">
+            Dynamics recommended alongside the EQ. The gate runs before the EQ; the other stages follow it in this order.
+        </p>
+        <ul className={`space-y-2 ${enabled ? '' : 'opacity-50'}`}>
+            {chainStages(chain).map(stage => (
+                <li key={stage} className="bg-gray-800/60 p-3 rounded-lg">
+                    <p className="text-gray-200">
+                        <strong>{CHAIN_STAGES.find(s => s.id === stage)!.label}</strong>
+                        <span className="ml-2 font-mono text-sm text-gray-300">{stageSummary(chain, stage)}</span>
+                    </p>
+                    {chain[stage]!.rationale && <p className="text-sm text-gray-400">{chain[stage]!.rationale}</p>}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import type { EQSetting } from '../types';
+import type { ReferenceMatch } from '../services/referenceMatch';
+import { CurveComparisonChart } from './CurveComparisonChart';
+import { formatHz } from './MeasurementsPanel';
+
+interface ReferenceMatchPanelProps {
+    match: ReferenceMatch;
+    /** Whether the editor currently holds the match preset. */
+    applied: boolean;
+    onApply: (settings: EQSetting[]) => void;
+}
+
+export const ReferenceMatchPanel: React.FC<ReferenceMatchPanelProps> = ({ match, applied, onApply }) => {
+    const series = useMemo(() => [
+        {
+            label: 'Difference (reference − yours)',
+            points: match.points.flatMap(p => p.differenceDb === null ? [] : [{ frequency: p.frequency, gain: p.differenceDb }]),
+            color: '#6b7280',
+            dashed: true,
+        },
+        {
+            label: 'Matching curve (smoothed, limited)',
+            points: match.points.map(p => ({ frequency: p.frequency, gain: p.curveDb })),
+            color: '#8A2BE2',
+            dashed: true,
+        },
+        { label: 'Match preset', settings: match.settings, color: '#00BFFF' },
+    ], [match]);
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-semibold text-gray-200">Reference Match</h3>
+                <button
+                    onClick={() => onApply(match.settings)}
+                    disabled={applied || match.settings.length === 0}
+                    className="px-4 py-1 text-sm bg-brand-blue text-white rounded-lg hover:bg-opacity-80 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {applied ? 'In Use' : 'Use This Preset'}
+                </button>
+            </div>
+            <p className="text-sm text-gray-400">
+                Moves the long-term spectrum of your voiced speech towards the reference's, measured in the browser. Use it on its own or load it into the editor as a starting point.
+            </p>
+            <CurveComparisonChart series={series} />
+            {match.settings.length > 0 ? (
+                <p className="text-sm font-mono text-gray-300">
+                    {match.settings.map(band => `${formatHz(band.frequency)} ${band.gain > 0 ? '+' : ''}${band.gain.toFixed(1)} dB`).join(' · ')}
+                </p>
+            ) : (
+                <p className="text-sm text-gray-400">
+                    {match.points.some(p => p.differenceDb !== null)
+                        ? 'The two voices already match closely, so no bands were needed.'
+                        : 'The recordings could not be compared; see the limits below.'}
+                </p>
+            )}
+            {match.notes.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-1">Limits</h4>
+                    <ul className="list-disc list-inside text-sm text-gray-400 space-y-1">
+                        {match.notes.map((note, i) => <li key={i}>{note}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
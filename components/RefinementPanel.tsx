@@ -0,0 +1,211 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { EQSetting, ProcessingChain, VocalProfile } from '../types';
+import { ANALYSIS_STAGES, toAnalysisError, type AnalysisError, type AnalysisProgress } from '../services/analysis';
+import { FILTER_TYPES, hasGain } from '../services/eqFilters';
+import { diffBands, type BandChange } from '../services/presetDiff';
+import { CurveComparisonChart } from './CurveComparisonChart';
+import { formatHz } from './MeasurementsPanel';
+
+export interface PresetRevision {
+    /** What the user asked for; null for the original analysis. */
+    feedback: string | null;
+    explanation: string | null;
+    vocalProfile: VocalProfile;
+    eqSettings: EQSetting[];
+    processingChain: ProcessingChain | null;
+    /** The bands the revision was made from, including edits by hand; null for the original analysis. */
+    basedOn: EQSetting[] | null;
+}
+
+export interface RefineOptions {
+    signal: AbortSignal;
+    onProgress: (progress: AnalysisProgress) => void;
+}
+
+interface RefinementPanelProps {
+    revisions: PresetRevision[];
+    activeIndex: number;
+    onSelect: (index: number) => void;
+    /** Requests a revision of the active preset; rejects with an AnalysisError. */
+    onRefine: (feedback: string, options: RefineOptions) => Promise<void>;
+    providerLabel: string;
+}
+
+const SUGGESTIONS = ['Less boomy', 'More air', 'Less harsh', 'Warmer', 'Less sibilant', 'More presence'];
+
+const CHANGE_STYLES: Record<BandChange, { label: string; className: string }> = {
+    added: { label: 'Added', className: 'text-green-400' },
+    removed: { label: 'Removed', className: 'text-red-400 line-through' },
+    changed: { label: 'Changed', className: 'text-yellow-300' },
+    unchanged: { label: 'Unchanged', className: 'text-gray-500' },
+};
+
+const formatGain = (band: EQSetting) => hasGain(band.type) ? `${band.gain > 0 ? '+' : ''}${band.gain.toFixed(1)} dB` : '—';
+
+const typeLabel = (band: EQSetting) => FILTER_TYPES.find(t => t.id === band.type)!.label;
+
+/** "before → after" when a value changed, otherwise the value. */
+const Compared: React.FC<{ before: EQSetting | null; after: EQSetting | null; format: (band: EQSetting) => string }> = ({ before, after, format }) => {
+    const from = before && format(before);
+    const to = after && format(after);
+    if (from && to && from !== to) return <>{from} → <span className="text-gray-100">{to}</span></>;
+    return <>{to ?? from}</>;
+};
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ revisions, activeIndex, onSelect, onRefine, providerLabel }) => {
+    const [feedback, setFeedback] = useState('');
+    const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+    const [error, setError] = useState<AnalysisError | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const active = revisions[activeIndex];
+    const busy = progress !== null;
+
+    const diff = useMemo(() => active.basedOn && diffBands(active.basedOn, active.eqSettings), [active]);
+    const series = useMemo(() => active.basedOn ? [
+        { label: 'Before', settings: active.basedOn, color: '#9ca3af' },
+        { label: `Revision ${activeIndex}`, settings: active.eqSettings, color: '#00BFFF' },
+    ] : [], [active, activeIndex]);
+
+    const submit = async () => {
+        const text = feedback.trim();
+        if (!text || busy) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setProgress({ stage: 'uploading' });
+        try {
+            await onRefine(text, { signal: controller.signal, onProgress: setProgress });
+            setFeedback('');
+        } catch (err) {
+            const refineError = toAnalysisError(err);
+            if (refineError.kind !== 'cancelled') setError(refineError);
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const stageLabel = progress && ANALYSIS_STAGES.find(s => s.id === progress.stage)?.label;
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg space-y-4">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-200">Refine the Preset</h3>
+                <p className="text-sm text-gray-400 mt-1">
+                    Describe what you'd like to change in your own words. {providerLabel} revises the preset as it stands, including your edits, and explains what it changed.
+                </p>
+            </div>
+
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    submit();
+                }}
+                className="space-y-2"
+            >
+                <textarea
+                    aria-label="Feedback on the preset"
+                    value={feedback}
+                    onChange={e => setFeedback(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+                    }}
+                    disabled={busy}
+                    rows={2}
+                    placeholder='e.g. "less boomy, and a bit more air"'
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-200 disabled:opacity-50"
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                    {SUGGESTIONS.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            type="button"
+                            disabled={busy}
+                            onClick={() => setFeedback(prev => prev.trim() ? `${prev.trim()}, ${suggestion.toLowerCase()}` : suggestion)}
+                            className="px-2 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                    <div className="flex-grow" />
+                    {busy ? (
+                        <>
+                            <span className="text-sm text-gray-300">
+                                {stageLabel}
+                                {progress.receivedChars ? ` (${progress.receivedChars.toLocaleString()} characters received)` : ''}…
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => abortRef.current?.abort()}
+                                className="px-4 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            type="submit"
+                            disabled={!feedback.trim()}
+                            className="px-4 py-1 text-sm bg-brand-purple text-white rounded-lg hover:bg-opacity-80 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Refine
+                        </button>
+                    )}
+                </div>
+                {error && <p className="text-sm text-red-400">{error.message}</p>}
+            </form>
+
+            {revisions.length > 1 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-1">Revisions</h4>
+                    <ol className="space-y-1 text-sm">
+                        {revisions.map((revision, i) => (
+                            <li key={i}>
+                                <button
+                                    onClick={() => onSelect(i)}
+                                    disabled={busy}
+                                    aria-current={i === activeIndex}
+                                    className={`w-full text-left px-2 py-1 rounded ${i === activeIndex ? 'bg-brand-blue/20 text-gray-100' : 'text-gray-400 hover:bg-gray-800'} disabled:opacity-50`}
+                                >
+                                    <span className="font-mono mr-2">{i}</span>
+                                    {revision.feedback ? `“${revision.feedback}”` : 'Original analysis'}
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
+            {active.explanation && diff && (
+                <div className="space-y-3">
+                    <p className="text-gray-300">{active.explanation}</p>
+                    <CurveComparisonChart series={series} />
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="py-1 pr-3 font-normal">Change</th>
+                                    <th className="py-1 pr-3 font-normal">Type</th>
+                                    <th className="py-1 pr-3 font-normal">Frequency</th>
+                                    <th className="py-1 pr-3 font-normal">Gain</th>
+                                    <th className="py-1 font-normal">Q</th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono">
+                                {diff.map(({ change, before, after }, i) => (
+                                    <tr key={i} className={CHANGE_STYLES[change].className}>
+                                        <td className="py-1 pr-3 font-sans">{CHANGE_STYLES[change].label}</td>
+                                        <td className="py-1 pr-3 font-sans">{typeLabel((after ?? before)!)}</td>
+                                        <td className="py-1 pr-3"><Compared before={before} after={after} format={b => formatHz(b.frequency)} /></td>
+                                        <td className="py-1 pr-3"><Compared before={before} after={after} format={formatGain} /></td>
+                                        <td className="py-1"><Compared before={before} after={after} format={b => b.q.toFixed(2)} /></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
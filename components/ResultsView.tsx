@@ -1,259 +1,423 @@
-import React, { useEffect, useRef } from 'react';
-import type { VocalProfile, EQSetting } from '../types';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { VocalProfile, EQSetting, VoiceMeasurements, TargetModeId, ProcessingChain, GeminiAnalysisResult } from '../types';
+import { MeasurementsPanel, formatHz } from './MeasurementsPanel';
+import { EqPreviewPlayer } from './EqPreviewPlayer';
+import { ProcessedAudioExport } from './ProcessedAudioExport';
+import { FrequencyVisualizer, type BandChangeHandler } from './FrequencyVisualizer';
+import { EqBandTable } from './EqBandTable';
+import { PresetExportPicker } from './PresetExportPicker';
+import { BandFitPanel } from './BandFitPanel';
+import { ProcessingChainPanel } from './ProcessingChainPanel';
+import { LoudnessPanel } from './LoudnessPanel';
+import { SpectrogramView } from './SpectrogramView';
+import { RefinementPanel, type PresetRevision, type RefineOptions } from './RefinementPanel';
+import { ReferenceMatchPanel } from './ReferenceMatchPanel';
+import { ExistingPresetPanel } from './ExistingPresetPanel';
+import { useUndoable } from '../hooks/useUndoable';
+import { sortBands } from '../services/eqFilters';
+import { downloadBlob, toFileName } from '../services/download';
+import { encodeShareFragment } from '../services/shareLink';
+import { buildReportHtml, buildReportMarkdown } from '../services/sessionReport';
+import { fitToDevice, getDeviceProfile } from '../services/bandFitting';
+import { getTargetMode } from '../services/targetModes';
+import type { RefinementResult } from '../services/analysis';
+import type { ReferenceMatch } from '../services/referenceMatch';
+import type { ImportedPreset } from '../services/presetImport';
 
-// Let TypeScript know D3 is available on the global scope
-declare const d3: any;
+const DEFAULT_PRESET_NAME = 'Gemini Vocal Preset';
 
 interface ResultsViewProps {
   vocalProfile: VocalProfile;
   eqSettings: EQSetting[];
-  audioBlob: Blob;
-  audacityXml: string;
+  /** Null when a library entry was saved without its recording. */
+  audioBlob: Blob | null;
+  measurements: VoiceMeasurements | null;
+  /** Preset towards a reference recording, when one was given. */
+  referenceMatch?: ReferenceMatch | null;
+  /** Why the reference recording could not be matched, shown in place of the match panel. */
+  referenceError?: string | null;
+  /** The EQ the user has been using, when one was imported for the analysis. */
+  existingPreset?: ImportedPreset | null;
+  /** Where the existing preset works against the voice; null when it could not be reviewed. */
+  existingPresetReview?: string[] | null;
+  targetMode: TargetModeId;
+  processingChain: ProcessingChain | null;
+  presetName?: string;
+  audioSaved?: boolean;
+  onSaveToLibrary?: (name: string, preset: SavedPreset, includeAudio: boolean) => Promise<void>;
+  /** Revises the preset from the user's feedback; refinement is hidden without it. */
+  onRefine?: (current: GeminiAnalysisResult, feedback: string, options: RefineOptions) => Promise<RefinementResult>;
+  refineLabel?: string;
+  /** A preset opened from a share link: nothing can be edited, and there is no recording or measurement. */
+  readOnly?: boolean;
   onReset: () => void;
 }
 
-const FrequencyVisualizer: React.FC<{ audioBlob: Blob; eqSettings: EQSetting[] }> = ({ audioBlob, eqSettings }) => {
-    const d3Container = useRef<SVGSVGElement | null>(null);
-    
-    useEffect(() => {
-        if (!audioBlob || !d3Container.current) return;
-        let audioContext: AudioContext | null = null;
-
-        const processAudio = async () => {
-            audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-            const arrayBuffer = await audioBlob.arrayBuffer();
-            let audioBuffer;
-            try {
-                audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-            } catch (e) {
-                console.error("Error decoding audio data:", e);
-                drawChart(new Uint8Array(0), 0, "Error decoding audio file.");
-                if (audioContext) audioContext.close();
-                return;
-            }
-
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-
-            const analyser = audioContext.createAnalyser();
-            analyser.fftSize = 2048;
-
-            source.connect(analyser);
-            // Not connecting to destination to play silently
-
-            source.start(0, Math.min(0.1, audioBuffer.duration), 5); // Start at 0.1s, play for 5s max
-
-            setTimeout(() => {
-                if(!audioContext || audioContext.state === 'closed') return;
-
-                const bufferLength = analyser.frequencyBinCount;
-                const dataArray = new Uint8Array(bufferLength);
-                analyser.getByteFrequencyData(dataArray);
-
-                source.stop();
-                if (dataArray.some(d => d > 0)) {
-                    drawChart(dataArray, audioBuffer.sampleRate);
-                } else {
-                    console.warn("Analyser returned no frequency data. The audio might be silent at the snapshot point.");
-                    drawChart(new Uint8Array(0), 0, "Could not visualize audio: sample may be silent.");
-                }
-                audioContext.close();
-            }, 100); // Take snapshot after 100ms
-        };
-        
-        const drawChart = (dataArray: Uint8Array, sampleRate: number, message?: string) => {
-            const svg = d3.select(d3Container.current);
-            svg.selectAll("*").remove();
-
-            const svgNode = d3Container.current;
-            if (!svgNode) return;
-
-            const { width: containerWidth, height: containerHeight } = svgNode.getBoundingClientRect();
-
-            const margin = { top: 20, right: 20, bottom: 40, left: 50 };
-            const width = containerWidth - margin.left - margin.right;
-            const height = containerHeight - margin.top - margin.bottom;
-
-            if (width <= 0 || height <= 0) return;
+export interface SavedPreset {
+    vocalProfile: VocalProfile;
+    eqSettings: EQSetting[];
+    processingChain: ProcessingChain | null;
+}
 
-            const g = svg.append("g").attr("transform", `translate(${margin.left},${margin.top})`);
-            
-            const x = d3.scaleLog().domain([20, 20000]).range([0, width]);
-            const y = d3.scaleLinear().domain([0, 255]).range([height, 0]);
+export const ResultsView: React.FC<ResultsViewProps> = ({ vocalProfile: originalProfile, eqSettings: originalSettings, audioBlob, measurements, referenceMatch, referenceError = null, existingPreset, existingPresetReview = null, targetMode, processingChain: originalChain, presetName: savedName, audioSaved = false, onSaveToLibrary, onRefine, refineLabel = 'The analysis provider', readOnly = false, onReset }) => {
+    const { value: eqSettings, set: setEqSettings, undo, redo, canUndo, canRedo } = useUndoable(originalSettings);
+    // Every refinement is kept so the user can step back to an earlier one; the first entry is the analysis itself.
+    const [revisions, setRevisions] = useState<PresetRevision[]>(() => [{
+        feedback: null,
+        explanation: null,
+        vocalProfile: originalProfile,
+        eqSettings: originalSettings,
+        processingChain: originalChain,
+        basedOn: null,
+    }]);
+    const [activeRevision, setActiveRevision] = useState(0);
+    const { vocalProfile, processingChain, eqSettings: generatedSettings } = revisions[activeRevision];
+    const [presetName, setPresetName] = useState(savedName ?? DEFAULT_PRESET_NAME);
+    const [includeAudio, setIncludeAudio] = useState(audioSaved);
+    const [saveMessage, setSaveMessage] = useState<string | null>(null);
+    const exportName = presetName.trim() || DEFAULT_PRESET_NAME;
+    const mode = getTargetMode(targetMode);
+    const [fitProfileId, setFitProfileId] = useState('');
+    const [chainEnabled, setChainEnabled] = useState(true);
+    const activeChain = chainEnabled ? processingChain : null;
 
-            g.append("g")
-                .attr("transform", `translate(0,${height})`)
-                .call(d3.axisBottom(x).ticks(5, ".0s").tickSizeOuter(0))
-                .selectAll("text")
-                .style("fill", "#9ca3af");
+    const bandFit = useMemo(() => {
+        const profile = getDeviceProfile(fitProfileId);
+        return profile ? fitToDevice(eqSettings, profile) : null;
+    }, [eqSettings, fitProfileId]);
 
-            g.append("g")
-                .call(d3.axisLeft(y).ticks(5).tickSizeOuter(0))
-                .selectAll("text")
-                .style("fill", "#9ca3af");
-                
-            g.append("text")
-             .attr("text-anchor", "middle")
-             .attr("x", width/2)
-             .attr("y", height + margin.bottom - 5)
-             .style("fill", "#9ca3af")
-             .text("Frequency (Hz)");
+    const handleBandChange: BandChangeHandler = useCallback((index, band, { transient }) => {
+        const next = eqSettings.map((b, i) => i === index ? band : b);
+        setEqSettings(transient ? next : sortBands(next), { transient });
+    }, [eqSettings, setEqSettings]);
 
-            g.append("text")
-             .attr("text-anchor", "middle")
-             .attr("transform", "rotate(-90)")
-             .attr("y", -margin.left + 15)
-             .attr("x", -height/2)
-             .style("fill", "#9ca3af")
-             .text("Amplitude");
-            
-            if (dataArray.length === 0 || !sampleRate) {
-                g.append("text")
-                 .attr("x", width / 2)
-                 .attr("y", height / 2)
-                 .attr("text-anchor", "middle")
-                 .style("fill", "#e5e7eb")
-                 .text(message || "No audio data to display.");
-                return;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                redo();
             }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
 
-            const data = Array.from(dataArray).map((d, i) => ({
-                frequency: (i * sampleRate) / (2 * dataArray.length),
-                amplitude: d,
-            })).filter(d => d.frequency >= 20 && d.frequency <= 20000);
+    useEffect(() => {
+        setSaveMessage(null);
+    }, [eqSettings, presetName]);
 
-            const barWidth = width / data.length;
+    const handleRefine = async (feedback: string, options: RefineOptions) => {
+        if (!onRefine) return;
+        const result = await onRefine({
+            vocalProfile,
+            eqPreset: eqSettings,
+            targetMode,
+            ...(processingChain ? { processingChain } : {}),
+        }, feedback, options);
+        setRevisions(prev => [...prev, {
+            feedback,
+            explanation: result.explanation,
+            vocalProfile: result.vocalProfile,
+            eqSettings: result.eqPreset,
+            processingChain: result.processingChain ?? null,
+            basedOn: eqSettings,
+        }]);
+        setActiveRevision(revisions.length);
+        setEqSettings(result.eqPreset);
+    };
 
-            g.selectAll(".bar")
-                .data(data)
-                .enter()
-                .append("rect")
-                .attr("class", "bar")
-                .attr("x", d => x(d.frequency))
-                .attr("y", d => y(d.amplitude))
-                .attr("width", barWidth > 0 ? barWidth : 1)
-                .attr("height", d => height - y(d.amplitude))
-                .attr("fill", d => {
-                    const closestEq = eqSettings.find(eq => Math.abs(Math.log10(eq.frequency) - Math.log10(d.frequency)) < 0.1);
-                    if(closestEq) {
-                        return closestEq.gain > 0 ? '#22c55e' : '#ef4444';
-                    }
-                    return '#00BFFF';
-                });
-        };
+    const handleSelectRevision = (index: number) => {
+        setActiveRevision(index);
+        setEqSettings(revisions[index].eqSettings);
+    };
 
-        processAudio().catch(console.error);
+    const handleSave = async () => {
+        if (!onSaveToLibrary) return;
+        try {
+            await onSaveToLibrary(exportName, { vocalProfile, eqSettings, processingChain }, includeAudio && !!audioBlob);
+            setSaveMessage('Saved to library.');
+        } catch (err) {
+            console.error("Could not save to the preset library:", err);
+            setSaveMessage('Saving failed. The browser may have run out of storage.');
+        }
+    };
 
-        return () => {
-            if (audioContext && audioContext.state !== 'closed') {
-                audioContext.close();
-            }
-        };
-    }, [audioBlob, eqSettings]);
+    const shareUrl = async () => {
+        const fragment = await encodeShareFragment({ name: exportName, vocalProfile, eqSettings, targetMode, processingChain: activeChain });
+        return `${window.location.origin}${window.location.pathname}${window.location.search}${fragment}`;
+    };
 
-    return (
-        <div className="bg-gray-900/50 p-4 rounded-lg">
-             <h3 className="text-xl font-semibold mb-2 text-gray-200">Vocal Frequency Snapshot</h3>
-            <svg ref={d3Container} className="w-full h-64 md:h-80"></svg>
-        </div>
-    );
-};
+    const handleCopyShareLink = async () => {
+        try {
+            await navigator.clipboard.writeText(await shareUrl());
+        } catch (err) {
+            console.error("Could not copy the share link:", err);
+            alert("The share link could not be copied. The browser may have blocked clipboard access.");
+            return;
+        }
+        alert("Share link copied to clipboard! It opens this preset read-only, without the recording.");
+    };
 
+    const handleDownloadReport = async (format: 'html' | 'md') => {
+        try {
+            const report = { name: exportName, vocalProfile, eqSettings, processingChain: activeChain, targetMode, measurements, shareUrl: await shareUrl(), createdAt: new Date() };
+            const content = format === 'html' ? buildReportHtml(report) : buildReportMarkdown(report);
+            downloadBlob(new Blob([content], { type: format === 'html' ? 'text/html' : 'text/markdown' }), toFileName(`${exportName} report`, format));
+        } catch (err) {
+            console.error("Could not build the session report:", err);
+            alert("The report could not be created. Please try again.");
+        }
+    };
 
-export const ResultsView: React.FC<ResultsViewProps> = ({ vocalProfile, eqSettings, audioBlob, audacityXml, onReset }) => {
     const handleCopyJson = () => {
-        navigator.clipboard.writeText(JSON.stringify({ vocalProfile, eqSettings }, null, 2));
+        navigator.clipboard.writeText(JSON.stringify({ vocalProfile, eqSettings, processingChain: activeChain ?? undefined }, null, 2));
         alert("EQ settings copied to clipboard as JSON!");
     };
 
-    const handleDownloadXml = () => {
-        const blob = new Blob([audacityXml], { type: 'application/xml' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'gemini-eq-preset.xml';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    };
     
     return (
         <div className="p-6 md:p-8 space-y-8 animate-fade-in">
             <div>
-                <h2 className="text-3xl font-bold text-center bg-clip-text text-transparent bg-gradient-to-r from-brand-blue to-brand-purple">Analysis Complete</h2>
+                <h2 className="text-3xl font-bold text-center bg-clip-text text-transparent bg-gradient-to-r from-brand-blue to-brand-purple">{readOnly ? 'Shared Preset' : 'Analysis Complete'}</h2>
+                <p className="mt-2 text-center text-sm text-gray-400">
+                    Target: <span className="px-2 py-0.5 rounded-full bg-brand-purple/30 text-gray-200">{mode.label}</span>
+                    {' '}· gains limited to −{mode.maxCutDb}…+{mode.maxBoostDb} dB
+                </p>
+                {readOnly && (
+                    <p className="mt-1 text-center text-sm text-gray-400">
+                        Read-only. Shared links carry the profile and preset, not the recording or its measurements.
+                    </p>
+                )}
             </div>
             <div className="grid md:grid-cols-2 gap-8">
-                <div className="space-y-6">
-                    <div>
-                        <h3 className="text-xl font-semibold mb-2 text-gray-200">Vocal Profile</h3>
-                        <p className="text-gray-300 bg-gray-900/50 p-4 rounded-lg">{vocalProfile.description}</p>
-                    </div>
-                     <div>
-                        <h3 className="text-xl font-semibold mb-2 text-gray-200">Key Characteristics</h3>
-                        <ul className="list-disc list-inside bg-gray-900/50 p-4 rounded-lg text-gray-300 space-y-1">
-                            <li><strong>Fundamental Range:</strong> {vocalProfile.fundamentalRange}</li>
-                            {vocalProfile.keyCharacteristics.map((char, i) => (
-                                <li key={i}>{char}</li>
-                            ))}
-                        </ul>
-                    </div>
+                <div>
+                    <h3 className="text-xl font-semibold mb-2 text-gray-200">Vocal Profile</h3>
+                    <p className="text-gray-300 bg-gray-900/50 p-4 rounded-lg">{vocalProfile.description}</p>
+                </div>
+                <div>
+                    <h3 className="text-xl font-semibold mb-2 text-gray-200">Key Characteristics</h3>
+                    <ul className="list-disc list-inside bg-gray-900/50 p-4 rounded-lg text-gray-300 space-y-1">
+                        <li>
+                            <strong>Fundamental Range:</strong> {vocalProfile.fundamentalRange}
+                            {measurements?.f0Median != null && (
+                                <span className="text-gray-400">
+                                    {' '}(measured: {formatHz(measurements.f0Low!)} – {formatHz(measurements.f0High!)}, median {formatHz(measurements.f0Median)})
+                                </span>
+                            )}
+                        </li>
+                        {vocalProfile.keyCharacteristics.map((char, i) => (
+                            <li key={i}>{char}</li>
+                        ))}
+                    </ul>
                 </div>
+            </div>
 
-                <div className="space-y-6">
-                    <div>
-                        <h3 className="text-xl font-semibold mb-2 text-gray-200">Generated EQ Preset</h3>
-                        <div className="bg-gray-900/50 p-4 rounded-lg">
-                            <table className="w-full text-left">
-                                <thead className="border-b border-gray-600">
-                                    <tr>
-                                        <th className="py-2 px-2">Frequency</th>
-                                        <th className="py-2 px-2">Gain (dB)</th>
-                                        <th className="py-2 px-2">Action</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {eqSettings.map(({ frequency, gain }, i) => (
-                                        <tr key={i} className="border-b border-gray-700 last:border-0">
-                                            <td className="py-2 px-2">{frequency} Hz</td>
-                                            <td className={`py-2 px-2 font-mono ${gain > 0 ? 'text-green-400' : gain < 0 ? 'text-red-400' : 'text-gray-300'}`}>
-                                                {gain > 0 ? '+' : ''}{gain.toFixed(1)}
-                                            </td>
-                                            <td className="py-2 px-2">
-                                                 <span className={`px-2 py-1 text-xs rounded-full ${gain > 0.1 ? 'bg-green-800/50 text-green-300' : gain < -0.1 ? 'bg-red-800/50 text-red-300' : 'bg-gray-600 text-gray-300'}`}>
-                                                    {gain > 0.1 ? 'Boost' : gain < -0.1 ? 'Cut' : 'Neutral'}
-                                                </span>
-                                            </td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        </div>
+            <div>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-3">
+                        <h3 className="text-xl font-semibold text-gray-200">EQ Preset</h3>
+                        {readOnly ? (
+                            <span className="text-gray-300">{exportName}</span>
+                        ) : (
+                            <input
+                                type="text"
+                                aria-label="Preset name"
+                                value={presetName}
+                                onChange={e => setPresetName(e.target.value)}
+                                placeholder={DEFAULT_PRESET_NAME}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200"
+                            />
+                        )}
                     </div>
+                    {!readOnly && <div className="flex gap-2">
+                        <button
+                            onClick={undo}
+                            disabled={!canUndo}
+                            title="Undo (Ctrl+Z)"
+                            className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Undo
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={!canRedo}
+                            title="Redo (Ctrl+Shift+Z)"
+                            className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Redo
+                        </button>
+                        <button
+                            onClick={() => setEqSettings(generatedSettings)}
+                            disabled={eqSettings === generatedSettings}
+                            className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Reset to Generated
+                        </button>
+                    </div>}
                 </div>
+                <EqBandTable eqSettings={eqSettings} onChange={readOnly ? undefined : next => setEqSettings(sortBands(next))} />
+                {onSaveToLibrary && (
+                    <div className="flex flex-wrap items-center gap-3 mt-3">
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-1 text-sm bg-brand-blue text-white rounded-lg hover:bg-opacity-80 transition-opacity"
+                        >
+                            Save to Library
+                        </button>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={includeAudio && !!audioBlob}
+                                disabled={!audioBlob}
+                                onChange={e => setIncludeAudio(e.target.checked)}
+                            />
+                            Include the recording
+                        </label>
+                        {saveMessage && <span className="text-sm text-gray-400">{saveMessage}</span>}
+                    </div>
+                )}
             </div>
 
-            <FrequencyVisualizer audioBlob={audioBlob} eqSettings={eqSettings} />
+            <FrequencyVisualizer
+                measurements={measurements}
+                eqSettings={eqSettings}
+                onBandChange={readOnly ? undefined : handleBandChange}
+                fittedSettings={bandFit?.settings}
+                targetCurve={mode.targetCurve}
+            />
+
+            {!readOnly && (
+                <BandFitPanel
+                    profileId={fitProfileId}
+                    onProfileChange={setFitProfileId}
+                    fit={bandFit}
+                    onApply={settings => {
+                        setEqSettings(settings);
+                        setFitProfileId('');
+                    }}
+                />
+            )}
+
+            {onRefine && (
+                <RefinementPanel
+                    revisions={revisions}
+                    activeIndex={activeRevision}
+                    onSelect={handleSelectRevision}
+                    onRefine={handleRefine}
+                    providerLabel={refineLabel}
+                />
+            )}
+
+            {referenceMatch && (
+                <ReferenceMatchPanel
+                    match={referenceMatch}
+                    applied={eqSettings === referenceMatch.settings}
+                    onApply={setEqSettings}
+                />
+            )}
+
+            {referenceError && (
+                <div className="bg-gray-900/50 p-4 rounded-lg">
+                    <h3 className="text-xl font-semibold text-gray-200">Reference Match</h3>
+                    <p className="text-sm text-yellow-300 mt-1">No match preset was built: {referenceError}</p>
+                </div>
+            )}
+
+            {existingPreset && (
+                <ExistingPresetPanel
+                    preset={existingPreset}
+                    review={existingPresetReview}
+                    recommended={generatedSettings}
+                    current={eqSettings}
+                    onApply={setEqSettings}
+                />
+            )}
+
+            {processingChain && (
+                <ProcessingChainPanel chain={processingChain} enabled={chainEnabled} onEnabledChange={setChainEnabled} />
+            )}
+
+            {audioBlob ? (
+                <>
+                    <EqPreviewPlayer
+                        audioBlob={audioBlob}
+                        eqSettings={eqSettings}
+                        spectrum={measurements?.spectrum ?? null}
+                        processingChain={activeChain}
+                    />
+
+                    <SpectrogramView
+                        audioBlob={audioBlob}
+                        eqSettings={eqSettings}
+                        spectrum={measurements?.spectrum ?? null}
+                        processingChain={activeChain}
+                    />
+
+                    <LoudnessPanel
+                        audioBlob={audioBlob}
+                        eqSettings={eqSettings}
+                        processingChain={activeChain}
+                        defaultStandard={mode.deliveryStandard}
+                    />
+
+                    <ProcessedAudioExport
+                        audioBlob={audioBlob}
+                        eqSettings={eqSettings}
+                        presetName={exportName}
+                        processingChain={activeChain}
+                    />
+                </>
+            ) : (
+                <p className="bg-gray-900/50 p-4 rounded-lg text-gray-400">
+                    {readOnly
+                        ? 'Shared presets come without the recording, so preview and processed audio are unavailable.'
+                        : 'The recording was not saved with this preset, so preview and processed audio are unavailable.'}
+                </p>
+            )}
+
+            <MeasurementsPanel measurements={measurements} />
             
             <div className="flex flex-wrap justify-center gap-4 pt-6">
                 <button
                     onClick={onReset}
                     className="px-6 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
                 >
-                    Analyze Another
-                </button>
-                 <button
-                    onClick={handleDownloadXml}
-                    className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors"
-                >
-                    Download Audacity XML
+                    {readOnly ? 'Analyze Your Voice' : 'Analyze Another'}
                 </button>
+                <PresetExportPicker eqSettings={eqSettings} presetName={exportName} processingChain={activeChain} />
                  <button
                     onClick={handleCopyJson}
                     className="px-6 py-2 bg-brand-blue text-white font-semibold rounded-lg hover:bg-opacity-80 transition-opacity"
                 >
                     Copy as JSON
                 </button>
+                <button
+                    onClick={handleCopyShareLink}
+                    className="px-6 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                    Copy Share Link
+                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => handleDownloadReport('html')}
+                        className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        Report (HTML)
+                    </button>
+                    <button
+                        onClick={() => handleDownloadReport('md')}
+                        className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        Report (Markdown)
+                    </button>
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { EQSetting, ProcessingChain, SpectrumPoint } from '../types';
+import { audioBufferToChannels, audioBufferToMono, decodeAudioBlob, sliceAudioBuffer } from '../services/audioDecoder';
+import { renderWithEq } from '../services/audioRender';
+import { AUDIO_EVENT_KINDS, detectAudioEvents, type AudioEvent, type AudioEventKind } from '../services/audioEvents';
+import { levelMatchGainDb } from '../services/eqFilters';
+import { computeSpectrogram, type Spectrogram } from '../services/spectrogram';
+
+// Let TypeScript know D3 is available on the global scope
+declare const d3: any;
+
+interface SpectrogramViewProps {
+    audioBlob: Blob;
+    eqSettings: EQSetting[];
+    spectrum: SpectrumPoint[] | null;
+    /** Dynamics to run around the EQ on the processed playback, or null for EQ only. */
+    processingChain: ProcessingChain | null;
+}
+
+type Version = 'original' | 'processed';
+
+const HEIGHT_PX = 200;
+const LANE_PX = 10;
+const DYNAMIC_RANGE_DB = 90;
+const TICK_S = 5;
+const FREQUENCY_LABELS = [100, 1000, 10000];
+// Events are played with a little context either side, and long ones (hum) are cut short.
+const PLAY_PADDING_S = 0.4;
+const MAX_PLAY_S = 4;
+const PLAY_GAP_S = 0.4;
+
+const formatSeconds = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+function drawSpectrogram(canvas: HTMLCanvasElement, spectrogram: Spectrogram): void {
+    const { columns, rows, levels } = spectrogram;
+    canvas.width = columns;
+    canvas.height = rows;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    let maxDb = -120;
+    for (let i = 0; i < levels.length; i++) maxDb = Math.max(maxDb, levels[i]);
+    const palette = Array.from({ length: 256 }, (_, i) => d3.rgb(d3.interpolateInferno(i / 255)));
+    const image = context.createImageData(columns, rows);
+    for (let c = 0; c < columns; c++) {
+        for (let r = 0; r < rows; r++) {
+            const level = (levels[c * rows + r] - maxDb + DYNAMIC_RANGE_DB) / DYNAMIC_RANGE_DB;
+            const colour = palette[Math.round(255 * Math.min(1, Math.max(0, level)))];
+            const pixel = ((rows - 1 - r) * columns + c) * 4;
+            image.data[pixel] = colour.r;
+            image.data[pixel + 1] = colour.g;
+            image.data[pixel + 2] = colour.b;
+            image.data[pixel + 3] = 255;
+        }
+    }
+    context.putImageData(image, 0, 0);
+}
+
+export const SpectrogramView: React.FC<SpectrogramViewProps> = ({ audioBlob, eqSettings, spectrum, processingChain }) => {
+    const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+    const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+    const [events, setEvents] = useState<AudioEvent[]>([]);
+    const [failed, setFailed] = useState(false);
+    const [hiddenKinds, setHiddenKinds] = useState<Set<AudioEventKind>>(new Set());
+    const [selected, setSelected] = useState<AudioEvent | null>(null);
+    const [playing, setPlaying] = useState<Version | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const contextRef = useRef<AudioContext | null>(null);
+    const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+    // Bumped on every play request so a slow render can't start after a newer request.
+    const playTokenRef = useRef(0);
+
+    const trimDb = useMemo(() => levelMatchGainDb(eqSettings, spectrum), [eqSettings, spectrum]);
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: number | undefined;
+        setSpectrogram(null);
+        setEvents([]);
+        setSelected(null);
+        decodeAudioBlob(audioBlob)
+            .then(decoded => {
+                if (cancelled) return;
+                setBuffer(decoded);
+                // Deferred so the "analysing" message paints before the main thread is busy.
+                timer = window.setTimeout(() => {
+                    setSpectrogram(computeSpectrogram(audioBufferToMono(decoded), decoded.sampleRate));
+                    setEvents(detectAudioEvents(audioBufferToChannels(decoded), decoded.sampleRate));
+                });
+            })
+            .catch(err => {
+                console.error("Error decoding audio for the spectrogram:", err);
+                if (!cancelled) setFailed(true);
+            });
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [audioBlob]);
+
+    useEffect(() => {
+        if (canvasRef.current && spectrogram) drawSpectrogram(canvasRef.current, spectrogram);
+    }, [spectrogram]);
+
+    const stopPlayback = () => {
+        playTokenRef.current++;
+        for (const source of sourcesRef.current) {
+            source.onended = null;
+            source.stop();
+            source.disconnect();
+        }
+        sourcesRef.current = [];
+        setPlaying(null);
+    };
+
+    useEffect(() => () => {
+        stopPlayback();
+        contextRef.current?.close();
+    }, []);
+
+    const play = async (event: AudioEvent, versions: Version[]) => {
+        if (!buffer) return;
+        stopPlayback();
+        const token = playTokenRef.current;
+        const startS = Math.max(0, event.startS - PLAY_PADDING_S);
+        const segment = sliceAudioBuffer(buffer, startS, Math.min(event.endS + PLAY_PADDING_S, startS + MAX_PLAY_S));
+        const rendered = versions.includes('processed') ? await renderWithEq(segment, eqSettings, processingChain) : null;
+        if (token !== playTokenRef.current) return;
+
+        const context = contextRef.current ?? new (window.AudioContext || (window as any).webkitAudioContext)();
+        contextRef.current = context;
+        await context.resume();
+        let at = context.currentTime + 0.05;
+        const sources = versions.map(version => {
+            const source = context.createBufferSource();
+            source.buffer = version === 'processed' ? rendered : segment;
+            const trim = context.createGain();
+            trim.gain.value = version === 'processed' ? 10 ** (trimDb / 20) : 1;
+            source.connect(trim).connect(context.destination);
+            source.start(at);
+            at += segment.duration + PLAY_GAP_S;
+            return source;
+        });
+        sources.forEach((source, i) => {
+            source.onended = () => setPlaying(versions[i + 1] ?? null);
+        });
+        sourcesRef.current = sources;
+        setPlaying(versions[0]);
+    };
+
+    const handleSelect = (event: AudioEvent) => {
+        setSelected(event);
+        play(event, ['original', 'processed']).catch(err => console.error("Error playing the event:", err));
+    };
+
+    const toggleKind = (kind: AudioEventKind) => setHiddenKinds(prev => {
+        const next = new Set(prev);
+        if (next.has(kind)) next.delete(kind); else next.add(kind);
+        return next;
+    });
+
+    if (failed) {
+        return (
+            <div className="bg-gray-900/50 p-4 rounded-lg text-gray-400">
+                Spectrogram unavailable: the browser could not decode this audio file.
+            </div>
+        );
+    }
+
+    const toX = (seconds: number) => spectrogram ? seconds / spectrogram.hopS : 0;
+    const rowOf = (frequency: number) => spectrogram
+        ? HEIGHT_PX * (1 - Math.log(frequency / spectrogram.minFrequency) / Math.log(spectrogram.maxFrequency / spectrogram.minFrequency))
+        : 0;
+    const visibleEvents = events.filter(e => !hiddenKinds.has(e.kind));
+    const kind = (id: AudioEventKind) => AUDIO_EVENT_KINDS.find(k => k.id === id)!;
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg">
+            <h3 className="text-xl font-semibold mb-2 text-gray-200">Spectrogram &amp; Problem Spots</h3>
+            <p className="text-sm text-gray-400 mb-2">
+                The whole recording over time, with locally detected sibilance, plosives, mains hum and clipping marked above it.
+                Click a marker to hear that moment as recorded and then {processingChain ? 'with the EQ and vocal chain' : 'with the EQ'}, level-matched.
+            </p>
+            {!spectrogram ? (
+                <p className="text-gray-400">Analysing the recording...</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-sm">
+                        {AUDIO_EVENT_KINDS.map(k => (
+                            <label key={k.id} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={!hiddenKinds.has(k.id)} onChange={() => toggleKind(k.id)} />
+                                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: k.colour }} />
+                                {k.label} ({events.filter(e => e.kind === k.id).length})
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex">
+                        <div className="relative w-12 shrink-0 text-xs text-gray-400" style={{ marginTop: AUDIO_EVENT_KINDS.length * LANE_PX, height: HEIGHT_PX }}>
+                            {FREQUENCY_LABELS.filter(f => f > spectrogram.minFrequency && f < spectrogram.maxFrequency).map(f => (
+                                <span key={f} className="absolute right-2 -translate-y-1/2" style={{ top: rowOf(f) }}>
+                                    {f >= 1000 ? `${f / 1000}k` : f}
+                                </span>
+                            ))}
+                        </div>
+                        <div className="overflow-x-auto flex-1">
+                            <div className="relative" style={{ width: spectrogram.columns }}>
+                                <div className="relative" style={{ height: AUDIO_EVENT_KINDS.length * LANE_PX }}>
+                                    {visibleEvents.map((event, i) => (
+                                        <button
+                                            key={`${event.kind}-${i}`}
+                                            onClick={() => handleSelect(event)}
+                                            title={`${kind(event.kind).label} at ${formatSeconds(event.startS)}: ${event.detail}`}
+                                            className={`absolute rounded-sm ${event === selected ? 'ring-2 ring-white' : ''}`}
+                                            style={{
+                                                left: toX(event.startS),
+                                                width: Math.max(4, toX(event.endS) - toX(event.startS)),
+                                                top: AUDIO_EVENT_KINDS.findIndex(k => k.id === event.kind) * LANE_PX + 1,
+                                                height: LANE_PX - 2,
+                                                backgroundColor: kind(event.kind).colour,
+                                            }}
+                                        />
+                                    ))}
+                                </div>
+                                <canvas ref={canvasRef} className="block" style={{ width: spectrogram.columns, height: HEIGHT_PX }} />
+                                {selected && (
+                                    <div
+                                        className="absolute border-x border-white/70 bg-white/10 pointer-events-none"
+                                        style={{
+                                            left: toX(selected.startS),
+                                            width: Math.max(2, toX(selected.endS) - toX(selected.startS)),
+                                            top: AUDIO_EVENT_KINDS.length * LANE_PX,
+                                            height: HEIGHT_PX,
+                                        }}
+                                    />
+                                )}
+                                <div className="relative h-5 text-xs text-gray-400">
+                                    {Array.from({ length: Math.floor(spectrogram.columns * spectrogram.hopS / TICK_S) + 1 }, (_, i) => (
+                                        <span key={i} className="absolute" style={{ left: toX(i * TICK_S) }}>
+                                            {formatSeconds(i * TICK_S)}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                    {events.length === 0 && (
+                        <p className="mt-2 text-sm text-green-400">No sibilance, plosive, hum or clipping problems were detected.</p>
+                    )}
+                    {selected && (
+                        <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+                            <span className="font-semibold" style={{ color: kind(selected.kind).colour }}>
+                                {kind(selected.kind).label} at {formatSeconds(selected.startS)}
+                            </span>
+                            <span className="text-gray-400 flex-1">{selected.detail}</span>
+                            {(['original', 'processed'] as Version[]).map(version => (
+                                <button
+                                    key={version}
+                                    onClick={() => play(selected, [version]).catch(err => console.error("Error playing the event:", err))}
+                                    className={`px-3 py-1 rounded-lg font-semibold transition-colors ${playing === version ? 'bg-brand-purple text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                                >
+                                    ▶ {version === 'original' ? 'Original' : 'Processed'}
+                                </button>
+                            ))}
+                            {playing && (
+                                <button onClick={stopPlayback} className="px-3 py-1 rounded-lg bg-gray-600 text-white hover:bg-gray-500">
+                                    Stop
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
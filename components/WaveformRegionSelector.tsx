@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { AudioRegion } from '../types';
+import { audioBufferToMono } from '../services/audioDecoder';
+
+interface WaveformRegionSelectorProps {
+  buffer: AudioBuffer;
+  /** The selected span, or null for the whole recording. */
+  region: AudioRegion | null;
+  onRegionChange: (region: AudioRegion | null) => void;
+  disabled?: boolean;
+}
+
+const COLUMNS = 600;
+const HEIGHT = 80;
+const MIN_REGION_S = 1;
+// How close to an edge, in screen pixels, a press grabs that edge instead of starting a new selection.
+const HANDLE_GRAB = 8;
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/** Smallest and largest sample in each canvas column. */
+function waveformPeaks(buffer: AudioBuffer): { min: Float32Array; max: Float32Array } {
+  const mono = audioBufferToMono(buffer);
+  const min = new Float32Array(COLUMNS);
+  const max = new Float32Array(COLUMNS);
+  const perColumn = mono.length / COLUMNS;
+  for (let c = 0; c < COLUMNS; c++) {
+    let lo = 0;
+    let hi = 0;
+    for (let i = Math.floor(c * perColumn); i < Math.min(mono.length, Math.floor((c + 1) * perColumn)); i++) {
+      lo = Math.min(lo, mono[i]);
+      hi = Math.max(hi, mono[i]);
+    }
+    min[c] = lo;
+    max[c] = hi;
+  }
+  return { min, max };
+}
+
+export const WaveformRegionSelector: React.FC<WaveformRegionSelectorProps> = ({ buffer, region, onRegionChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // The span being dragged; committed on release so checks don't rerun on every pointer move.
+  const [draft, setDraft] = useState<AudioRegion | null>(null);
+  const dragRef = useRef<{ anchorS: number } | null>(null);
+  const peaks = useMemo(() => waveformPeaks(buffer), [buffer]);
+  const duration = buffer.duration;
+  const shown = draft ?? region ?? { startS: 0, endS: duration };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    canvas.width = COLUMNS;
+    canvas.height = HEIGHT;
+    context.clearRect(0, 0, COLUMNS, HEIGHT);
+    const startX = (shown.startS / duration) * COLUMNS;
+    const endX = (shown.endS / duration) * COLUMNS;
+    context.fillStyle = 'rgba(0, 191, 255, 0.12)';
+    context.fillRect(startX, 0, endX - startX, HEIGHT);
+    for (let c = 0; c < COLUMNS; c++) {
+      context.fillStyle = c >= startX && c <= endX ? '#00BFFF' : '#4b5563';
+      const top = (1 - peaks.max[c]) * HEIGHT / 2;
+      const bottom = (1 - peaks.min[c]) * HEIGHT / 2;
+      context.fillRect(c, top, 1, Math.max(1, bottom - top));
+    }
+    context.fillStyle = '#e5e7eb';
+    context.fillRect(Math.min(startX, COLUMNS - 2), 0, 2, HEIGHT);
+    context.fillRect(Math.max(0, endX - 2), 0, 2, HEIGHT);
+  }, [peaks, shown.startS, shown.endS, duration]);
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, ((event.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const t = timeAt(event);
+    const grab = (HANDLE_GRAB / event.currentTarget.getBoundingClientRect().width) * duration;
+    const current = region ?? { startS: 0, endS: duration };
+    // Grabbing an edge keeps the opposite edge as the anchor.
+    const anchorS = Math.abs(t - current.startS) <= grab ? current.endS
+      : Math.abs(t - current.endS) <= grab ? current.startS
+      : t;
+    dragRef.current = { anchorS };
+    setDraft({ startS: Math.min(anchorS, t), endS: Math.max(anchorS, t) });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeAt(event);
+    setDraft({ startS: Math.min(drag.anchorS, t), endS: Math.max(drag.anchorS, t) });
+  };
+
+  const handlePointerUp = () => {
+    const selected = draft;
+    dragRef.current = null;
+    setDraft(null);
+    // A click or a tiny drag keeps the previous selection.
+    if (!selected || selected.endS - selected.startS < MIN_REGION_S) return;
+    const whole = selected.startS <= 0.05 && selected.endS >= duration - 0.05;
+    onRegionChange(whole ? null : { startS: Math.round(selected.startS * 10) / 10, endS: Math.round(selected.endS * 10) / 10 });
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-20 bg-gray-800 rounded touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        aria-label="Waveform: drag to select the part to analyse"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+        <span>
+          {region || draft
+            ? `Analysing ${formatTime(shown.startS)} – ${formatTime(shown.endS)} (${formatTime(shown.endS - shown.startS)} of ${formatTime(duration)})`
+            : `Analysing the whole recording (${formatTime(duration)}). Drag across the waveform to pick just the speech.`}
+        </span>
+        {region && (
+          <button onClick={() => onRegionChange(null)} disabled={disabled} className="ml-2 text-brand-blue hover:underline disabled:opacity-50">
+            Select all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
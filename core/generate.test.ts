@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { DecodedAudio } from '../services/audioDecoder';
+import { generatePreset } from '.';
+
+const SAMPLE_RATE = 16000;
+
+/** A few seconds of a 120 Hz buzz with pauses, enough for the offline rules to find voiced speech. */
+function voice(): DecodedAudio {
+    const samples = new Float32Array(SAMPLE_RATE * 6);
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        if (t % 2 > 1.5) continue;
+        for (let h = 1; h < 20; h++) samples[i] += 0.1 * Math.sin(2 * Math.PI * 120 * h * t) / h;
+    }
+    return { sampleRate: SAMPLE_RATE, channels: [samples] };
+}
+
+const recording = new Blob(['recording'], { type: 'audio/wav' });
+
+describe('generatePreset', () => {
+    it('analyses offline and builds a file per requested format', async () => {
+        const preset = await generatePreset(recording, voice(), {
+            name: 'Host A',
+            providerId: 'offline',
+            targetMode: 'audiobook',
+            formats: ['equalizer-apo-filters', 'rew-filters'],
+        });
+        expect(preset.result.targetMode).toBe('audiobook');
+        expect(preset.result.eqPreset.length).toBeGreaterThan(0);
+        expect(preset.measurements).not.toBeNull();
+        expect(preset.preflight.checks.map(check => check.id)).toContain('speech');
+        expect(preset.files.map(({ format, fileName }) => [format, fileName])).toEqual([
+            ['equalizer-apo-filters', 'host-a-equalizer-apo-filters.txt'],
+            ['rew-filters', 'host-a-rew-filters.txt'],
+        ]);
+        expect(preset.files[0].content).toContain('Filter 1: ON');
+    });
+
+    it('rejects an unknown provider or format as a config error', async () => {
+        await expect(generatePreset(recording, voice(), { name: 'x', providerId: 'nope' })).rejects.toMatchObject({ kind: 'config' });
+        await expect(generatePreset(recording, voice(), { name: 'x', providerId: 'offline', formats: ['nope'] }))
+            .rejects.toMatchObject({ kind: 'config', message: 'Unknown export format: nope.' });
+    });
+
+    it('reports a missing API key as a config error', async () => {
+        await expect(generatePreset(recording, voice(), { name: 'x', providerId: 'gemini', env: {} })).rejects.toMatchObject({ kind: 'config' });
+    });
+});
@@ -0,0 +1,89 @@
+import type { AudioRegion, EQSetting, GeminiAnalysisResult, TargetModeId, VoiceMeasurements } from '../types';
+import {
+    AnalysisError,
+    getProvider,
+    runAnalysis,
+    type AnalysisProgress,
+    type ProviderConfig,
+    type ProviderEnvironment,
+} from '../services/analysis';
+import { detectSourceSampleRate, type DecodedAudio } from '../services/audioDecoder';
+import { toFileName } from '../services/download';
+import { getExporter, getExporters } from '../services/exporters';
+import { preflightChecks, type PreflightReport } from '../services/preflight';
+import { DEFAULT_TARGET_MODE } from '../services/targetModes';
+
+export interface GenerateOptions {
+    /** Names the preset inside the export files and their file names. */
+    name: string;
+    /** An analysis provider id, e.g. 'gemini', 'openai-compatible' or 'offline'. */
+    providerId: string;
+    /** Provider settings; empty or missing fields fall back to `env`. */
+    config?: ProviderConfig;
+    env?: ProviderEnvironment;
+    targetMode?: TargetModeId;
+    /** Exporter ids to build files for; every registered format when omitted. */
+    formats?: string[];
+    region?: AudioRegion | null;
+    existingPreset?: EQSetting[] | null;
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface GeneratedFile {
+    format: string;
+    fileName: string;
+    mimeType: string;
+    content: string;
+}
+
+export interface GeneratedPreset {
+    name: string;
+    result: GeminiAnalysisResult;
+    measurements: VoiceMeasurements | null;
+    preflight: PreflightReport;
+    files: GeneratedFile[];
+}
+
+/**
+ * Runs the whole analysis on a recording the caller has already decoded, without touching any
+ * browser API, and builds the requested export files. The blob is what the provider is sent when
+ * it is smaller than the compact upload; its `type` is taken as the MIME type. Unknown providers
+ * and formats are 'config' AnalysisErrors; analysis failures are thrown as in runAnalysis.
+ */
+export async function generatePreset(recording: Blob, audio: DecodedAudio, options: GenerateOptions): Promise<GeneratedPreset> {
+    const { name, providerId, config = {}, env, targetMode = DEFAULT_TARGET_MODE, formats, region, existingPreset, signal, onProgress } = options;
+    const provider = getProvider(providerId);
+    if (!provider) {
+        throw new AnalysisError('config', `Unknown analysis provider "${providerId}".`);
+    }
+    const unknownFormats = formats?.filter(id => !getExporter(id)) ?? [];
+    if (unknownFormats.length) {
+        throw new AnalysisError('config', `Unknown export format: ${unknownFormats.join(', ')}.`);
+    }
+    const exporters = formats ? formats.map(id => getExporter(id)!) : getExporters();
+
+    const preflight = preflightChecks(audio.channels, audio.sampleRate, await detectSourceSampleRate(recording));
+    const { result, measurements } = await runAnalysis(recording, recording.type, provider, config, targetMode, {
+        region,
+        existingPreset,
+        signal,
+        onProgress,
+        env,
+        decode: async () => audio,
+    });
+    const context = { name, processingChain: result.processingChain ?? null };
+    return {
+        name,
+        result,
+        measurements,
+        preflight,
+        files: exporters.map(exporter => ({
+            format: exporter.id,
+            // Several formats share an extension, so the format id keeps the names apart.
+            fileName: toFileName(`${name} ${exporter.id}`, exporter.extension),
+            mimeType: exporter.mimeType,
+            content: exporter.build(result.eqPreset, context),
+        })),
+    };
+}
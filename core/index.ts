@@ -0,0 +1,29 @@
+// The platform-independent core: decoding, measurement, analysis and export without React or
+// browser-only APIs, for use from Node (see cli/) as well as the app.
+export { generatePreset, type GeneratedFile, type GeneratedPreset, type GenerateOptions } from './generate';
+
+export { decodeWav, decodedDuration, detectSourceSampleRate, sliceDecoded, type DecodedAudio } from '../services/audioDecoder';
+export { encodeFlac, encodeWav } from '../services/audioEncoders';
+export { measureLoudness } from '../services/loudness';
+export { preflightChecks, preflightStatus, type PreflightCheck, type PreflightReport } from '../services/preflight';
+export { measureVoice, summarizeMeasurements } from '../services/voiceAnalysis';
+
+export {
+    AnalysisError,
+    buildEnvironment,
+    defaultProviderId,
+    getProvider,
+    getProviders,
+    registerProvider,
+    resolveProviderConfig,
+    runAnalysis,
+    type AnalysisProvider,
+    type AnalysisRun,
+    type ProviderConfig,
+    type ProviderEnvironment,
+} from '../services/analysis';
+export { getExporter, getExporters, registerExporter, type PresetExporter } from '../services/exporters';
+export { parsePresetFile, type ImportedPreset } from '../services/presetImport';
+export { buildReportHtml, buildReportMarkdown, type SessionReport } from '../services/sessionReport';
+export { encodeShareFragment, type SharedPreset } from '../services/shareLink';
+export { DEFAULT_TARGET_MODE, TARGET_MODES, getTargetMode, isTargetModeId } from '../services/targetModes';
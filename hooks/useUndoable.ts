@@ -0,0 +1,55 @@
+import { useState, useCallback } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Value before a run of transient updates (e.g. a drag), recorded once the run is committed.
+  pending: T | null;
+}
+
+export interface Undoable<T> {
+  value: T;
+  set: (next: T, options?: { transient?: boolean }) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export function useUndoable<T>(initial: T): Undoable<T> {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [], pending: null });
+
+  const set = useCallback((next: T, options?: { transient?: boolean }) => {
+    setHistory(h => options?.transient
+      ? { ...h, present: next, pending: h.pending ?? h.present }
+      : { past: [...h.past, h.pending ?? h.present], present: next, future: [], pending: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      pending: null,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      pending: null,
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,15 @@
+/** Environment variables the providers take their defaults from, by name. */
+export type ProviderEnvironment = Readonly<Record<string, string | undefined>>;
+
+/**
+ * The variables baked into the browser build. Vite replaces each whole `process.env.NAME`
+ * expression (see vite.config.ts), so they are spelled out one by one; outside a Vite build they
+ * read the real environment.
+ */
+export const buildEnvironment = (): ProviderEnvironment => ({
+    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    GEMINI_MODEL: process.env.GEMINI_MODEL,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    OPENAI_MODEL: process.env.OPENAI_MODEL,
+});
@@ -0,0 +1,45 @@
+export type AnalysisErrorKind = 'auth' | 'quota' | 'safety' | 'malformed' | 'network' | 'config' | 'input' | 'cancelled' | 'unknown';
+
+// Kinds worth another attempt: rate limits and outages pass, and a malformed reply can be re-requested.
+const RETRYABLE: AnalysisErrorKind[] = ['quota', 'network', 'malformed'];
+
+/** An analysis failure with a category the UI can explain; `message` is shown to the user as is. */
+export class AnalysisError extends Error {
+    readonly kind: AnalysisErrorKind;
+
+    constructor(kind: AnalysisErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'AnalysisError';
+        this.kind = kind;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.includes(this.kind);
+    }
+}
+
+export const cancelledError = () => new AnalysisError('cancelled', 'The analysis was cancelled.');
+
+/** Maps an HTTP failure from a model API onto an error category. */
+export function httpError(service: string, status: number, detail = ''): AnalysisError {
+    if (status === 401 || status === 403 || /api[ _-]?key/i.test(detail)) {
+        return new AnalysisError('auth', `${service} rejected the credentials (HTTP ${status}). Check the API key and its permissions.`);
+    }
+    if (status === 429) {
+        return new AnalysisError('quota', `${service} is rate limiting requests or the quota is used up (HTTP 429).`);
+    }
+    if (status === 408 || status >= 500) {
+        return new AnalysisError('network', `${service} is unavailable right now (HTTP ${status}).`);
+    }
+    return new AnalysisError('unknown', `${service} returned HTTP ${status}. Please check the console for more details.`);
+}
+
+/** Wraps anything thrown during a request; fetch reports connection failures as a TypeError. */
+export function toAnalysisError(error: unknown): AnalysisError {
+    if (error instanceof AnalysisError) return error;
+    if (error instanceof DOMException && error.name === 'AbortError') return cancelledError();
+    if (error instanceof TypeError) {
+        return new AnalysisError('network', 'Could not reach the analysis service. Check your connection.', { cause: error });
+    }
+    return new AnalysisError('unknown', 'The analysis failed unexpectedly. Please check the console for more details.', { cause: error });
+}
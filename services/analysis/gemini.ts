@@ -0,0 +1,168 @@
+import { ApiError, FileState, GoogleGenAI, createPartFromUri, type Part } from "@google/genai";
+import { blobToBase64 } from '../base64';
+import { summarizeMeasurements } from '../voiceAnalysis';
+import { AnalysisError, httpError } from './errors';
+import { REFINEMENT_SCHEMA, RESULT_SCHEMA, existingPresetPrompt, measurementsPrompt, refinementInstruction, refinementPrompt, systemInstruction } from './prompt';
+import type { AnalysisInput, AnalysisProvider } from './registry';
+import { requestValidated } from './retry';
+import { parseAnalysisResult, parseRefinementResult } from './validation';
+
+const DEFAULT_MODEL = 'gemini-2.5-pro';
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+// Inline requests are capped at 20 MB and base64 adds a third; larger audio goes through the Files API.
+const INLINE_LIMIT_BYTES = 14 * 1024 * 1024;
+const FILE_POLL_MS = 1000;
+
+const safetyError = () =>
+    new AnalysisError('safety', "The audio could not be processed due to safety settings. Please try a different audio sample.");
+
+const apiError = (error: unknown) => {
+    if (error instanceof ApiError) {
+        if (error.message.includes('SAFETY')) return safetyError();
+        return httpError('Gemini', error.status, error.message);
+    }
+    return error;
+};
+
+const createClient = (apiKey: string) => {
+    if (!apiKey) {
+        throw new AnalysisError('config', "No Gemini API key is set. Enter one in the analysis settings or set GEMINI_API_KEY.");
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+interface JsonRequest extends Pick<AnalysisInput, 'signal' | 'onProgress'> {
+    model: string;
+    parts: Part[];
+    systemInstruction: string;
+    schema: object;
+}
+
+/**
+ * Streams a JSON reply so its progress can be shown while the model is still writing it.
+ * API failures and safety blocks are thrown as AnalysisErrors.
+ */
+async function generateJson(ai: GoogleGenAI, { model, parts, systemInstruction, schema, signal, onProgress }: JsonRequest): Promise<string> {
+    onProgress?.({ stage: 'uploading' });
+    let text = '';
+    try {
+        const stream = await ai.models.generateContentStream({
+            model,
+            contents: { parts },
+            config: {
+              systemInstruction,
+              responseMimeType: 'application/json',
+              responseJsonSchema: schema,
+              // Keep repeated runs on the same file as close as possible.
+              temperature: 0,
+              abortSignal: signal,
+            }
+        });
+        onProgress?.({ stage: 'generating', receivedChars: 0 });
+        for await (const chunk of stream) {
+            const blockReason = chunk.promptFeedback?.blockReason;
+            const finishReason = chunk.candidates?.[0]?.finishReason;
+            if ((blockReason && SAFETY_REASONS.includes(blockReason)) || (finishReason && SAFETY_REASONS.includes(finishReason))) {
+                throw safetyError();
+            }
+            text += chunk.text ?? '';
+            onProgress?.({ stage: 'generating', receivedChars: text.length });
+        }
+    } catch (error) {
+        throw apiError(error);
+    }
+
+    if (!text) {
+        throw new AnalysisError('malformed', 'Gemini returned an empty response.');
+    }
+    return text;
+}
+
+/** Uploads the audio through the Files API and waits until Gemini has finished processing it. */
+async function uploadAudio(ai: GoogleGenAI, audio: Blob, mimeType: string, signal?: AbortSignal) {
+    let file = await ai.files.upload({ file: audio, config: { mimeType, abortSignal: signal } });
+    while (file.state === FileState.PROCESSING) {
+        await new Promise(resolve => setTimeout(resolve, FILE_POLL_MS));
+        signal?.throwIfAborted();
+        file = await ai.files.get({ name: file.name!, config: { abortSignal: signal } });
+    }
+    if (file.state === FileState.FAILED || !file.uri) {
+        throw new AnalysisError('input', "Gemini could not process the uploaded audio file. Try a different recording or format.");
+    }
+    return file;
+}
+
+export const geminiProvider: AnalysisProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Sends the recording and its measurements to the Gemini API, which listens to the voice.',
+    fields: [
+        { key: 'apiKey', label: 'API key', kind: 'secret', placeholder: 'GEMINI_API_KEY' },
+        { key: 'model', label: 'Model', kind: 'text', placeholder: DEFAULT_MODEL },
+    ],
+    defaults: env => ({ apiKey: env.GEMINI_API_KEY ?? '', model: env.GEMINI_MODEL || DEFAULT_MODEL }),
+    analyze: async ({ audio, mimeType, measurements, targetMode, existingPreset, signal, onProgress }, { apiKey, model }) => {
+        const ai = createClient(apiKey);
+        onProgress?.({ stage: 'uploading' });
+        let uploadedName: string | undefined;
+        let audioPart: Part;
+        if (audio.size > INLINE_LIMIT_BYTES) {
+            try {
+                const file = await uploadAudio(ai, audio, mimeType, signal);
+                uploadedName = file.name;
+                audioPart = createPartFromUri(file.uri!, file.mimeType ?? mimeType);
+            } catch (error) {
+                throw apiError(error);
+            }
+        } else {
+            audioPart = { inlineData: { data: await blobToBase64(audio), mimeType } };
+        }
+
+        return requestValidated(text => parseAnalysisResult(text, targetMode), correction => {
+            const parts: Part[] = [audioPart];
+            if (measurements) {
+                parts.push({ text: measurementsPrompt(summarizeMeasurements(measurements)) });
+            }
+            if (existingPreset?.length) {
+                parts.push({ text: existingPresetPrompt(existingPreset) });
+            }
+            if (correction) {
+                parts.push({ text: correction });
+            }
+            return generateJson(ai, {
+                model,
+                parts,
+                systemInstruction: systemInstruction(targetMode),
+                schema: RESULT_SCHEMA,
+                signal,
+                onProgress,
+            });
+        }, { signal, onProgress }).finally(() => {
+            // Uploaded files expire after two days anyway; deleting is a courtesy, so failures are only logged.
+            if (uploadedName) {
+                ai.files.delete({ name: uploadedName }).catch(err => console.warn("Could not delete the uploaded audio:", err));
+            }
+        });
+    },
+    refine: async ({ current, feedback, measurements, targetMode, signal, onProgress }, { apiKey, model }) => {
+        const ai = createClient(apiKey);
+        return requestValidated(text => parseRefinementResult(text, targetMode), correction => {
+            const parts: Part[] = [];
+            if (measurements) {
+                parts.push({ text: measurementsPrompt(summarizeMeasurements(measurements)) });
+            }
+            parts.push({ text: refinementPrompt(current, feedback) });
+            if (correction) {
+                parts.push({ text: correction });
+            }
+            return generateJson(ai, {
+                model,
+                parts,
+                systemInstruction: refinementInstruction(targetMode),
+                schema: REFINEMENT_SCHEMA,
+                signal,
+                onProgress,
+            });
+        }, { signal, onProgress });
+    },
+};
@@ -0,0 +1,34 @@
+import { buildEnvironment, type ProviderEnvironment } from './environment';
+import { geminiProvider } from './gemini';
+import { offlineProvider } from './offline';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { registerProvider } from './registry';
+
+export { getProvider, getProviders, registerProvider } from './registry';
+export type {
+    AnalysisInput,
+    AnalysisProgress,
+    AnalysisProvider,
+    AnalysisStage,
+    ProviderConfig,
+    ProviderField,
+    RefinementInput,
+    RefinementResult,
+} from './registry';
+export { AnalysisError, toAnalysisError, type AnalysisErrorKind } from './errors';
+export { buildEnvironment, type ProviderEnvironment } from './environment';
+export { ANALYSIS_STAGES, runAnalysis, runRefinement, type AnalysisRun } from './pipeline';
+export { MAX_PRESET_GAIN_DB, parseAnalysisResult, sanitizeAnalysisResult, sanitizeBands, sanitizeChain } from './validation';
+export {
+    loadProviderConfig,
+    loadSelectedProviderId,
+    resolveProviderConfig,
+    saveProviderConfig,
+    saveSelectedProviderId,
+} from './preferences';
+
+[geminiProvider, openAiCompatibleProvider, offlineProvider].forEach(registerProvider);
+
+/** Gemini when the environment has a key for it, otherwise the offline rules so the app works out of the box. */
+export const defaultProviderId = (env: ProviderEnvironment = buildEnvironment()) =>
+    env.GEMINI_API_KEY ? geminiProvider.id : offlineProvider.id;
@@ -0,0 +1,372 @@
+import type { EQSetting, GeminiAnalysisResult, ProcessingChain, SpectrumPoint, TargetModeId, VoiceMeasurements } from '../../types';
+import { defaultQ, eqResponseDb } from '../eqFilters';
+import { targetLevelAt, type TargetMode } from '../targetModes';
+import { AnalysisError } from './errors';
+import type { AnalysisProvider, RefinementResult } from './registry';
+import { sanitizeAnalysisResult, sanitizeRefinementResult } from './validation';
+
+// Tolerances around the target mode's curve before a band is added.
+const MUD_MARGIN_DB = 1;
+const THIN_MARGIN_DB = -5;
+// Third-octave level of 2–4 kHz relative to 500 Hz–1 kHz, compared with the same span of the target.
+const PRESENCE_DULL_DB = -7;
+const PRESENCE_SOFT_DB = -3;
+const PRESENCE_HARSH_DB = 3;
+// Absolute thresholds against typical close-miked speech.
+const SIBILANT_THRESHOLD_DB = -12;
+const DARK_SIBILANCE_DB = -26;
+const DARK_CENTROID_HZ = 1500;
+const NOISY_FLOOR_DBFS = -50;
+// A gate only helps when speech stands well clear of a noise floor that is audible at all.
+const GATE_MIN_GAP_DB = 20;
+const GATE_AUDIBLE_FLOOR_DBFS = -75;
+// An existing preset is flagged where it moves a region this far while the voice is this far off the target.
+const REVIEW_MOVE_DB = 1.5;
+const REVIEW_OFF_TARGET_DB = 2;
+// A move in the right direction is flagged when it overshoots what the voice needs by this much.
+const REVIEW_OVERSHOOT_DB = 4;
+const COMPRESSION_RATIO: Record<TargetModeId, number> = {
+    podcast: 3,
+    audiobook: 2,
+    broadcast: 4,
+    streaming: 3,
+    conferencing: 2.5,
+    singing: 2,
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const bandKey = (band: SpectrumPoint) => `thirdOctaveBandsDb.${Math.round(band.frequency)}`;
+
+const bandsIn = (bands: SpectrumPoint[], low: number, high: number) =>
+    bands.filter(b => b.frequency >= low && b.frequency <= high);
+
+const meanLevel = (bands: SpectrumPoint[]) => bands.reduce((sum, b) => sum + b.level, 0) / bands.length;
+
+const meanTarget = (mode: TargetMode, bands: SpectrumPoint[]) =>
+    bands.reduce((sum, b) => sum + targetLevelAt(mode, b.frequency), 0) / bands.length;
+
+const loudest = (bands: SpectrumPoint[]) => bands.reduce((a, b) => b.level > a.level ? b : a);
+
+/** Combined level of a set of bands, in dBFS. */
+const totalLevel = (bands: SpectrumPoint[]) => 10 * Math.log10(bands.reduce((sum, b) => sum + 10 ** (b.level / 10), 0));
+
+/**
+ * Gate between the noise floor and the speech, a de-esser when the voice is sibilant, gentle
+ * compression a few dB under the average voiced level, and a limiter at the mode's ceiling.
+ */
+function heuristicChain(measurements: VoiceMeasurements, mode: TargetMode, sibilant: SpectrumPoint | null): ProcessingChain {
+    const { thirdOctaveBands: bands, noiseFloorDb } = measurements;
+    const speechDb = totalLevel(bands);
+    const chain: ProcessingChain = {};
+    if (noiseFloorDb > GATE_AUDIBLE_FLOOR_DBFS && speechDb - noiseFloorDb >= GATE_MIN_GAP_DB) {
+        chain.gate = {
+            thresholdDb: Math.round(noiseFloorDb + (speechDb - noiseFloorDb) / 3),
+            rationale: `Closes between phrases to keep the ${Math.round(noiseFloorDb)} dBFS background noise down without touching speech.`,
+        };
+    }
+    if (sibilant) {
+        chain.deEsser = {
+            frequency: Math.round(sibilant.frequency),
+            thresholdDb: Math.round(totalLevel(bandsIn(bands, 4000, 20000)) - 3),
+            rationale: 'Pulls down the loudest "s" and "sh" sounds only, instead of dulling the whole top end.',
+        };
+    }
+    chain.compressor = {
+        thresholdDb: Math.round(speechDb - 6),
+        ratio: COMPRESSION_RATIO[mode.id],
+        attackMs: 10,
+        releaseMs: 120,
+        rationale: 'Evens out level differences between words and phrases so quiet passages stay audible.',
+    };
+    chain.limiter = {
+        ceilingDb: mode.limiterCeilingDb,
+        rationale: `Catches the remaining peaks below ${mode.limiterCeilingDb} dBFS.`,
+    };
+    return chain;
+}
+
+/**
+ * Rule-based profile, preset and processing chain built from the local measurements alone. Tonal
+ * balance is judged against the target mode's curve; limits are applied afterwards by the result sanitiser.
+ */
+export function heuristicAnalysis(measurements: VoiceMeasurements, mode: TargetMode): GeminiAnalysisResult {
+    const { thirdOctaveBands: bands, f0Median, f0Low, f0High, spectralCentroid, sibilanceRatioDb, lowMidBuildupDb, noiseFloorDb } = measurements;
+    if (bands.length === 0) {
+        throw new AnalysisError('input', "No voiced speech was detected, so no preset could be built from the measurements.");
+    }
+    const eqPreset: EQSetting[] = [];
+    const characteristics: string[] = [];
+
+    const [minHighPass, maxHighPass] = mode.highPassHz;
+    const highPass = f0Low != null
+        ? clamp(Math.round(f0Low * 0.75 / 5) * 5, minHighPass, maxHighPass)
+        : Math.round((minHighPass + maxHighPass) / 10) * 5;
+    eqPreset.push({
+        type: 'highPass',
+        frequency: highPass,
+        gain: 0,
+        q: defaultQ('highPass'),
+        rationale: f0Low != null
+            ? `Removes rumble and handling noise below the voice's lowest regular pitch of about ${Math.round(f0Low)} Hz.`
+            : 'Removes rumble and handling noise below the speaking range.',
+        evidence: f0Low != null ? ['f0RangeHz'] : [],
+    });
+
+    const lowMids = bandsIn(bands, 200, 500);
+    const upperMids = bandsIn(bands, 500, 2000);
+    const targetLowMid = lowMids.length && upperMids.length ? meanTarget(mode, lowMids) - meanTarget(mode, upperMids) : 0;
+    if (lowMidBuildupDb != null && lowMidBuildupDb - targetLowMid > MUD_MARGIN_DB && lowMids.length) {
+        const centre = loudest(lowMids);
+        eqPreset.push({
+            type: 'peak',
+            frequency: Math.round(centre.frequency),
+            gain: -clamp(round1(lowMidBuildupDb - targetLowMid), 1.5, 6),
+            q: 1.4,
+            rationale: 'Cuts low-mid buildup that makes the voice sound muddy or boxy.',
+            evidence: ['lowMidBuildupDb', bandKey(centre)],
+        });
+        characteristics.push('Low-mid buildup (muddy)');
+    } else if (lowMidBuildupDb != null && lowMidBuildupDb - targetLowMid < THIN_MARGIN_DB) {
+        eqPreset.push({
+            type: 'lowShelf',
+            frequency: 200,
+            gain: 2,
+            q: defaultQ('lowShelf'),
+            rationale: 'Adds body to a voice that is light in the low mids.',
+            evidence: ['lowMidBuildupDb'],
+        });
+        characteristics.push('Thin low mids');
+    }
+
+    const presenceBands = bandsIn(bands, 2000, 4000);
+    const midBands = bandsIn(bands, 500, 1000);
+    if (presenceBands.length && midBands.length) {
+        const presence = (meanLevel(presenceBands) - meanLevel(midBands))
+            - (meanTarget(mode, presenceBands) - meanTarget(mode, midBands));
+        const evidence = [...midBands, ...presenceBands].map(bandKey);
+        if (presence < PRESENCE_SOFT_DB) {
+            eqPreset.push({
+                type: 'peak',
+                frequency: 3150,
+                gain: presence < PRESENCE_DULL_DB ? 3 : 1.5,
+                q: 1,
+                rationale: 'Lifts the presence region so speech cuts through and stays intelligible.',
+                evidence,
+            });
+            characteristics.push(presence < PRESENCE_DULL_DB ? 'Lacks presence' : 'Slightly soft presence');
+        } else if (presence > PRESENCE_HARSH_DB) {
+            const centre = loudest(presenceBands);
+            eqPreset.push({
+                type: 'peak',
+                frequency: Math.round(centre.frequency),
+                gain: -2,
+                q: 2,
+                rationale: 'Tames a forward upper-mid region that can sound harsh.',
+                evidence,
+            });
+            characteristics.push('Forward, possibly harsh upper mids');
+        }
+    }
+
+    const sibilantBands = bandsIn(bands, 5000, 10000);
+    let sibilantCentre: SpectrumPoint | null = null;
+    if (sibilanceRatioDb != null && sibilanceRatioDb > SIBILANT_THRESHOLD_DB && sibilantBands.length) {
+        const centre = loudest(sibilantBands);
+        sibilantCentre = centre;
+        eqPreset.push({
+            type: 'peak',
+            frequency: Math.round(centre.frequency),
+            gain: -clamp(round1(sibilanceRatioDb - SIBILANT_THRESHOLD_DB + 2), 2, 6),
+            q: 4,
+            rationale: 'Softens strong sibilance at its loudest band.',
+            evidence: ['sibilanceRatioDb', bandKey(centre)],
+        });
+        characteristics.push('Sibilant');
+    } else if (
+        sibilanceRatioDb != null && sibilanceRatioDb < DARK_SIBILANCE_DB
+        && spectralCentroid != null && spectralCentroid < DARK_CENTROID_HZ
+    ) {
+        eqPreset.push({
+            type: 'highShelf',
+            frequency: 8000,
+            gain: 2.5,
+            q: defaultQ('highShelf'),
+            rationale: 'Adds air to a dark recording with little high-frequency energy.',
+            evidence: ['sibilanceRatioDb', 'spectralCentroidHz'],
+        });
+        characteristics.push('Dark top end');
+    }
+
+    if (noiseFloorDb > NOISY_FLOOR_DBFS) {
+        characteristics.push('Audible background noise (EQ cannot remove it)');
+    }
+
+    const pitch = f0Median == null ? null
+        : f0Median < 110 ? 'deep'
+        : f0Median < 165 ? 'mid-range'
+        : f0Median < 255 ? 'higher'
+        : 'high';
+    const tone = spectralCentroid == null ? 'balanced'
+        : spectralCentroid < 1200 ? 'warm, dark'
+        : spectralCentroid > 2500 ? 'bright'
+        : 'balanced';
+    const description = [
+        pitch
+            ? `A ${pitch} voice with a median pitch of ${Math.round(f0Median!)} Hz and a ${tone} tone.`
+            : `A voice with a ${tone} tone; no stable pitch was detected.`,
+        characteristics.length
+            ? `Measured traits: ${characteristics.map(c => c.toLowerCase()).join('; ')}.`
+            : 'No strong tonal problems were measured, so the preset stays gentle.',
+        `This profile was built for ${mode.label.toLowerCase()} from local measurements by fixed rules, without listening to the recording.`,
+    ].join(' ');
+
+    return {
+        vocalProfile: {
+            description,
+            fundamentalRange: f0Low != null && f0High != null ? `${Math.round(f0Low)}Hz - ${Math.round(f0High)}Hz` : 'Not detected',
+            keyCharacteristics: [`${tone[0].toUpperCase()}${tone.slice(1)} tone`, ...characteristics],
+        },
+        eqPreset,
+        targetMode: mode.id,
+        processingChain: heuristicChain(measurements, mode, sibilantCentre),
+    };
+}
+
+const REVIEW_REGIONS = [
+    { name: 'low end (80–200 Hz)', low: 80, high: 200 },
+    { name: 'low mids (200–500 Hz)', low: 200, high: 500 },
+    { name: 'presence range (2–5 kHz)', low: 2000, high: 5000 },
+    { name: 'sibilance range (5–10 kHz)', low: 5000, high: 10000 },
+    { name: 'air (10–16 kHz)', low: 10000, high: 16000 },
+];
+
+/**
+ * Compares an existing preset with the measured voice, region by region relative to 500 Hz–2 kHz:
+ * a note for each region the preset pushes further from the target mode's balance or well past it,
+ * and for a high-pass above the voice's lowest pitch. Empty when nothing conflicts.
+ */
+export function reviewExistingPreset(settings: EQSetting[], measurements: VoiceMeasurements, mode: TargetMode): string[] {
+    const { thirdOctaveBands: bands, f0Low } = measurements;
+    const reference = bandsIn(bands, 500, 2000);
+    if (reference.length === 0) return [];
+    const meanResponse = (region: SpectrumPoint[]) =>
+        region.reduce((sum, b) => sum + eqResponseDb(settings, b.frequency), 0) / region.length;
+    const target = `the target for ${mode.label.toLowerCase()}`;
+
+    const notes: string[] = [];
+    for (const { name, low, high } of REVIEW_REGIONS) {
+        const region = bandsIn(bands, low, high);
+        if (region.length === 0) continue;
+        const offTarget = (meanLevel(region) - meanLevel(reference)) - (meanTarget(mode, region) - meanTarget(mode, reference));
+        const move = meanResponse(region) - meanResponse(reference);
+        if (Math.abs(move) < REVIEW_MOVE_DB) continue;
+        const action = `${move > 0 ? 'Boosts' : 'Cuts'} the ${name} by about ${Math.abs(move).toFixed(0)} dB`;
+        if (Math.sign(move) === Math.sign(offTarget) && Math.abs(offTarget) >= REVIEW_OFF_TARGET_DB) {
+            notes.push(`${action}, but the voice already measures ${Math.abs(offTarget).toFixed(0)} dB ${offTarget > 0 ? 'above' : 'below'} ${target} there.`);
+        } else if (Math.sign(move) !== Math.sign(offTarget) && Math.abs(move) - Math.abs(offTarget) >= REVIEW_OVERSHOOT_DB) {
+            notes.push(`${action}, well past the ${Math.abs(offTarget).toFixed(0)} dB the voice is ${offTarget > 0 ? 'above' : 'below'} ${target} there.`);
+        }
+    }
+    const highPass = settings.find(band => band.type === 'highPass');
+    if (highPass && f0Low != null && highPass.frequency > f0Low) {
+        notes.push(`Its ${Math.round(highPass.frequency)} Hz high-pass sits above the voice's lowest regular pitch of about ${Math.round(f0Low)} Hz, so it thins the voice itself.`);
+    }
+    return notes;
+}
+
+interface Descriptor {
+    words: RegExp;
+    /** Name of the quality in the explanation, e.g. 'boom'. */
+    quality: string;
+    band: Pick<EQSetting, 'type' | 'frequency' | 'q'>;
+    /** Direction of gain that adds the quality. */
+    sign: 1 | -1;
+    /** Whether the word names a fault, so on its own ("boomy") it asks for less. */
+    fault: boolean;
+}
+
+const DESCRIPTORS: Descriptor[] = [
+    { words: /\b(boom\w*|bass\w*|rumbl\w*)\b/, quality: 'low end', band: { type: 'peak', frequency: 125, q: 1 }, sign: 1, fault: true },
+    { words: /\b(mud\w*|box\w*|cloud\w*)\b/, quality: 'muddiness', band: { type: 'peak', frequency: 300, q: 1.4 }, sign: 1, fault: true },
+    { words: /\b(warm\w*|body|full\w*)\b/, quality: 'warmth', band: { type: 'lowShelf', frequency: 200, q: defaultQ('lowShelf') }, sign: 1, fault: false },
+    { words: /\bthin\w*\b/, quality: 'thinness', band: { type: 'lowShelf', frequency: 200, q: defaultQ('lowShelf') }, sign: -1, fault: true },
+    { words: /\b(nasal\w*|honk\w*)\b/, quality: 'nasality', band: { type: 'peak', frequency: 1000, q: 2 }, sign: 1, fault: true },
+    { words: /\b(presen\w*|clar\w*|clear\w*|intelligib\w*)\b/, quality: 'presence', band: { type: 'peak', frequency: 3150, q: 1 }, sign: 1, fault: false },
+    { words: /\b(muffl\w*|dull\w*)\b/, quality: 'dullness', band: { type: 'peak', frequency: 3150, q: 1 }, sign: -1, fault: true },
+    { words: /\b(harsh\w*|shrill\w*|pierc\w*|edg\w*)\b/, quality: 'harshness', band: { type: 'peak', frequency: 3500, q: 2 }, sign: 1, fault: true },
+    { words: /\b(sibil\w*|ess\w*|s sounds?)\b/, quality: 'sibilance', band: { type: 'peak', frequency: 7000, q: 4 }, sign: 1, fault: true },
+    { words: /\b(air\w*|bright\w*|sparkl\w*|crisp\w*)\b/, quality: 'air', band: { type: 'highShelf', frequency: 10000, q: defaultQ('highShelf') }, sign: 1, fault: false },
+    { words: /\bdark\w*\b/, quality: 'darkness', band: { type: 'highShelf', frequency: 10000, q: defaultQ('highShelf') }, sign: -1, fault: true },
+];
+
+const LESS = /\b(less|reduce\w*|lower|cut|tame|too|not so|fewer|remove)\b/;
+const MORE = /\b(more|add|boost|increase|extra|raise|need\w*|not enough|lack\w*|missing)\b/;
+const SMALL = /\b(slight\w*|little|bit|touch|tad)\b/;
+const LARGE = /\b(much|lot|way|very|really|significant\w*)\b/;
+// An existing band this close to a descriptor's frequency is adjusted instead of adding another.
+const ADJUST_WITHIN_OCTAVES = 2 / 3;
+
+const formatFrequency = (hz: number) => hz >= 1000 ? `${hz / 1000} kHz` : `${hz} Hz`;
+
+/**
+ * Applies plain-language feedback with a fixed vocabulary: each clause ("less boomy", "a bit more
+ * air") moves one frequency region by 1–3 dB, adjusting the nearest band of the same type or adding one.
+ */
+export function heuristicRefinement(current: GeminiAnalysisResult, feedback: string, mode: TargetMode): RefinementResult {
+    const eqPreset = current.eqPreset.map(band => ({ ...band }));
+    const changes: string[] = [];
+    for (const clause of feedback.toLowerCase().split(/[,;.!?]|\band\b|\bbut\b/)) {
+        const descriptor = DESCRIPTORS.find(d => d.words.test(clause));
+        if (!descriptor) continue;
+        const wanted = LESS.test(clause) ? -1 : MORE.test(clause) ? 1 : descriptor.fault ? -1 : 1;
+        const amount = SMALL.test(clause) ? 1 : LARGE.test(clause) ? 3 : 2;
+        const delta = wanted * descriptor.sign * amount;
+        const { type, frequency, q } = descriptor.band;
+
+        const nearest = eqPreset
+            .filter(b => b.type === type && Math.abs(Math.log2(b.frequency / frequency)) <= ADJUST_WITHIN_OCTAVES)
+            .sort((a, b) => Math.abs(Math.log2(a.frequency / frequency)) - Math.abs(Math.log2(b.frequency / frequency)))[0];
+        const direction = `${wanted < 0 ? 'less' : 'more'} ${descriptor.quality}`;
+        if (nearest) {
+            nearest.gain = round1(nearest.gain + delta);
+            nearest.rationale = `Adjusted by ${delta > 0 ? '+' : ''}${delta} dB for ${direction}.`;
+            changes.push(`${delta > 0 ? 'Raised' : 'Lowered'} the band at ${formatFrequency(Math.round(nearest.frequency))} by ${amount} dB for ${direction}.`);
+        } else {
+            eqPreset.push({ type, frequency, gain: delta, q, rationale: `Added for ${direction}.`, evidence: [] });
+            changes.push(`Added a ${delta > 0 ? 'boost' : 'cut'} of ${amount} dB at ${formatFrequency(frequency)} for ${direction}.`);
+        }
+    }
+    if (changes.length === 0) {
+        throw new AnalysisError(
+            'input',
+            `The offline rules found nothing they know how to change in "${feedback}". Try words such as boomy, muddy, warm, thin, nasal, presence, harsh, sibilant, air or dark.`,
+        );
+    }
+    return sanitizeRefinementResult({
+        ...current,
+        eqPreset,
+        explanation: `${changes.join(' ')} Other bands are unchanged.`,
+    }, mode).result;
+}
+
+export const offlineProvider: AnalysisProvider = {
+    id: 'offline',
+    label: 'Offline rules (no network)',
+    description: 'Builds the profile and preset in the browser from the local measurements. Nothing leaves this device.',
+    fields: [],
+    defaults: () => ({}),
+    analyze: async ({ measurements, targetMode, onProgress }) => {
+        if (!measurements) {
+            throw new AnalysisError('input', "The offline analysis needs local measurements, but the browser could not decode this audio file.");
+        }
+        onProgress?.({ stage: 'generating' });
+        const result = heuristicAnalysis(measurements, targetMode);
+        onProgress?.({ stage: 'validating' });
+        return sanitizeAnalysisResult(result, targetMode).result;
+    },
+    refine: async ({ current, feedback, targetMode, onProgress }) => {
+        onProgress?.({ stage: 'generating' });
+        return heuristicRefinement(current, feedback, targetMode);
+    },
+};
@@ -0,0 +1,178 @@
+import { blobToBase64 } from '../base64';
+import { summarizeMeasurements } from '../voiceAnalysis';
+import { AnalysisError, httpError } from './errors';
+import { baseMimeType } from './payload';
+import { REFINEMENT_SCHEMA, RESULT_SCHEMA, existingPresetPrompt, measurementsPrompt, refinementInstruction, refinementPrompt, systemInstruction } from './prompt';
+import type { AnalysisInput, AnalysisProvider, ProviderConfig } from './registry';
+import { requestValidated } from './retry';
+import { parseAnalysisResult, parseRefinementResult } from './validation';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Chat Completions only takes audio as WAV or MP3.
+const AUDIO_FORMATS: Record<string, string> = {
+    'audio/wav': 'wav',
+    'audio/wave': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+};
+
+/** Concatenates the content deltas of a Chat Completions server-sent event stream. */
+async function readEventStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let text = '';
+    let pending = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        pending += value ?? '';
+        const lines = done ? [pending] : pending.split('\n');
+        pending = done ? '' : lines.pop()!;
+        for (const line of lines) {
+            const data = line.trim().match(/^data:\s*(.*)$/)?.[1];
+            if (!data || data === '[DONE]') continue;
+            try {
+                text += JSON.parse(data)?.choices?.[0]?.delta?.content ?? '';
+            } catch {
+                throw new AnalysisError('malformed', 'The server sent an unreadable streaming response.');
+            }
+            onText(text);
+        }
+        if (done) return text;
+    }
+}
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+interface ChatMessage {
+    role: 'system' | 'user';
+    content: string | ContentPart[];
+}
+
+const requireModel = (model: string) => {
+    if (!model) {
+        throw new AnalysisError('config', "No model is set for the OpenAI-compatible server. Enter one in the analysis settings.");
+    }
+};
+
+/**
+ * Requests a reply constrained to `schema`, streamed when the server supports it. Connection
+ * failures and HTTP errors are thrown as AnalysisErrors.
+ */
+async function requestCompletion(
+    { baseUrl, apiKey, model }: ProviderConfig,
+    messages: ChatMessage[],
+    schema: { name: string; schema: object },
+    { signal, onProgress }: Pick<AnalysisInput, 'signal' | 'onProgress'>,
+): Promise<string> {
+    onProgress?.({ stage: 'uploading' });
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                temperature: 0,
+                stream: true,
+                messages,
+                response_format: { type: 'json_schema', json_schema: schema },
+            }),
+            signal,
+        });
+    } catch (error) {
+        throw new AnalysisError(
+            'network',
+            `Could not reach ${baseUrl}. Check that the server is running and allows requests from this page (CORS).`,
+            { cause: error },
+        );
+    }
+
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        console.error("OpenAI-compatible server error:", response.status, detail);
+        throw httpError('The server', response.status, detail);
+    }
+    onProgress?.({ stage: 'generating', receivedChars: 0 });
+    let text: string | undefined;
+    // Servers that don't support streaming answer with a single JSON body instead.
+    if (response.headers.get('content-type')?.includes('text/event-stream') && response.body) {
+        text = await readEventStream(response.body, received => onProgress?.({ stage: 'generating', receivedChars: received.length }));
+    } else {
+        const data = await response.json().catch(() => null);
+        text = data?.choices?.[0]?.message?.content;
+    }
+    if (!text) {
+        throw new AnalysisError('malformed', 'The server returned an empty response.');
+    }
+    return text;
+}
+
+/**
+ * Any server that speaks the OpenAI Chat Completions API: OpenAI itself, or a local Ollama,
+ * llama.cpp or LM Studio server. Most local models are text-only, so audio is opt-in and the
+ * analysis otherwise rests on the local measurements.
+ */
+export const openAiCompatibleProvider: AnalysisProvider = {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    description: 'Sends the measurements, and optionally WAV/MP3 audio, to a Chat Completions endpoint such as a local Ollama or LM Studio server.',
+    fields: [
+        { key: 'baseUrl', label: 'Base URL', kind: 'text', placeholder: DEFAULT_BASE_URL },
+        { key: 'apiKey', label: 'API key (optional)', kind: 'secret' },
+        { key: 'model', label: 'Model', kind: 'text', placeholder: 'llama3.1' },
+        { key: 'sendAudio', label: 'Send audio (model must accept input_audio)', kind: 'checkbox' },
+    ],
+    defaults: env => ({
+        baseUrl: env.OPENAI_BASE_URL || DEFAULT_BASE_URL,
+        apiKey: env.OPENAI_API_KEY ?? '',
+        model: env.OPENAI_MODEL ?? '',
+        sendAudio: '',
+    }),
+    audioMimeTypes: Object.keys(AUDIO_FORMATS),
+    analyze: async ({ audio, mimeType, measurements, targetMode, existingPreset, signal, onProgress }, config) => {
+        requireModel(config.model);
+        const audioFormat = config.sendAudio ? AUDIO_FORMATS[baseMimeType(mimeType)] : undefined;
+        if (!audioFormat && !measurements) {
+            throw new AnalysisError('input', "The recording could not be measured locally and no audio can be sent, so there is nothing to analyze.");
+        }
+
+        const content: ContentPart[] = [];
+        if (audioFormat) {
+            content.push({ type: 'input_audio', input_audio: { data: await blobToBase64(audio), format: audioFormat } });
+        } else {
+            content.push({ type: 'text', text: 'No audio is attached. Base the analysis on the measured spectral data alone.' });
+        }
+        if (measurements) {
+            content.push({ type: 'text', text: measurementsPrompt(summarizeMeasurements(measurements)) });
+        }
+        if (existingPreset?.length) {
+            content.push({ type: 'text', text: existingPresetPrompt(existingPreset) });
+        }
+
+        return requestValidated(text => parseAnalysisResult(text, targetMode), correction => requestCompletion(config, [
+            { role: 'system', content: systemInstruction(targetMode) },
+            { role: 'user', content },
+            ...(correction ? [{ role: 'user' as const, content: correction }] : []),
+        ], { name: 'vocal_eq_analysis', schema: RESULT_SCHEMA }, { signal, onProgress }), { signal, onProgress });
+    },
+    refine: async ({ current, feedback, measurements, targetMode, signal, onProgress }, config) => {
+        requireModel(config.model);
+        const content: ContentPart[] = [];
+        if (measurements) {
+            content.push({ type: 'text', text: measurementsPrompt(summarizeMeasurements(measurements)) });
+        }
+        content.push({ type: 'text', text: refinementPrompt(current, feedback) });
+
+        return requestValidated(text => parseRefinementResult(text, targetMode), correction => requestCompletion(config, [
+            { role: 'system', content: refinementInstruction(targetMode) },
+            { role: 'user', content },
+            ...(correction ? [{ role: 'user' as const, content: correction }] : []),
+        ], { name: 'vocal_eq_refinement', schema: REFINEMENT_SCHEMA }, { signal, onProgress }), { signal, onProgress });
+    },
+};
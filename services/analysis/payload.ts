@@ -0,0 +1,2 @@
+/** The MIME type without parameters, e.g. "audio/webm" for "audio/webm;codecs=opus". */
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { DecodedAudio } from '../audioDecoder';
+import { getProvider, runAnalysis } from '.';
+
+const SAMPLE_RATE = 16000;
+
+/** A few seconds of a 120 Hz buzz with pauses, enough for the offline rules to find voiced speech. */
+function voice(): DecodedAudio {
+    const samples = new Float32Array(SAMPLE_RATE * 6);
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        if (t % 2 > 1.5) continue;
+        for (let h = 1; h < 20; h++) samples[i] += 0.1 * Math.sin(2 * Math.PI * 120 * h * t) / h;
+    }
+    return { sampleRate: SAMPLE_RATE, channels: [samples] };
+}
+
+describe('runAnalysis', () => {
+    it('returns the main result when the reference cannot be decoded', async () => {
+        const recording = new Blob(['recording'], { type: 'audio/wav' });
+        const reference = new Blob(['reference'], { type: 'audio/wav' });
+        const audio = voice();
+        const run = await runAnalysis(recording, recording.type, getProvider('offline')!, {}, 'podcast', {
+            reference,
+            decode: async blob => {
+                if (blob === reference) throw new Error('Unsupported format.');
+                return audio;
+            },
+        });
+        expect(run.result.eqPreset.length).toBeGreaterThan(0);
+        expect(run.referenceMatch).toBeNull();
+        expect(run.referenceError).toMatch(/reference recording could not be decoded/);
+    });
+});
@@ -0,0 +1,176 @@
+import type { AudioRegion, EQSetting, GeminiAnalysisResult, TargetModeId, VoiceMeasurements } from '../../types';
+import { decodeAudio, decodedDuration, sliceDecoded, type DecodedAudio } from '../audioDecoder';
+import { encodeSpeechUpload } from '../audioRender';
+import { mixToMono } from '../dsp';
+import { matchReference, type ReferenceMatch } from '../referenceMatch';
+import { getTargetMode } from '../targetModes';
+import { measureVoice } from '../voiceAnalysis';
+import type { ProviderEnvironment } from './environment';
+import { AnalysisError, cancelledError, toAnalysisError } from './errors';
+import { reviewExistingPreset } from './offline';
+import { baseMimeType } from './payload';
+import { resolveProviderConfig } from './preferences';
+import type { AnalysisInput, AnalysisProvider, AnalysisStage, ProviderConfig, RefinementResult } from './registry';
+
+export const ANALYSIS_STAGES: { id: AnalysisStage; label: string }[] = [
+    { id: 'decoding', label: 'Decoding the recording' },
+    { id: 'measuring', label: 'Measuring the voice' },
+    { id: 'uploading', label: 'Sending the request' },
+    { id: 'generating', label: 'Generating the preset' },
+    { id: 'validating', label: 'Checking the result' },
+];
+
+export interface AnalysisRun {
+    result: GeminiAnalysisResult;
+    /** Null when the recording could not be decoded. */
+    measurements: VoiceMeasurements | null;
+    /** Preset towards the reference recording, when one was given and could be matched. */
+    referenceMatch: ReferenceMatch | null;
+    /** Why a given reference could not be matched; the main result is returned regardless. */
+    referenceError: string | null;
+}
+
+export interface RunOptions extends Pick<AnalysisInput, 'signal' | 'onProgress'> {
+    /** The part of the recording to analyse; the whole recording when omitted. */
+    region?: AudioRegion | null;
+    /** A recording of the voice to sound like; a matching preset is built from it locally. */
+    reference?: Blob | null;
+    /** The EQ the user has been using; the result then carries a review of it. */
+    existingPreset?: EQSetting[] | null;
+    /** Decodes the recording and reference; the browser's decoders when omitted. */
+    decode?: (blob: Blob) => Promise<DecodedAudio>;
+    /** Where providers take defaults for empty settings from; the build's variables when omitted. */
+    env?: ProviderEnvironment;
+}
+
+/** Measures the reference and matches the recording's measured spectrum to it. */
+async function matchToReference(
+    reference: Blob,
+    measurements: VoiceMeasurements | null,
+    decode: (blob: Blob) => Promise<DecodedAudio>,
+): Promise<ReferenceMatch> {
+    if (!measurements) {
+        throw new AnalysisError('input', "The recording could not be decoded, so it can't be matched to the reference. Try a WAV or MP3 file.");
+    }
+    let referenceMeasurements: VoiceMeasurements;
+    try {
+        const { sampleRate, channels } = await decode(reference);
+        referenceMeasurements = measureVoice(mixToMono(channels), sampleRate);
+    } catch (error) {
+        throw new AnalysisError('input', "The reference recording could not be decoded. Try a WAV or MP3 file.", { cause: error });
+    }
+    if (referenceMeasurements.thirdOctaveBands.length === 0 || measurements.thirdOctaveBands.length === 0) {
+        throw new AnalysisError('input', "No voiced speech was found in the recording or the reference, so they can't be matched.");
+    }
+    return matchReference(measurements, referenceMeasurements);
+}
+
+// Measuring blocks the main thread, so the stage change is given a chance to paint first.
+const nextTask = () => new Promise(resolve => setTimeout(resolve));
+
+const isWhole = (region: AudioRegion | null | undefined, duration: number) =>
+    !region || (region.startS <= 0 && region.endS >= duration);
+
+/**
+ * Decodes the recording and measures the selected region, then asks the provider for a preset,
+ * reporting each stage. The region is sent as a compact mono WAV, or the original file when the
+ * whole recording is selected, the original is smaller and the provider accepts its type. When
+ * the recording cannot be decoded, the original is sent without measurements. With a
+ * `reference`, a matching preset is also built locally before the request; when that fails the
+ * analysis goes on and the reason is returned in `referenceError`. With an `existingPreset`, the
+ * provider reviews it against the voice; the offline rules review it when the provider does not.
+ * Errors, including an abort through `signal`, are thrown as AnalysisErrors.
+ */
+export async function runAnalysis(
+    blob: Blob,
+    mimeType: string,
+    provider: AnalysisProvider,
+    config: ProviderConfig,
+    targetMode: TargetModeId,
+    { signal, onProgress, region, reference, existingPreset, decode = decodeAudio, env }: RunOptions = {},
+): Promise<AnalysisRun> {
+    try {
+        let measurements: VoiceMeasurements | null = null;
+        let audio = blob;
+        let audioType = mimeType;
+        onProgress?.({ stage: 'decoding' });
+        let selection: DecodedAudio | null = null;
+        let trimmed = false;
+        try {
+            const decoded = await decode(blob);
+            trimmed = !isWhole(region, decodedDuration(decoded));
+            selection = trimmed ? sliceDecoded(decoded, region!.startS, region!.endS) : decoded;
+            signal?.throwIfAborted();
+            onProgress?.({ stage: 'measuring' });
+            await nextTask();
+            measurements = measureVoice(mixToMono(selection.channels), selection.sampleRate);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error("Local measurement failed:", error);
+        }
+        signal?.throwIfAborted();
+        let referenceMatch: ReferenceMatch | null = null;
+        let referenceError: string | null = null;
+        if (reference) {
+            try {
+                referenceMatch = await matchToReference(reference, measurements, decode);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                console.error("Reference matching failed:", error);
+                referenceError = toAnalysisError(error).message;
+            }
+        }
+        signal?.throwIfAborted();
+
+        onProgress?.({ stage: 'uploading' });
+        if (selection) {
+            const compact = encodeSpeechUpload(selection);
+            const originalUsable = !trimmed
+                && (!provider.audioMimeTypes || provider.audioMimeTypes.includes(baseMimeType(mimeType)));
+            if (!originalUsable || compact.size < blob.size) {
+                audio = compact;
+                audioType = 'audio/wav';
+            }
+        }
+        signal?.throwIfAborted();
+
+        const mode = getTargetMode(targetMode);
+        let result = await provider.analyze(
+            { audio, mimeType: audioType, measurements, targetMode: mode, existingPreset, signal, onProgress },
+            resolveProviderConfig(provider, config, env),
+        );
+        signal?.throwIfAborted();
+        if (existingPreset?.length && !result.existingPresetReview && measurements) {
+            result = { ...result, existingPresetReview: reviewExistingPreset(existingPreset, measurements, mode) };
+        }
+        return { result, measurements, referenceMatch, referenceError };
+    } catch (error) {
+        if (signal?.aborted) throw cancelledError();
+        throw toAnalysisError(error);
+    }
+}
+
+/** Asks the provider to revise `current` from the user's feedback. Errors are thrown as AnalysisErrors, as in runAnalysis. */
+export async function runRefinement(
+    current: GeminiAnalysisResult,
+    feedback: string,
+    measurements: VoiceMeasurements | null,
+    provider: AnalysisProvider,
+    config: ProviderConfig,
+    { signal, onProgress }: Pick<AnalysisInput, 'signal' | 'onProgress'> = {},
+): Promise<RefinementResult> {
+    if (!provider.refine) {
+        throw new AnalysisError('config', `${provider.label} cannot refine presets. Choose another provider in the analysis settings.`);
+    }
+    try {
+        const result = await provider.refine(
+            { current, feedback, measurements, targetMode: getTargetMode(current.targetMode), signal, onProgress },
+            resolveProviderConfig(provider, config),
+        );
+        signal?.throwIfAborted();
+        return result;
+    } catch (error) {
+        if (signal?.aborted) throw cancelledError();
+        throw toAnalysisError(error);
+    }
+}
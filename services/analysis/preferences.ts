@@ -0,0 +1,51 @@
+import { buildEnvironment, type ProviderEnvironment } from './environment';
+import type { AnalysisProvider, ProviderConfig } from './registry';
+
+const SELECTED_KEY = 'eq-creator.analysisProvider';
+const configKey = (id: string) => `${SELECTED_KEY}.${id}`;
+
+// Storage can be unavailable (private windows, sandboxed iframes); preferences are then per session.
+const read = (key: string) => {
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+const write = (key: string, value: string) => {
+    try {
+        localStorage.setItem(key, value);
+    } catch {
+        // Ignored, see above.
+    }
+};
+
+export const loadSelectedProviderId = () => read(SELECTED_KEY);
+
+export const saveSelectedProviderId = (id: string) => write(SELECTED_KEY, id);
+
+/** Values the user entered for a provider, without defaults. */
+export function loadProviderConfig(id: string): ProviderConfig {
+    try {
+        const parsed = JSON.parse(read(configKey(id)) ?? '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+export const saveProviderConfig = (id: string, config: ProviderConfig) => write(configKey(id), JSON.stringify(config));
+
+/** Entered values layered over the provider's defaults; empty fields fall back to the default. */
+export function resolveProviderConfig(
+    provider: AnalysisProvider,
+    entered: ProviderConfig,
+    env: ProviderEnvironment = buildEnvironment(),
+): ProviderConfig {
+    const config = provider.defaults(env);
+    for (const [key, value] of Object.entries(entered)) {
+        if (value !== '') config[key] = value;
+    }
+    return config;
+}
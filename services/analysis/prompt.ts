@@ -0,0 +1,107 @@
+import type { EQSetting, GeminiAnalysisResult, MeasurementSummary } from '../../types';
+import { FILTER_TYPES } from '../eqFilters';
+import type { TargetMode } from '../targetModes';
+import { CHAIN_LIMITS } from './validation';
+
+const range = ([min, max]: [number, number]) => `${min} to ${max}`;
+
+const formatTargetCurve = (mode: TargetMode) =>
+    JSON.stringify(Object.fromEntries(mode.targetCurve.map(p => [String(p.frequency), p.level])));
+
+export const systemInstruction = (mode: TargetMode) => `You are an expert audio engineer specializing in vocal processing.
+Analyze the provided audio sample to determine the speaker's vocal characteristics.
+Identify the fundamental frequency range, prominent harmonics, and any problematic frequencies (e.g., sibilance, plosives, muddiness).
+Based on this analysis, generate a parametric EQ preset of up to 10 bands to enhance vocal clarity, presence, and warmth. The preset is for ${mode.goal}. ${mode.guidance}
+The target tonal balance for this use, as the long-term voice spectrum in dB relative to 1 kHz at octave centres, is ${formatTargetCurve(mode)}; move the measured balance towards it.
+Use the filter type that fits each problem: a high-pass (usually ${mode.highPassHz[0]}-${mode.highPassHz[1]} Hz, below the lowest measured F0) to remove rumble, shelves for broad tonal tilts, narrow peak cuts (Q 4-10) or notches for resonances and hum, and gentle peaks (Q 0.7-2) for broad boosts.
+Provide the output in a JSON format with the keys 'vocalProfile', 'eqPreset' and, when dynamics processing would help, 'processingChain'.
+- 'vocalProfile' should be an object containing 'description' (a paragraph summarizing the voice), 'fundamentalRange' (e.g., '100Hz - 250Hz'), and 'keyCharacteristics' (an array of strings like 'Slightly sibilant', 'Warm low-mids').
+- 'eqPreset' should be an array of objects, where each object has 'type' (one of ${FILTER_TYPES.map(t => `'${t.id}'`).join(', ')}), 'frequency' (in Hz, 20-20000), 'gain' (in dB, from -${mode.maxCutDb} to +${mode.maxBoostDb}, 0 for high-pass, low-pass and notch), 'q' (filter Q; about 0.71 for shelves and pass filters), 'rationale' (one sentence explaining the move) and 'evidence' (the names of the measurements that justify it, e.g. 'thirdOctaveBandsDb.250', 'sibilanceRatioDb').
+- 'processingChain' is an object with any of these stages, each with a one-sentence 'rationale'; leave a stage out when the voice does not need it. 'gate': 'thresholdDb' (dBFS, ${range(CHAIN_LIMITS.gateThresholdDb)}, between the noise floor and the quietest speech). 'deEsser': 'frequency' (Hz, ${range(CHAIN_LIMITS.deEsserFrequency)}, where the sibilance sits) and 'thresholdDb' (${range(CHAIN_LIMITS.deEsserThresholdDb)}). 'compressor': 'thresholdDb' (${range(CHAIN_LIMITS.compressorThresholdDb)}), 'ratio' (${range(CHAIN_LIMITS.compressorRatio)}), 'attackMs' and 'releaseMs'. 'limiter': 'ceilingDb' (dBFS, no higher than ${mode.limiterCeilingDb}). The chain runs gate, EQ, de-esser, compressor, limiter.
+When a 'Measured spectral data' JSON block is provided, treat it as ground truth measured from the same recording: base band choices on it rather than on listening alone, and only cite measurements that appear in it as evidence.
+When an 'Existing preset' JSON block is provided, it is the EQ the user has been using. Also return 'existingPresetReview': short notes, each naming a frequency range, on where that preset works against the measured voice or the target balance (e.g. boosting a range the voice already has too much of, or a high-pass above the lowest F0); an empty list when nothing conflicts. Build your own 'eqPreset' from the voice, not from the existing preset.
+The measurements are: averaged third-octave band levels of voiced speech in dBFS keyed by centre frequency, median and 10th-90th percentile F0, noise floor in dBFS, sibilance ratio (4-10 kHz energy vs. total, in dB), low-mid buildup (200-500 Hz vs. 500 Hz-2 kHz per-octave level, in dB) and spectral centroid.`;
+
+const stageSchema = (...keys: string[]) => ({
+    type: 'object',
+    properties: {
+        ...Object.fromEntries(keys.map(key => [key, { type: 'number' }])),
+        rationale: { type: 'string' },
+    },
+    required: [...keys, 'rationale'],
+});
+
+/** JSON Schema of the expected reply, shared by every model-backed provider. */
+export const RESULT_SCHEMA = {
+    type: 'object',
+    properties: {
+        vocalProfile: {
+            type: 'object',
+            properties: {
+                description: { type: 'string' },
+                fundamentalRange: { type: 'string' },
+                keyCharacteristics: {
+                    type: 'array',
+                    items: { type: 'string' },
+                },
+            },
+            required: ['description', 'fundamentalRange', 'keyCharacteristics'],
+        },
+        eqPreset: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: FILTER_TYPES.map(t => t.id) },
+                    frequency: { type: 'number' },
+                    gain: { type: 'number' },
+                    q: { type: 'number' },
+                    rationale: { type: 'string' },
+                    evidence: {
+                        type: 'array',
+                        items: { type: 'string' },
+                    },
+                },
+                required: ['type', 'frequency', 'gain', 'q', 'rationale', 'evidence'],
+            },
+        },
+        processingChain: {
+            type: 'object',
+            properties: {
+                gate: stageSchema('thresholdDb'),
+                deEsser: stageSchema('frequency', 'thresholdDb'),
+                compressor: stageSchema('thresholdDb', 'ratio', 'attackMs', 'releaseMs'),
+                limiter: stageSchema('ceilingDb'),
+            },
+        },
+        existingPresetReview: {
+            type: 'array',
+            items: { type: 'string' },
+        },
+    },
+    required: ['vocalProfile', 'eqPreset'],
+};
+
+export const refinementInstruction = (mode: TargetMode) => `${systemInstruction(mode)}
+You are now revising a result you produced earlier for the same recording; the audio is not attached again. You are given the current vocal profile, EQ preset and processing chain as JSON, together with the listener's feedback in plain words (e.g. "less boomy", "more air").
+Reply with the complete revised result in the same format, plus 'explanation': two or three sentences telling the listener what you changed and why.
+Change only what the feedback asks for and keep every other band and stage as it is. Read descriptive words as frequency ranges: boomy 80-200 Hz, muddy or boxy 200-500 Hz, nasal 800 Hz-1.5 kHz, harsh 2-5 kHz, sibilant 5-9 kHz, air 10 kHz and up. Prefer adjusting an existing band in the range over adding one, move gains by 1-3 dB unless the feedback asks for more, and stay within the gain limits above.
+Keep the vocal profile unless the feedback shows it missed something about the voice.`;
+
+/** The same schema with the explanation a revision must carry. */
+export const REFINEMENT_SCHEMA = {
+    ...RESULT_SCHEMA,
+    properties: {
+        ...RESULT_SCHEMA.properties,
+        explanation: { type: 'string' },
+    },
+    required: [...RESULT_SCHEMA.required, 'explanation'],
+};
+
+export const refinementPrompt = ({ vocalProfile, eqPreset, processingChain }: GeminiAnalysisResult, feedback: string) =>
+    `Current result:\n${JSON.stringify({ vocalProfile, eqPreset, processingChain })}\n\nListener feedback: ${feedback}`;
+
+export const existingPresetPrompt = (settings: EQSetting[]) =>
+    `Existing preset:\n${JSON.stringify(settings.map(({ type, frequency, gain, q }) => ({ type, frequency, gain, q })))}`;
+
+export const measurementsPrompt = (summary: MeasurementSummary) => `Measured spectral data:\n${JSON.stringify(summary)}`;
@@ -0,0 +1,76 @@
+import type { EQSetting, GeminiAnalysisResult, VoiceMeasurements } from '../../types';
+import type { TargetMode } from '../targetModes';
+import type { ProviderEnvironment } from './environment';
+
+export type AnalysisStage = 'decoding' | 'measuring' | 'uploading' | 'generating' | 'validating';
+
+export interface AnalysisProgress {
+    stage: AnalysisStage;
+    /** Characters of the model's reply received so far, while a streamed reply is generating. */
+    receivedChars?: number;
+}
+
+export interface AnalysisInput {
+    /** The selected speech, already downmixed and resampled unless the original was smaller. */
+    audio: Blob;
+    mimeType: string;
+    /** Local measurements of the same recording, or null when the browser could not decode it. */
+    measurements: VoiceMeasurements | null;
+    targetMode: TargetMode;
+    /** The EQ the user has been using, to be reviewed against the voice alongside the new preset. */
+    existingPreset?: EQSetting[] | null;
+    /** Aborts the request; the analysis then rejects with a 'cancelled' AnalysisError. */
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface RefinementInput extends Pick<AnalysisInput, 'measurements' | 'targetMode' | 'signal' | 'onProgress'> {
+    /** The preset as it stands, including any changes made by hand. */
+    current: GeminiAnalysisResult;
+    /** What the user wants changed, in their own words, e.g. "less boomy, a bit more air". */
+    feedback: string;
+}
+
+export interface RefinementResult extends GeminiAnalysisResult {
+    /** A few sentences on what was changed and why. */
+    explanation: string;
+}
+
+export interface ProviderField {
+    key: string;
+    label: string;
+    kind: 'text' | 'secret' | 'checkbox';
+    placeholder?: string;
+}
+
+/** Settings entered for a provider, keyed by field. Checkboxes store 'true' or ''. */
+export type ProviderConfig = Record<string, string>;
+
+export interface AnalysisProvider {
+    id: string;
+    label: string;
+    description: string;
+    fields: ProviderField[];
+    /** Values used for fields the user has left empty, taken from environment variables. */
+    defaults: (env: ProviderEnvironment) => ProviderConfig;
+    /** Audio types the provider can send as they are; others are converted first. Any type when omitted. */
+    audioMimeTypes?: string[];
+    analyze: (input: AnalysisInput, config: ProviderConfig) => Promise<GeminiAnalysisResult>;
+    /** Revises an earlier result from the user's feedback; providers without it offer no refinement. */
+    refine?: (input: RefinementInput, config: ProviderConfig) => Promise<RefinementResult>;
+}
+
+const providers = new Map<string, AnalysisProvider>();
+
+/** Adds a provider to the picker. Registering an id again replaces the earlier provider. */
+export function registerProvider(provider: AnalysisProvider): void {
+    providers.set(provider.id, provider);
+}
+
+export function getProviders(): AnalysisProvider[] {
+    return [...providers.values()];
+}
+
+export function getProvider(id: string): AnalysisProvider | undefined {
+    return providers.get(id);
+}
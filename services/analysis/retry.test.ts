@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisError } from './errors';
+import { requestValidated } from './retry';
+import type { SanitizedResult } from './validation';
+
+const parse = (text: string): SanitizedResult<string> => {
+    if (text !== 'ok') throw new AnalysisError('malformed', `Reply "${text}" is not ok.`);
+    return { result: text, repairs: [] };
+};
+
+const outage = () => new AnalysisError('network', 'The service is unavailable.');
+
+describe('requestValidated', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('re-requests a malformed reply at once with the problem as the correction', async () => {
+        const request = vi.fn<(correction: string | null) => Promise<string>>()
+            .mockResolvedValueOnce('nonsense')
+            .mockResolvedValueOnce('ok');
+        await expect(requestValidated(parse, request)).resolves.toBe('ok');
+        expect(request.mock.calls.map(([correction]) => correction)).toEqual([
+            null,
+            'Your previous reply was rejected. Reply "nonsense" is not ok. Reply again with only JSON that follows the schema.',
+        ]);
+    });
+
+    it('waits with exponential backoff between outages', async () => {
+        const request = vi.fn<(correction: string | null) => Promise<string>>()
+            .mockRejectedValueOnce(outage())
+            .mockRejectedValueOnce(outage())
+            .mockResolvedValueOnce('ok');
+        const result = requestValidated(parse, request);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(request).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('ok');
+        expect(request.mock.calls.every(([correction]) => correction === null)).toBe(true);
+    });
+
+    it('throws the last failure after three attempts', async () => {
+        const request = vi.fn(() => Promise.resolve('nonsense'));
+        await expect(requestValidated(parse, request)).rejects.toMatchObject({ kind: 'malformed' });
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry errors that are not retryable', async () => {
+        const request = vi.fn(() => Promise.reject(new AnalysisError('auth', 'Bad key.')));
+        await expect(requestValidated(parse, request)).rejects.toMatchObject({ kind: 'auth' });
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a cancellation when aborted during a backoff wait', async () => {
+        const controller = new AbortController();
+        const request = vi.fn(() => Promise.reject(outage()));
+        const result = requestValidated(parse, request, { signal: controller.signal });
+        const settled = expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+
+        await vi.advanceTimersByTimeAsync(500);
+        controller.abort();
+        await settled;
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('removes the abort listener once a wait ends', async () => {
+        const controller = new AbortController();
+        const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+        const request = vi.fn<(correction: string | null) => Promise<string>>()
+            .mockRejectedValueOnce(outage())
+            .mockResolvedValueOnce('ok');
+        const result = requestValidated(parse, request, { signal: controller.signal });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(result).resolves.toBe('ok');
+        expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+});
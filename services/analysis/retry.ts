@@ -0,0 +1,55 @@
+import { cancelledError, toAnalysisError } from './errors';
+import type { AnalysisInput } from './registry';
+import type { SanitizedResult } from './validation';
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+// The abort listener is removed once the wait is over, so waits don't pile up on a long-lived signal.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Sends a model request until its reply validates, `parse` throwing a 'malformed' AnalysisError
+ * when it doesn't. A malformed reply is re-requested at once with the validation problem passed
+ * back as `correction`; rate limits and outages wait with exponential backoff. Other errors, and
+ * the last failure, are thrown as AnalysisErrors; once `signal` aborts, whatever the request
+ * throws is reported as a cancellation and nothing is retried.
+ */
+export async function requestValidated<T>(
+    parse: (text: string) => SanitizedResult<T>,
+    request: (correction: string | null) => Promise<string>,
+    { signal, onProgress }: Pick<AnalysisInput, 'signal' | 'onProgress'> = {},
+): Promise<T> {
+    let correction: string | null = null;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            signal?.throwIfAborted();
+            const text = await request(correction);
+            onProgress?.({ stage: 'validating' });
+            const { result, repairs } = parse(text);
+            if (repairs.length) console.warn("Repaired model output:", repairs);
+            return result;
+        } catch (error) {
+            if (signal?.aborted) throw cancelledError();
+            const analysisError = toAnalysisError(error);
+            console.error(`Analysis attempt ${attempt} failed:`, error);
+            if (attempt >= MAX_ATTEMPTS || !analysisError.retryable) throw analysisError;
+            if (analysisError.kind === 'malformed') {
+                correction = `Your previous reply was rejected. ${analysisError.message} Reply again with only JSON that follows the schema.`;
+            } else {
+                // Jitter keeps several open tabs from retrying in lockstep.
+                await delay(BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+            }
+        }
+    }
+}
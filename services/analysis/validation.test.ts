@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { getTargetMode } from '../targetModes';
+import { AnalysisError } from './errors';
+import { parseAnalysisResult, sanitizeAnalysisResult, sanitizeChain } from './validation';
+
+const PODCAST = getTargetMode('podcast');
+
+const PROFILE = {
+    description: 'A warm baritone.',
+    fundamentalRange: '90-160 Hz',
+    keyCharacteristics: ['Warm', 'Slightly boomy'],
+};
+
+const reply = (eqPreset: unknown[], extra: Record<string, unknown> = {}) => ({ vocalProfile: PROFILE, eqPreset, ...extra });
+
+const errorKind = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (error) {
+        return error instanceof AnalysisError ? error.kind : error;
+    }
+    return null;
+};
+
+describe('sanitizeAnalysisResult', () => {
+    it('passes a clean reply through without repairs', () => {
+        const { result, repairs } = sanitizeAnalysisResult(reply([
+            { type: 'peak', frequency: 250, gain: -3, q: 1.4, rationale: 'Mud' },
+        ]), PODCAST);
+        expect(repairs).toEqual([]);
+        expect(result.targetMode).toBe('podcast');
+        expect(result.eqPreset).toEqual([{ type: 'peak', frequency: 250, gain: -3, q: 1.4, rationale: 'Mud' }]);
+    });
+
+    it('clamps frequency, gain and Q to the limits of the target mode', () => {
+        const { result, repairs } = sanitizeAnalysisResult(reply([
+            { type: 'peak', frequency: 45000, gain: 40, q: 0.001 },
+            { type: 'peak', frequency: 5, gain: -30, q: 100 },
+        ]), PODCAST);
+        expect(result.eqPreset).toEqual([
+            { type: 'peak', frequency: 20, gain: -PODCAST.maxCutDb, q: 30 },
+            { type: 'peak', frequency: 20000, gain: PODCAST.maxBoostDb, q: 0.1 },
+        ]);
+        expect(repairs).toHaveLength(4);
+    });
+
+    it('zeroes the gain of pass and notch filters and fills in a missing Q', () => {
+        const { result } = sanitizeAnalysisResult(reply([{ type: 'highPass', frequency: '80', gain: 6 }]), PODCAST);
+        expect(result.eqPreset).toEqual([{ type: 'highPass', frequency: 80, gain: 0, q: 0.71 }]);
+    });
+
+    it('merges duplicate bands, keeping the larger move', () => {
+        const { result, repairs } = sanitizeAnalysisResult(reply([
+            { type: 'peak', frequency: 3000, gain: 2 },
+            { type: 'peak', frequency: 3000.2, gain: -4 },
+            { type: 'peak', frequency: 3000, gain: 1 },
+            { type: 'highShelf', frequency: 3000, gain: 1 },
+        ]), PODCAST);
+        expect(result.eqPreset.map(({ type, gain }) => [type, gain])).toEqual([['highShelf', 1], ['peak', -4]]);
+        expect(repairs.filter(r => r.startsWith('Duplicate'))).toHaveLength(2);
+    });
+
+    it('drops unusable bands and turns unknown types into peaks', () => {
+        const { result, repairs } = sanitizeAnalysisResult(reply([
+            'not a band',
+            { frequency: 'loud', gain: 1 },
+            { type: 'wobble', frequency: 1000, gain: 1 },
+        ]), PODCAST);
+        expect(result.eqPreset).toEqual([{ type: 'peak', frequency: 1000, gain: 1, q: 1.41 }]);
+        expect(repairs).toHaveLength(3);
+    });
+
+    it('throws a malformed error for an empty profile or no usable bands', () => {
+        expect(errorKind(() => sanitizeAnalysisResult({ vocalProfile: {}, eqPreset: [{ frequency: 100, gain: 1 }] }, PODCAST))).toBe('malformed');
+        expect(errorKind(() => sanitizeAnalysisResult({ ...reply([]), vocalProfile: { ...PROFILE, keyCharacteristics: [] } }, PODCAST))).toBe('malformed');
+        expect(errorKind(() => sanitizeAnalysisResult(reply([]), PODCAST))).toBe('malformed');
+        expect(errorKind(() => sanitizeAnalysisResult(reply([{ frequency: -1, gain: 1 }]), PODCAST))).toBe('malformed');
+        expect(errorKind(() => sanitizeAnalysisResult({ vocalProfile: PROFILE, eqPreset: 'none' }, PODCAST))).toBe('malformed');
+    });
+
+    it('fills in a missing fundamental range', () => {
+        const { result, repairs } = sanitizeAnalysisResult({ ...reply([{ frequency: 100, gain: 1 }]), vocalProfile: { ...PROFILE, fundamentalRange: '' } }, PODCAST);
+        expect(result.vocalProfile.fundamentalRange).toBe('Not specified');
+        expect(repairs).toContain('fundamentalRange was missing.');
+    });
+});
+
+describe('sanitizeChain', () => {
+    it('clamps stage parameters and caps the limiter at the mode ceiling', () => {
+        const repairs: string[] = [];
+        const chain = sanitizeChain({
+            compressor: { thresholdDb: -18, ratio: 50, attackMs: 5, releaseMs: 100 },
+            limiter: { ceilingDb: 0 },
+        }, PODCAST, repairs);
+        expect(chain).toEqual({
+            compressor: { thresholdDb: -18, ratio: 20, attackMs: 5, releaseMs: 100 },
+            limiter: { ceilingDb: PODCAST.limiterCeilingDb },
+        });
+        expect(repairs).toHaveLength(2);
+    });
+
+    it('drops a stage with a missing parameter and returns undefined when nothing is left', () => {
+        const repairs: string[] = [];
+        expect(sanitizeChain({ gate: {} }, PODCAST, repairs)).toBeUndefined();
+        expect(repairs).toEqual(['The noise gate has no usable thresholdDb and was dropped.']);
+    });
+});
+
+describe('parseAnalysisResult', () => {
+    it('accepts JSON in a Markdown code fence', () => {
+        const text = '```json\n' + JSON.stringify(reply([{ frequency: 100, gain: 1 }])) + '\n```';
+        expect(parseAnalysisResult(text, PODCAST).result.eqPreset).toHaveLength(1);
+    });
+
+    it('throws a malformed error for text that is not JSON', () => {
+        expect(errorKind(() => parseAnalysisResult('Sure! Here is your preset.', PODCAST))).toBe('malformed');
+    });
+});
@@ -0,0 +1,235 @@
+import type { EQSetting, GeminiAnalysisResult, ProcessingChain, VocalProfile } from '../../types';
+import { defaultQ, hasGain, isFilterType, sortBands } from '../eqFilters';
+import type { TargetMode } from '../targetModes';
+import { AnalysisError } from './errors';
+import type { RefinementResult } from './registry';
+
+export const MIN_FREQUENCY_HZ = 20;
+export const MAX_FREQUENCY_HZ = 20000;
+export const MAX_PRESET_GAIN_DB = 12;
+const MIN_Q = 0.1;
+const MAX_Q = 30;
+
+type Range = [number, number];
+
+// Ranges of the dynamics parameters; the upper limiter ceiling comes from the target mode.
+export const CHAIN_LIMITS = {
+    gateThresholdDb: [-90, -20] as Range,
+    deEsserFrequency: [2000, 12000] as Range,
+    deEsserThresholdDb: [-60, 0] as Range,
+    compressorThresholdDb: [-60, 0] as Range,
+    compressorRatio: [1, 20] as Range,
+    // Web Audio's compressor accepts at most one second for both times.
+    compressorAttackMs: [0.1, 200] as Range,
+    compressorReleaseMs: [10, 1000] as Range,
+    limiterCeilingDb: [-12, 0] as Range,
+};
+
+export interface SanitizedResult<T = GeminiAnalysisResult> {
+    result: T;
+    /** Human-readable notes on what had to be fixed; empty when the reply was clean. */
+    repairs: string[];
+}
+
+const malformed = (detail: string) =>
+    new AnalysisError('malformed', `The model's reply did not match the expected format: ${detail}`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const stringList = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+function sanitizeProfile(raw: unknown, repairs: string[]): VocalProfile {
+    if (!isRecord(raw)) throw malformed('vocalProfile is missing.');
+    const description = typeof raw.description === 'string' ? raw.description.trim() : '';
+    if (!description) throw malformed('vocalProfile.description is empty.');
+    const keyCharacteristics = stringList(raw.keyCharacteristics);
+    if (keyCharacteristics.length === 0) throw malformed('vocalProfile.keyCharacteristics is empty.');
+    let fundamentalRange = typeof raw.fundamentalRange === 'string' ? raw.fundamentalRange.trim() : '';
+    if (!fundamentalRange) {
+        fundamentalRange = 'Not specified';
+        repairs.push('fundamentalRange was missing.');
+    }
+    return { description, fundamentalRange, keyCharacteristics };
+}
+
+function sanitizeBand(raw: unknown, index: number, mode: TargetMode, repairs: string[]): EQSetting | null {
+    if (!isRecord(raw)) {
+        repairs.push(`Band ${index + 1} is not an object and was dropped.`);
+        return null;
+    }
+    const frequency = toNumber(raw.frequency);
+    const gain = toNumber(raw.gain ?? 0);
+    const q = toNumber(raw.q);
+    if (typeof frequency !== 'number' || !Number.isFinite(frequency) || frequency <= 0) {
+        repairs.push(`Band ${index + 1} has no usable frequency and was dropped.`);
+        return null;
+    }
+    if (typeof gain !== 'number' || !Number.isFinite(gain)) {
+        repairs.push(`Band ${index + 1} has no usable gain and was dropped.`);
+        return null;
+    }
+
+    const type = isFilterType(raw.type) ? raw.type : 'peak';
+    if (type !== raw.type) repairs.push(`Band ${index + 1} had an unknown filter type and became a peak.`);
+
+    const clampedFrequency = clamp(frequency, MIN_FREQUENCY_HZ, MAX_FREQUENCY_HZ);
+    if (clampedFrequency !== frequency) repairs.push(`Band ${index + 1} frequency ${frequency} Hz was moved into 20 Hz–20 kHz.`);
+
+    const minGain = -Math.min(mode.maxCutDb, MAX_PRESET_GAIN_DB);
+    const maxGain = Math.min(mode.maxBoostDb, MAX_PRESET_GAIN_DB);
+    const clampedGain = hasGain(type) ? clamp(gain, minGain, maxGain) : 0;
+    if (hasGain(type) && clampedGain !== gain) repairs.push(`Band ${index + 1} gain ${gain} dB was limited to ${minGain}…+${maxGain} dB.`);
+
+    const usableQ = typeof q === 'number' && Number.isFinite(q) && q > 0 ? clamp(q, MIN_Q, MAX_Q) : defaultQ(type);
+    const evidence = stringList(raw.evidence);
+    return {
+        type,
+        frequency: clampedFrequency,
+        gain: clampedGain,
+        q: usableQ,
+        ...(typeof raw.rationale === 'string' && raw.rationale.trim() ? { rationale: raw.rationale.trim() } : {}),
+        ...(evidence.length ? { evidence } : {}),
+    };
+}
+
+type StageValues<K extends string> = Record<K, number> & { rationale?: string };
+
+/**
+ * Reads one dynamics stage. A stage with a missing or non-numeric parameter is dropped as a whole;
+ * out-of-range values are clamped.
+ */
+function sanitizeStage<K extends string>(
+    raw: unknown,
+    label: string,
+    limits: Record<K, Range>,
+    repairs: string[],
+): StageValues<K> | undefined {
+    if (raw == null) return undefined;
+    if (!isRecord(raw)) {
+        repairs.push(`The ${label} settings are not an object and were dropped.`);
+        return undefined;
+    }
+    const stage: Record<string, number | string> = {};
+    for (const [key, [min, max]] of Object.entries(limits) as [K, Range][]) {
+        const value = toNumber(raw[key]);
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            repairs.push(`The ${label} has no usable ${key} and was dropped.`);
+            return undefined;
+        }
+        stage[key] = clamp(value, min, max);
+        if (stage[key] !== value) repairs.push(`The ${label} ${key} ${value} was limited to ${min}…${max}.`);
+    }
+    if (typeof raw.rationale === 'string' && raw.rationale.trim()) stage.rationale = raw.rationale.trim();
+    return stage as StageValues<K>;
+}
+
+/** Reads a processing chain stage by stage, clamping parameters to CHAIN_LIMITS. Undefined when no stage is usable. */
+export function sanitizeChain(raw: unknown, mode: TargetMode, repairs: string[]): ProcessingChain | undefined {
+    if (raw == null) return undefined;
+    if (!isRecord(raw)) {
+        repairs.push('processingChain is not an object and was dropped.');
+        return undefined;
+    }
+    const [minCeiling, maxCeiling] = CHAIN_LIMITS.limiterCeilingDb;
+    const chain: ProcessingChain = {
+        gate: sanitizeStage(raw.gate, 'noise gate', { thresholdDb: CHAIN_LIMITS.gateThresholdDb }, repairs),
+        deEsser: sanitizeStage(raw.deEsser, 'de-esser', {
+            frequency: CHAIN_LIMITS.deEsserFrequency,
+            thresholdDb: CHAIN_LIMITS.deEsserThresholdDb,
+        }, repairs),
+        compressor: sanitizeStage(raw.compressor, 'compressor', {
+            thresholdDb: CHAIN_LIMITS.compressorThresholdDb,
+            ratio: CHAIN_LIMITS.compressorRatio,
+            attackMs: CHAIN_LIMITS.compressorAttackMs,
+            releaseMs: CHAIN_LIMITS.compressorReleaseMs,
+        }, repairs),
+        limiter: sanitizeStage(raw.limiter, 'limiter', {
+            ceilingDb: [minCeiling, Math.min(maxCeiling, mode.limiterCeilingDb)],
+        }, repairs),
+    };
+    const stages = Object.entries(chain).filter(([, stage]) => stage);
+    return stages.length ? Object.fromEntries(stages) : undefined;
+}
+
+/**
+ * Checks a list of bands the way model output is checked: each is clamped to 20 Hz–20 kHz, the
+ * mode's gain limits (never beyond ±12 dB) and a usable Q, and repeated frequency and type pairs
+ * are merged (the larger move wins). Unusable bands are dropped. Sorted by frequency.
+ */
+export function sanitizeBands(raw: unknown[], mode: TargetMode, repairs: string[]): EQSetting[] {
+    const unique = new Map<string, EQSetting>();
+    raw.forEach((item, i) => {
+        const band = sanitizeBand(item, i, mode, repairs);
+        if (!band) return;
+        const key = `${band.type}:${Math.round(band.frequency)}`;
+        const existing = unique.get(key);
+        if (existing) {
+            repairs.push(`Duplicate ${band.type} band at ${Math.round(band.frequency)} Hz was merged.`);
+            if (Math.abs(band.gain) <= Math.abs(existing.gain)) return;
+        }
+        unique.set(key, band);
+    });
+    return sortBands([...unique.values()]);
+}
+
+/**
+ * Checks a parsed reply and repairs what can be repaired: bands are clamped to 20 Hz–20 kHz and to
+ * the target mode's gain limits (never beyond ±12 dB), sorted, and de-duplicated (for repeated
+ * frequency and type, the larger move wins). The optional processing chain is checked stage by
+ * stage and its parameters clamped to CHAIN_LIMITS. The mode is recorded in the result.
+ * Anything that cannot be repaired, such as an empty profile or no usable bands, throws a
+ * `malformed` AnalysisError so the request can be retried.
+ */
+export function sanitizeAnalysisResult(raw: unknown, mode: TargetMode): SanitizedResult {
+    if (!isRecord(raw)) throw malformed('the reply is not a JSON object.');
+    const repairs: string[] = [];
+    const vocalProfile = sanitizeProfile(raw.vocalProfile, repairs);
+    if (!Array.isArray(raw.eqPreset)) throw malformed('eqPreset is not a list of bands.');
+
+    const eqPreset = sanitizeBands(raw.eqPreset, mode, repairs);
+    if (eqPreset.length === 0) throw malformed('eqPreset has no usable bands.');
+
+    const processingChain = sanitizeChain(raw.processingChain, mode, repairs);
+    return {
+        result: {
+            vocalProfile,
+            eqPreset,
+            targetMode: mode.id,
+            ...(processingChain ? { processingChain } : {}),
+            ...(Array.isArray(raw.existingPresetReview) ? { existingPresetReview: stringList(raw.existingPresetReview) } : {}),
+        },
+        repairs,
+    };
+}
+
+/** Parses JSON, tolerating a Markdown code fence around it. */
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+        throw malformed('the reply is not valid JSON.');
+    }
+}
+
+/** Parses a model's JSON reply, tolerating a Markdown code fence around it. */
+export function parseAnalysisResult(text: string, mode: TargetMode): SanitizedResult {
+    return sanitizeAnalysisResult(parseJson(text), mode);
+}
+
+/** Checks a revised preset like a fresh analysis; the explanation of the revision is required. */
+export function sanitizeRefinementResult(raw: unknown, mode: TargetMode): SanitizedResult<RefinementResult> {
+    const { result, repairs } = sanitizeAnalysisResult(raw, mode);
+    const explanation = isRecord(raw) && typeof raw.explanation === 'string' ? raw.explanation.trim() : '';
+    if (!explanation) throw malformed('explanation is empty.');
+    return { result: { ...result, explanation }, repairs };
+}
+
+export function parseRefinementResult(text: string, mode: TargetMode): SanitizedResult<RefinementResult> {
+    return sanitizeRefinementResult(parseJson(text), mode);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { EQSetting } from '../types';
+import {
+    GRAPHIC_EQ_FREQUENCIES,
+    buildAudacityCurveXml,
+    buildFilterCurvePreset,
+    buildGraphicEqPreset,
+    parseAudacityCurveXml,
+    parseAudacityParameters,
+    toCurvePoints,
+} from './audacityPreset';
+import { eqResponseDb } from './eqFilters';
+
+const PRESET: EQSetting[] = [
+    { type: 'highPass', frequency: 80, gain: 0, q: 0.71 },
+    { type: 'peak', frequency: 250, gain: -3.5, q: 1.2 },
+    { type: 'highShelf', frequency: 8000, gain: 2.25, q: 0.7 },
+];
+
+describe('Audacity curve XML', () => {
+    it('round-trips a name with XML special characters', () => {
+        const name = `Tom & Jerry's "<warm>" voice`;
+        const xml = buildAudacityCurveXml(PRESET, name);
+        expect(xml).not.toContain('<warm>');
+        expect(parseAudacityCurveXml(xml).map(curve => curve.name)).toEqual([name]);
+    });
+
+    it('round-trips the point frequencies and gains', () => {
+        const [curve] = parseAudacityCurveXml(buildAudacityCurveXml(PRESET, 'Voice'));
+        expect(curve.points).toEqual(toCurvePoints(PRESET));
+    });
+
+    it('returns plain curve points rather than filter bands', () => {
+        const [curve] = parseAudacityCurveXml('<equalizationeffect><curve name="x"><point f="100" d="-2"/><point f="1000" d="3"/></curve></equalizationeffect>');
+        expect(curve.points).toEqual([{ frequency: 100, gain: -2 }, { frequency: 1000, gain: 3 }]);
+    });
+});
+
+describe('Audacity parameter presets', () => {
+    it('round-trips the Filter Curve points', () => {
+        const expected = toCurvePoints(PRESET).map(({ frequency, gain }) => ({
+            frequency: Number(frequency.toFixed(6)),
+            gain: Number(gain.toFixed(6)),
+        }));
+        const text = buildFilterCurvePreset(PRESET);
+        expect(text).toMatch(/^FilterLength="8191" InterpolateLin="0" InterpolationMethod="B-spline" f0="20" v0="/);
+        expect(parseAudacityParameters(text)).toEqual(expected);
+    });
+
+    it('samples the Graphic EQ sliders and round-trips them', () => {
+        const points = parseAudacityParameters(buildGraphicEqPreset(PRESET));
+        expect(points.map(p => p.frequency)).toEqual(GRAPHIC_EQ_FREQUENCIES);
+        for (const { frequency, gain } of points) {
+            const expected = Math.max(-20, Math.min(20, eqResponseDb(PRESET, frequency)));
+            expect(gain).toBeCloseTo(expected, 1);
+        }
+    });
+
+    it('limits Graphic EQ sliders to their ±20 dB range', () => {
+        const points = parseAudacityParameters(buildGraphicEqPreset([{ type: 'highPass', frequency: 1000, gain: 0, q: 0.71 }]));
+        expect(points[0]).toEqual({ frequency: 20, gain: -20 });
+    });
+});
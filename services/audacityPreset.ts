@@ -0,0 +1,193 @@
+import type { EQSetting, ProcessingChain } from '../types';
+import { COMPRESSOR_KNEE_DB, GATE_ATTACK_MS, GATE_HOLD_MS, GATE_RANGE_DB, GATE_RELEASE_MS, LIMITER_RELEASE_MS } from './dynamics';
+import { eqResponseDb } from './eqFilters';
+
+export type AudacityFormat = 'curveXml' | 'filterCurve' | 'graphicEq';
+
+export const AUDACITY_FORMATS: { id: AudacityFormat; label: string; extension: string }[] = [
+    { id: 'curveXml', label: 'EQ curve XML (Audacity 2.x / Filter Curve import)', extension: 'xml' },
+    { id: 'filterCurve', label: 'Filter Curve EQ preset (Audacity 3.2+)', extension: 'txt' },
+    { id: 'graphicEq', label: 'Graphic EQ preset (Audacity 3.2+)', extension: 'txt' },
+];
+
+// Slider centres of Audacity's 31-band Graphic EQ.
+export const GRAPHIC_EQ_FREQUENCIES = [
+    20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+    1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000,
+];
+const GRAPHIC_EQ_RANGE_DB = 20;
+const FILTER_LENGTH = 8191;
+const CURVE_POINTS_PER_OCTAVE = 6;
+// Notch centres are effectively -infinity; Audacity draws anything below this as silence anyway.
+const CURVE_FLOOR_DB = -60;
+
+/** A point of an Audacity curve: the gain it passes through at that frequency, not a filter. */
+export interface CurvePoint {
+    frequency: number;
+    gain: number;
+}
+
+export interface AudacityCurve {
+    name: string;
+    points: CurvePoint[];
+}
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string) =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+
+/**
+ * Audacity curves are point lists, not filters, so the preset's combined response is sampled on a
+ * sixth-octave grid plus every band centre. Frequencies are clamped to 20 Hz–20 kHz, sorted and unique.
+ */
+export function toCurvePoints(settings: EQSetting[]): CurvePoint[] {
+    const frequencies = new Set<number>();
+    for (let i = 0; i <= 10 * CURVE_POINTS_PER_OCTAVE; i++) {
+        frequencies.add(Math.min(20000, Number((20 * 2 ** (i / CURVE_POINTS_PER_OCTAVE)).toFixed(1))));
+    }
+    for (const { frequency } of settings) {
+        if (Number.isFinite(frequency)) frequencies.add(Math.min(20000, Math.max(20, frequency)));
+    }
+    return [...frequencies]
+        .sort((a, b) => a - b)
+        // `|| 0` turns a rounded -0 into 0.
+        .map(frequency => ({ frequency, gain: Math.round(Math.max(CURVE_FLOOR_DB, eqResponseDb(settings, frequency)) * 100) / 100 || 0 }));
+}
+
+/** Audacity equalization curve file (EQCurves.xml format). */
+export function buildAudacityCurveXml(settings: EQSetting[], name: string): string {
+    const points = toCurvePoints(settings)
+        .map(({ frequency, gain }) => `\t\t<point f="${frequency.toFixed(12)}" d="${gain.toFixed(12)}"/>`);
+    return [
+        '<?xml version="1.0" standalone="no" ?>',
+        '<equalizationeffect>',
+        `\t<curve name="${escapeXml(name)}">`,
+        ...points,
+        '\t</curve>',
+        '</equalizationeffect>',
+        '',
+    ].join('\n');
+}
+
+/** Reads every curve from an Audacity EQ curve XML file as its points; fitting bands to them is up to the caller. */
+export function parseAudacityCurveXml(xml: string): AudacityCurve[] {
+    const curves: AudacityCurve[] = [];
+    const curvePattern = /<curve\b([^>]*?)(?:\/>|>([\s\S]*?)<\/curve>)/g;
+    const attribute = (attrs: string, key: string) => {
+        const match = new RegExp(`\\b${key}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attrs);
+        return match ? unescapeXml(match[1] ?? match[2]) : null;
+    };
+    for (const curveMatch of xml.matchAll(curvePattern)) {
+        const points: CurvePoint[] = [];
+        for (const pointMatch of (curveMatch[2] ?? '').matchAll(/<point\b([^>]*)\/?>/g)) {
+            const frequency = Number(attribute(pointMatch[1], 'f'));
+            const gain = Number(attribute(pointMatch[1], 'd'));
+            if (Number.isFinite(frequency) && Number.isFinite(gain)) points.push({ frequency, gain });
+        }
+        curves.push({ name: attribute(curveMatch[1], 'name') ?? '', points });
+    }
+    return curves;
+}
+
+const formatParameters = (points: CurvePoint[]) => {
+    const params = [`FilterLength="${FILTER_LENGTH}"`, 'InterpolateLin="0"', 'InterpolationMethod="B-spline"'];
+    points.forEach(({ frequency, gain }, i) => {
+        params.push(`f${i}="${Number(frequency.toFixed(6))}"`, `v${i}="${Number(gain.toFixed(6))}"`);
+    });
+    return params.join(' ') + '\n';
+};
+
+/** Parameter string used by Audacity 3.2+ Filter Curve EQ preset files and macros. */
+export function buildFilterCurvePreset(settings: EQSetting[]): string {
+    return formatParameters(toCurvePoints(settings));
+}
+
+/**
+ * Audacity 3.2+ Graphic EQ preset. Graphic EQ only has fixed sliders, so the preset's combined
+ * response is sampled at each slider centre and limited to the slider range.
+ */
+export function buildGraphicEqPreset(settings: EQSetting[]): string {
+    return formatParameters(GRAPHIC_EQ_FREQUENCIES.map(frequency => ({
+        frequency,
+        gain: Math.round(Math.max(-GRAPHIC_EQ_RANGE_DB, Math.min(GRAPHIC_EQ_RANGE_DB, eqResponseDb(settings, frequency))) * 10) / 10,
+    })));
+}
+
+/** Reads a Filter Curve or Graphic EQ parameter string back into its curve points. */
+export function parseAudacityParameters(text: string): CurvePoint[] {
+    const values = new Map<string, number>();
+    for (const match of text.matchAll(/\b([fv]\d+)\s*=\s*"([^"]*)"/g)) values.set(match[1], Number(match[2]));
+    const points: CurvePoint[] = [];
+    for (let i = 0; values.has(`f${i}`); i++) {
+        const frequency = values.get(`f${i}`)!;
+        const gain = values.get(`v${i}`) ?? 0;
+        if (Number.isFinite(frequency) && Number.isFinite(gain)) points.push({ frequency, gain });
+    }
+    return points;
+}
+
+const macroParameters = (params: Record<string, string | number>) =>
+    Object.entries(params).map(([key, value]) => `${key}="${value}"`).join(' ');
+
+/**
+ * Audacity 3.7+ macro that applies the preset as a Filter Curve EQ with the chain's noise gate
+ * before it and compressor and limiter after it. Audacity has no de-esser, so that stage is left out.
+ */
+export function buildAudacityMacro(settings: EQSetting[], chain: ProcessingChain | null | undefined): string {
+    const lines: string[] = [];
+    if (chain?.gate) {
+        lines.push(`NoiseGate:${macroParameters({
+            attack: GATE_ATTACK_MS,
+            decay: GATE_RELEASE_MS,
+            'gate-freq': 0,
+            hold: GATE_HOLD_MS,
+            'level-reduction': GATE_RANGE_DB,
+            mode: 'Gate',
+            'stereo-link': 'LinkStereo',
+            threshold: chain.gate.thresholdDb,
+        })}`);
+    }
+    lines.push(`FilterCurve:${buildFilterCurvePreset(settings).trim()}`);
+    if (chain?.compressor) {
+        lines.push(`Compressor:${macroParameters({
+            attackMs: chain.compressor.attackMs,
+            compressionRatio: chain.compressor.ratio,
+            kneeWidthDb: COMPRESSOR_KNEE_DB,
+            lookaheadMs: 1,
+            makeupGainDb: 0,
+            releaseMs: chain.compressor.releaseMs,
+            thresholdDb: chain.compressor.thresholdDb,
+        })}`);
+    }
+    if (chain?.limiter) {
+        lines.push(`Limiter:${macroParameters({
+            kneeWidthDb: 0,
+            lookaheadMs: 1,
+            makeupTargetDb: chain.limiter.ceilingDb,
+            releaseMs: LIMITER_RELEASE_MS,
+            thresholdDb: chain.limiter.ceilingDb,
+        })}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function buildAudacityPreset(format: AudacityFormat, settings: EQSetting[], name: string): string {
+    switch (format) {
+        case 'filterCurve':
+            return buildFilterCurvePreset(settings);
+        case 'graphicEq':
+            return buildGraphicEqPreset(settings);
+        case 'curveXml':
+        default:
+            return buildAudacityCurveXml(settings, name);
+    }
+}
@@ -0,0 +1,163 @@
+import { mixToMono } from './dsp';
+
+const HEADER_BYTES = 64 * 1024;
+// WAVE_FORMAT_PCM, WAVE_FORMAT_IEEE_FLOAT and WAVE_FORMAT_EXTENSIBLE, whose sub-format is one of the first two.
+const WAV_PCM = 1;
+const WAV_FLOAT = 3;
+const WAV_EXTENSIBLE = 0xfffe;
+// Streamed WAVs (e.g. written to a pipe) cannot go back to fill in the data size.
+const UNKNOWN_SIZES = [0, 0xffffffff];
+
+/** Decoded samples, one array per channel, independent of the Web Audio API. */
+export interface DecodedAudio {
+    sampleRate: number;
+    channels: Float32Array[];
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Reads the native sample rate from the container header where it can be found cheaply:
+ * WAV and FLAC headers, and Opus streams in WebM/Ogg (always 48 kHz). Returns null otherwise.
+ */
+export async function detectSourceSampleRate(blob: Blob): Promise<number | null> {
+    const bytes = new Uint8Array(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+        let offset = 12;
+        while (offset + 8 <= bytes.length) {
+            const size = view.getUint32(offset + 4, true);
+            if (ascii(bytes, offset, 4) === 'fmt ' && offset + 16 <= bytes.length) {
+                return view.getUint32(offset + 12, true);
+            }
+            offset += 8 + size + (size % 2);
+        }
+        return null;
+    }
+
+    if (bytes.length >= 22 && ascii(bytes, 0, 4) === 'fLaC') {
+        // STREAMINFO is always the first metadata block; the rate is 20 bits starting at byte 18.
+        return (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4);
+    }
+
+    const head = ascii(bytes, 0, Math.min(bytes.length, 4096));
+    if ((head.startsWith('OggS') && head.includes('OpusHead')) || (head.startsWith('\x1a\x45\xdf\xa3') && head.includes('A_OPUS'))) {
+        return 48000;
+    }
+    return null;
+}
+
+/**
+ * Decodes a blob into an AudioBuffer. With a sample rate the blob is decoded through an
+ * OfflineAudioContext at that rate, which avoids resampling to the output device's rate.
+ */
+export async function decodeAudioBlob(blob: Blob, sampleRate?: number): Promise<AudioBuffer> {
+    const arrayBuffer = await blob.arrayBuffer();
+    if (sampleRate) {
+        return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(arrayBuffer);
+    }
+    const audioContext: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        return await audioContext.decodeAudioData(arrayBuffer);
+    } finally {
+        audioContext.close();
+    }
+}
+
+export function audioBufferToChannels(buffer: AudioBuffer): Float32Array[] {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        channels.push(buffer.getChannelData(c));
+    }
+    return channels;
+}
+
+/** Copies the samples between two times (clamped to the buffer) into a new buffer. */
+export function sliceAudioBuffer(buffer: AudioBuffer, startS: number, endS: number): AudioBuffer {
+    const start = Math.max(0, Math.floor(startS * buffer.sampleRate));
+    const end = Math.min(buffer.length, Math.ceil(endS * buffer.sampleRate));
+    const slice = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length: Math.max(1, end - start), sampleRate: buffer.sampleRate });
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        slice.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+    }
+    return slice;
+}
+
+export function audioBufferToMono(buffer: AudioBuffer): Float32Array {
+    return mixToMono(audioBufferToChannels(buffer));
+}
+
+/** Decodes a blob with the browser's decoders. */
+export async function decodeAudio(blob: Blob): Promise<DecodedAudio> {
+    const buffer = await decodeAudioBlob(blob);
+    return { sampleRate: buffer.sampleRate, channels: audioBufferToChannels(buffer) };
+}
+
+export const decodedDuration = ({ sampleRate, channels }: DecodedAudio) => (channels[0]?.length ?? 0) / sampleRate;
+
+/** The samples between two times, clamped to the audio; the arrays share memory with the original. */
+export function sliceDecoded(audio: DecodedAudio, startS: number, endS: number): DecodedAudio {
+    const length = audio.channels[0]?.length ?? 0;
+    const start = Math.min(length, Math.max(0, Math.floor(startS * audio.sampleRate)));
+    const end = Math.max(start, Math.min(length, Math.ceil(endS * audio.sampleRate)));
+    return { sampleRate: audio.sampleRate, channels: audio.channels.map(channel => channel.subarray(start, end)) };
+}
+
+/**
+ * Decodes a PCM (8 to 32-bit) or float (32/64-bit) WAV file without the Web Audio API, so it works
+ * outside the browser. Throws an Error with a user-facing message for other files and encodings.
+ */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WAVE') {
+        throw new Error('This is not a WAV file.');
+    }
+    let format: { code: number; channels: number; sampleRate: number; blockAlign: number; bits: number } | null = null;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const id = ascii(bytes, offset, 4);
+        const declared = view.getUint32(offset + 4, true);
+        const start = offset + 8;
+        if (id === 'fmt ' && start + 16 <= bytes.length) {
+            const tag = view.getUint16(start, true);
+            format = {
+                code: tag === WAV_EXTENSIBLE && start + 26 <= bytes.length ? view.getUint16(start + 24, true) : tag,
+                channels: view.getUint16(start + 2, true),
+                sampleRate: view.getUint32(start + 4, true),
+                blockAlign: view.getUint16(start + 12, true),
+                bits: view.getUint16(start + 14, true),
+            };
+        } else if (id === 'data') {
+            if (!format) break;
+            const { code, channels, sampleRate, blockAlign, bits } = format;
+            const supported = (code === WAV_PCM && [8, 16, 24, 32].includes(bits)) || (code === WAV_FLOAT && (bits === 32 || bits === 64));
+            if (!supported || channels === 0 || sampleRate === 0 || blockAlign < channels * (bits / 8)) {
+                throw new Error(`This WAV file's encoding (format ${code}, ${bits}-bit) is not supported. Convert it to PCM or float WAV.`);
+            }
+            const size = UNKNOWN_SIZES.includes(declared) ? bytes.length - start : Math.min(declared, bytes.length - start);
+            const frames = Math.floor(size / blockAlign);
+            if (frames === 0) throw new Error('This WAV file contains no audio.');
+            const width = bits / 8;
+            const read = (at: number): number => {
+                if (code === WAV_FLOAT) return bits === 32 ? view.getFloat32(at, true) : view.getFloat64(at, true);
+                switch (bits) {
+                    case 8: return (bytes[at] - 128) / 128;
+                    case 16: return view.getInt16(at, true) / 0x8000;
+                    case 24: return ((bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16)) << 8 >> 8) / 0x800000;
+                    default: return view.getInt32(at, true) / 0x80000000;
+                }
+            };
+            const decoded = Array.from({ length: channels }, () => new Float32Array(frames));
+            for (let i = 0; i < frames; i++) {
+                const frame = start + i * blockAlign;
+                for (let c = 0; c < channels; c++) decoded[c][i] = read(frame + c * width);
+            }
+            return { sampleRate, channels: decoded };
+        }
+        if (declared === 0xffffffff) break;
+        offset = start + declared + (declared % 2);
+    }
+    throw new Error('This WAV file is damaged: its format or audio data could not be found.');
+}
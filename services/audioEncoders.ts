@@ -0,0 +1,334 @@
+// Client-side PCM encoders for rendered audio. Both take planar float channels in -1..1.
+
+export type BitDepth = 16 | 24;
+
+export interface AudioMetadata {
+    title: string;
+    software?: string;
+    comment?: string;
+}
+
+const textEncoder = new TextEncoder();
+
+/** Converts float samples to signed integers, with TPDF dither when reducing to 16 bits. */
+export function quantize(channels: Float32Array[], bitDepth: BitDepth): Int32Array[] {
+    const max = 2 ** (bitDepth - 1) - 1;
+    const dither = bitDepth === 16;
+    return channels.map(channel => {
+        const out = new Int32Array(channel.length);
+        for (let i = 0; i < channel.length; i++) {
+            const noise = dither ? Math.random() - Math.random() : 0;
+            out[i] = Math.max(-max - 1, Math.min(max, Math.round(channel[i] * max + noise)));
+        }
+        return out;
+    });
+}
+
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: BitDepth, metadata: AudioMetadata): Blob {
+    const pcm = quantize(channels, bitDepth);
+    const frames = pcm[0]?.length ?? 0;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = bytesPerSample * pcm.length;
+    const dataSize = frames * blockAlign;
+
+    const infoEntries: [string, string][] = [['INAM', metadata.title]];
+    if (metadata.software) infoEntries.push(['ISFT', metadata.software]);
+    if (metadata.comment) infoEntries.push(['ICMT', metadata.comment]);
+    const infoChunks = infoEntries.map(([id, text]) => {
+        const value = textEncoder.encode(text + '\0');
+        const chunk = new Uint8Array(8 + value.length + (value.length % 2));
+        chunk.set(textEncoder.encode(id), 0);
+        new DataView(chunk.buffer).setUint32(4, value.length, true);
+        chunk.set(value, 8);
+        return chunk;
+    });
+    const listSize = 4 + infoChunks.reduce((sum, c) => sum + c.length, 0);
+
+    const headerSize = 12 + 24 + 8 + listSize + 8;
+    const out = new Uint8Array(headerSize + dataSize);
+    const view = new DataView(out.buffer);
+    let offset = 0;
+    const writeId = (id: string) => {
+        out.set(textEncoder.encode(id), offset);
+        offset += 4;
+    };
+    const writeU32 = (value: number) => {
+        view.setUint32(offset, value, true);
+        offset += 4;
+    };
+    const writeU16 = (value: number) => {
+        view.setUint16(offset, value, true);
+        offset += 2;
+    };
+
+    writeId('RIFF');
+    writeU32(out.length - 8);
+    writeId('WAVE');
+    writeId('fmt ');
+    writeU32(16);
+    writeU16(1);
+    writeU16(pcm.length);
+    writeU32(sampleRate);
+    writeU32(sampleRate * blockAlign);
+    writeU16(blockAlign);
+    writeU16(bitDepth);
+    writeId('LIST');
+    writeU32(listSize);
+    writeId('INFO');
+    for (const chunk of infoChunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+    }
+    writeId('data');
+    writeU32(dataSize);
+
+    for (let i = 0; i < frames; i++) {
+        for (const channel of pcm) {
+            const sample = channel[i];
+            out[offset] = sample & 0xff;
+            out[offset + 1] = (sample >> 8) & 0xff;
+            if (bytesPerSample === 3) out[offset + 2] = (sample >> 16) & 0xff;
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Blob([out], { type: 'audio/wav' });
+}
+
+// --- FLAC -------------------------------------------------------------------------------------
+
+const FLAC_BLOCK_SIZE = 4096;
+// Frame-header codes for the common rates; anything else is read from STREAMINFO.
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+    88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+    24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+const MAX_RICE_PARAMETER = 14;
+
+class BitWriter {
+    bytes = new Uint8Array(1 << 16);
+    length = 0;
+    private acc = 0;
+    private accBits = 0;
+
+    private ensure(extra: number) {
+        if (this.length + extra <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.bytes.subarray(0, this.length));
+        this.bytes = next;
+    }
+
+    /** Writes the low `bits` bits of `value` (two's complement for negatives), most significant first. */
+    write(value: number, bits: number) {
+        if (bits > 24) {
+            const low = bits - 24;
+            this.write(Math.floor(value / 2 ** low), 24);
+            this.write(value % 2 ** low, low);
+            return;
+        }
+        this.ensure(4);
+        this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+        this.accBits += bits;
+        while (this.accBits >= 8) {
+            this.accBits -= 8;
+            this.bytes[this.length++] = (this.acc >>> this.accBits) & 0xff;
+        }
+        this.acc &= (1 << this.accBits) - 1;
+    }
+
+    writeZeros(count: number) {
+        while (count > 0) {
+            const chunk = Math.min(count, 24);
+            this.write(0, chunk);
+            count -= chunk;
+        }
+    }
+
+    writeBytes(bytes: Uint8Array) {
+        this.ensure(bytes.length);
+        this.bytes.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    alignToByte() {
+        if (this.accBits > 0) this.write(0, 8 - this.accBits);
+    }
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        crc ^= bytes[i];
+        for (let b = 0; b < 8; b++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+    return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        crc ^= bytes[i] << 8;
+        for (let b = 0; b < 8; b++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+    return crc;
+}
+
+/** FLAC's UTF-8-style variable length encoding of the frame number. */
+function writeFrameNumber(writer: BitWriter, n: number) {
+    if (n < 0x80) {
+        writer.write(n, 8);
+        return;
+    }
+    const continuation: number[] = [];
+    let value = n;
+    while (value >= 1 << (6 - continuation.length)) {
+        continuation.unshift(0x80 | (value & 0x3f));
+        value >>= 6;
+    }
+    const lead = (0xff00 >> (continuation.length + 1)) & 0xff;
+    writer.write(lead | value, 8);
+    for (const byte of continuation) writer.write(byte, 8);
+}
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+/** Fixed-predictor residuals of order 0–4 (FLAC spec, section "FIXED"). */
+function fixedResidual(samples: Int32Array, order: number): Float64Array {
+    const out = new Float64Array(samples.length - order);
+    for (let i = order; i < samples.length; i++) {
+        const s = samples;
+        let prediction = 0;
+        if (order === 1) prediction = s[i - 1];
+        else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+        else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+        else if (order === 4) prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+        out[i - order] = s[i] - prediction;
+    }
+    return out;
+}
+
+function bestRiceParameter(residual: Float64Array): { parameter: number; bits: number } {
+    // The optimum sits close to log2 of the mean code value, so only its neighbours are costed.
+    let sum = 0;
+    for (let i = 0; i < residual.length; i++) sum += zigzag(residual[i]);
+    const mean = residual.length ? sum / residual.length : 0;
+    const guess = mean > 1 ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean))) : 0;
+
+    let best = { parameter: 0, bits: Infinity };
+    for (let k = Math.max(0, guess - 1); k <= Math.min(MAX_RICE_PARAMETER, guess + 1); k++) {
+        const divisor = 2 ** k;
+        let bits = 0;
+        for (let i = 0; i < residual.length; i++) bits += Math.floor(zigzag(residual[i]) / divisor) + 1 + k;
+        if (bits < best.bits) best = { parameter: k, bits };
+    }
+    return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number) {
+    let best = { order: -1, parameter: 0, bits: samples.length * bitDepth, residual: new Float64Array(0) };
+    for (let order = 0; order <= 4 && order < samples.length; order++) {
+        const residual = fixedResidual(samples, order);
+        const { parameter, bits } = bestRiceParameter(residual);
+        const total = order * bitDepth + 6 + 4 + bits;
+        if (total < best.bits) best = { order, parameter, bits: total, residual };
+    }
+
+    if (best.order < 0) {
+        writer.write(0b00000010, 8); // verbatim
+        for (let i = 0; i < samples.length; i++) writer.write(samples[i], bitDepth);
+        return;
+    }
+
+    writer.write((0b001000 | best.order) << 1, 8); // fixed predictor, no wasted bits
+    for (let i = 0; i < best.order; i++) writer.write(samples[i], bitDepth);
+    writer.write(0, 2); // Rice coding, 4-bit parameters
+    writer.write(0, 4); // partition order 0
+    writer.write(best.parameter, 4);
+    const divisor = 2 ** best.parameter;
+    for (let i = 0; i < best.residual.length; i++) {
+        const u = zigzag(best.residual[i]);
+        writer.writeZeros(Math.floor(u / divisor));
+        writer.write(1, 1);
+        if (best.parameter > 0) writer.write(u % divisor, best.parameter);
+    }
+}
+
+function vorbisComment(metadata: AudioMetadata): Uint8Array {
+    const vendor = textEncoder.encode(metadata.software ?? 'EQ Template Creator');
+    const comments = [`TITLE=${metadata.title}`];
+    if (metadata.software) comments.push(`ENCODER=${metadata.software}`);
+    if (metadata.comment) comments.push(`COMMENT=${metadata.comment}`);
+    const encoded = comments.map(c => textEncoder.encode(c));
+    const out = new Uint8Array(8 + vendor.length + encoded.reduce((sum, c) => sum + 4 + c.length, 0));
+    const view = new DataView(out.buffer);
+    view.setUint32(0, vendor.length, true);
+    out.set(vendor, 4);
+    let offset = 4 + vendor.length;
+    view.setUint32(offset, encoded.length, true);
+    offset += 4;
+    for (const c of encoded) {
+        view.setUint32(offset, c.length, true);
+        out.set(c, offset + 4);
+        offset += 4 + c.length;
+    }
+    return out;
+}
+
+/**
+ * Minimal FLAC encoder: fixed-blocksize frames, independent channels and fixed predictors with a
+ * single Rice partition. Compression is modest but the output is fully standard.
+ */
+export function encodeFlac(channels: Float32Array[], sampleRate: number, bitDepth: BitDepth, metadata: AudioMetadata): Blob {
+    const pcm = quantize(channels, bitDepth);
+    const totalSamples = pcm[0]?.length ?? 0;
+    const writer = new BitWriter();
+
+    writer.writeBytes(textEncoder.encode('fLaC'));
+
+    // STREAMINFO
+    writer.write(0, 1);
+    writer.write(0, 7);
+    writer.write(34, 24);
+    writer.write(FLAC_BLOCK_SIZE, 16);
+    writer.write(FLAC_BLOCK_SIZE, 16);
+    writer.write(0, 24); // min/max frame size unknown
+    writer.write(0, 24);
+    writer.write(sampleRate, 20);
+    writer.write(pcm.length - 1, 3);
+    writer.write(bitDepth - 1, 5);
+    writer.write(totalSamples, 36);
+    writer.writeBytes(new Uint8Array(16)); // MD5 unknown
+
+    const comment = vorbisComment(metadata);
+    writer.write(1, 1);
+    writer.write(4, 7);
+    writer.write(comment.length, 24);
+    writer.writeBytes(comment);
+
+    const sampleSizeCode = bitDepth === 16 ? 0b100 : 0b110;
+    const sampleRateCode = FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0b0000;
+    for (let frame = 0, start = 0; start < totalSamples; frame++, start += FLAC_BLOCK_SIZE) {
+        const blockSize = Math.min(FLAC_BLOCK_SIZE, totalSamples - start);
+        const frameStart = writer.length;
+
+        writer.write(0xfff8, 16); // sync code, fixed block size
+        writer.write(0b0111, 4); // block size in 16 bits after the frame number
+        writer.write(sampleRateCode, 4);
+        writer.write(pcm.length - 1, 4); // independent channels
+        writer.write(sampleSizeCode, 3);
+        writer.write(0, 1);
+        writeFrameNumber(writer, frame);
+        writer.write(blockSize - 1, 16);
+        writer.write(crc8(writer.bytes, frameStart, writer.length), 8);
+
+        for (const channel of pcm) {
+            writeSubframe(writer, channel.subarray(start, start + blockSize), bitDepth);
+        }
+        writer.alignToByte();
+        writer.write(crc16(writer.bytes, frameStart, writer.length), 16);
+    }
+
+    return new Blob([writer.bytes.slice(0, writer.length)], { type: 'audio/flac' });
+}
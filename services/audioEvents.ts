@@ -0,0 +1,234 @@
+import { mixToMono, percentile, powerToDb } from './dsp';
+import { forEachStftFrame } from './spectrogram';
+
+export type AudioEventKind = 'sibilance' | 'plosive' | 'hum' | 'clipping';
+
+export interface AudioEvent {
+    kind: AudioEventKind;
+    startS: number;
+    endS: number;
+    detail: string;
+}
+
+export const AUDIO_EVENT_KINDS: { id: AudioEventKind; label: string; colour: string }[] = [
+    { id: 'sibilance', label: 'Sibilance', colour: '#facc15' },
+    { id: 'plosive', label: 'Plosives', colour: '#f97316' },
+    { id: 'hum', label: 'Mains hum', colour: '#a78bfa' },
+    { id: 'clipping', label: 'Clipping', colour: '#ef4444' },
+];
+
+const FRAME_S = 0.02;
+const HOP_S = 0.01;
+// Runs of flagged frames closer than this are reported as one event.
+const MERGE_GAP_S = 0.05;
+// Only the most pronounced events of each kind are kept, so a noisy file can't flood the view.
+const MAX_EVENTS_PER_KIND = 150;
+
+// An "s" counts as harsh when the 4–10 kHz band dominates the frame and comes within this
+// many dB of the loudest speech frames.
+const SIBILANT_DOMINANCE_DB = -3;
+const SIBILANT_BELOW_PEAK_DB = 8;
+// A plosive thump is a short burst below 120 Hz that outweighs the voice's own 300 Hz–3 kHz energy.
+const PLOSIVE_OVER_MID_DB = 6;
+const PLOSIVE_BELOW_PEAK_DB = 12;
+const PLOSIVE_MAX_S = 0.25;
+
+const HUM_BLOCK_S = 1;
+const HUM_DECIMATED_RATE = 2000;
+const HUM_HARMONICS = 4;
+const HUM_NEIGHBOUR_HZ = 8;
+const HUM_PROMINENCE_DB = 10;
+const HUM_MIN_HARMONICS = 2;
+const HUM_MIN_LEVEL_DBFS = -80;
+
+const CLIP_LEVEL = 0.999;
+const CLIP_RUN = 3;
+
+interface Span {
+    start: number;
+    end: number;
+    /** Larger is worse; used to keep the most pronounced events. */
+    score: number;
+}
+
+/** Joins flagged frames into spans, bridging gaps of up to `maxGap` frames. */
+function flaggedSpans(flags: (number | null)[], maxGap: number): Span[] {
+    const spans: Span[] = [];
+    let current: Span | null = null;
+    flags.forEach((score, i) => {
+        if (score == null) return;
+        if (current && i - current.end <= maxGap + 1) {
+            current.end = i + 1;
+            current.score = Math.max(current.score, score);
+        } else {
+            current = { start: i, end: i + 1, score };
+            spans.push(current);
+        }
+    });
+    return spans;
+}
+
+const strongest = <T extends Span>(spans: T[]) =>
+    [...spans].sort((a, b) => b.score - a.score).slice(0, MAX_EVENTS_PER_KIND).sort((a, b) => a.start - b.start);
+
+const bandSum = (power: Float64Array, binHz: number, low: number, high: number) => {
+    let sum = 0;
+    for (let k = Math.max(1, Math.ceil(low / binHz)); k <= Math.min(power.length - 1, Math.floor(high / binHz)); k++) sum += power[k];
+    return sum;
+};
+
+function detectSibilanceAndPlosives(mono: Float32Array, sampleRate: number): AudioEvent[] {
+    const frameSize = Math.round(FRAME_S * sampleRate);
+    const fftSize = 2 ** Math.ceil(Math.log2(frameSize));
+    const hop = Math.round(HOP_S * sampleRate);
+    const binHz = sampleRate / fftSize;
+    const frames: { total: number; sibilant: number; low: number; mid: number }[] = [];
+    forEachStftFrame(mono, fftSize, hop, (_, power) => {
+        frames.push({
+            total: powerToDb(bandSum(power, binHz, 80, 10000)),
+            sibilant: powerToDb(bandSum(power, binHz, 4000, 10000)),
+            low: powerToDb(bandSum(power, binHz, 20, 120)),
+            mid: powerToDb(bandSum(power, binHz, 300, 3000)),
+        });
+    });
+    if (frames.length === 0) return [];
+
+    const loudDb = percentile(frames.map(f => f.total), 0.95);
+    const hopS = hop / sampleRate;
+    const maxGap = Math.round(MERGE_GAP_S / hopS);
+    const events: AudioEvent[] = [];
+
+    if (sampleRate / 2 > 4000) {
+        const sibilant = frames.map(f =>
+            f.sibilant - f.total > SIBILANT_DOMINANCE_DB && f.sibilant > loudDb - SIBILANT_BELOW_PEAK_DB
+                ? f.sibilant - loudDb
+                : null);
+        for (const span of strongest(flaggedSpans(sibilant, maxGap))) {
+            events.push({
+                kind: 'sibilance',
+                startS: span.start * hopS,
+                endS: span.end * hopS + FRAME_S,
+                detail: `Sibilant burst ${span.score >= 0 ? `${span.score.toFixed(0)} dB above` : `${(-span.score).toFixed(0)} dB below`} the loudest speech.`,
+            });
+        }
+    }
+
+    const plosive = frames.map(f =>
+        f.low - f.mid > PLOSIVE_OVER_MID_DB && f.low > loudDb - PLOSIVE_BELOW_PEAK_DB ? f.low - f.mid : null);
+    for (const span of strongest(flaggedSpans(plosive, maxGap))) {
+        if ((span.end - span.start) * hopS > PLOSIVE_MAX_S) continue;
+        events.push({
+            kind: 'plosive',
+            startS: span.start * hopS,
+            endS: span.end * hopS + FRAME_S,
+            detail: "Low-frequency thump louder than the voice's midrange; a pop filter or a high-pass helps.",
+        });
+    }
+    return events;
+}
+
+/** Power of a single frequency over a block, normalised so a full-scale sine reads 0 dBFS. */
+function goertzelDb(samples: Float32Array, sampleRate: number, frequency: number): number {
+    const coefficient = 2 * Math.cos(2 * Math.PI * frequency / sampleRate);
+    let s1 = 0;
+    let s2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+        // Hann-weighted so neighbouring test frequencies don't leak into each other.
+        const w = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (samples.length - 1));
+        const s0 = samples[i] * w + coefficient * s1 - s2;
+        s2 = s1;
+        s1 = s0;
+    }
+    const power = s1 * s1 + s2 * s2 - coefficient * s1 * s2;
+    return powerToDb(power * 16 / (samples.length * samples.length));
+}
+
+/** Blocks where 50 or 60 Hz and its harmonics stand out as narrow peaks above neighbouring frequencies. */
+function detectHum(mono: Float32Array, sampleRate: number): AudioEvent[] {
+    // Box-filter decimation is crude, but hum harmonics sit far below the new Nyquist frequency.
+    const factor = Math.max(1, Math.floor(sampleRate / HUM_DECIMATED_RATE));
+    const rate = sampleRate / factor;
+    const decimated = new Float32Array(Math.floor(mono.length / factor));
+    for (let i = 0; i < decimated.length; i++) {
+        let sum = 0;
+        for (let j = 0; j < factor; j++) sum += mono[i * factor + j];
+        decimated[i] = sum / factor;
+    }
+
+    const block = Math.round(HUM_BLOCK_S * rate);
+    const blocks: ({ mains: number; levelDb: number } | null)[] = [];
+    for (let start = 0; start + block <= decimated.length; start += block) {
+        const samples = decimated.subarray(start, start + block);
+        let found: { mains: number; levelDb: number } | null = null;
+        for (const mains of [50, 60]) {
+            let prominent = 0;
+            const levelDb = goertzelDb(samples, rate, mains);
+            for (let h = 1; h <= HUM_HARMONICS; h++) {
+                const peak = goertzelDb(samples, rate, mains * h);
+                const neighbours = Math.max(
+                    goertzelDb(samples, rate, mains * h - HUM_NEIGHBOUR_HZ),
+                    goertzelDb(samples, rate, mains * h + HUM_NEIGHBOUR_HZ),
+                );
+                if (peak - neighbours > HUM_PROMINENCE_DB && peak > HUM_MIN_LEVEL_DBFS) prominent++;
+            }
+            if (prominent >= HUM_MIN_HARMONICS && (!found || levelDb > found.levelDb)) found = { mains, levelDb };
+        }
+        blocks.push(found);
+    }
+
+    return flaggedSpans(blocks.map(b => b?.levelDb ?? null), 0).map(span => {
+        const spanBlocks = blocks.slice(span.start, span.end).filter((b): b is NonNullable<typeof b> => !!b);
+        const mains = spanBlocks.filter(b => b.mains === 50).length * 2 >= spanBlocks.length ? 50 : 60;
+        return {
+            kind: 'hum' as const,
+            startS: span.start * HUM_BLOCK_S,
+            endS: span.end * HUM_BLOCK_S,
+            detail: `${mains} Hz mains hum with harmonics, the fundamental reaching ${span.score.toFixed(0)} dBFS; a narrow notch at ${mains} Hz and its multiples removes it.`,
+        };
+    });
+}
+
+function detectClipping(channels: Float32Array[], sampleRate: number): AudioEvent[] {
+    const runs: { start: number; end: number }[] = [];
+    for (const channel of channels) {
+        let runStart = -1;
+        for (let i = 0; i <= channel.length; i++) {
+            if (i < channel.length && Math.abs(channel[i]) >= CLIP_LEVEL) {
+                if (runStart < 0) runStart = i;
+            } else {
+                if (runStart >= 0 && i - runStart >= CLIP_RUN) runs.push({ start: runStart, end: i });
+                runStart = -1;
+            }
+        }
+    }
+    runs.sort((a, b) => a.start - b.start);
+
+    const maxGap = MERGE_GAP_S * sampleRate;
+    const spans: (Span & { runs: number })[] = [];
+    for (const run of runs) {
+        const last = spans[spans.length - 1];
+        if (last && run.start - last.end <= maxGap) {
+            last.end = Math.max(last.end, run.end);
+            last.score += run.end - run.start;
+            last.runs++;
+        } else {
+            spans.push({ ...run, score: run.end - run.start, runs: 1 });
+        }
+    }
+    return strongest(spans).map(span => ({
+        kind: 'clipping' as const,
+        startS: span.start / sampleRate,
+        endS: span.end / sampleRate,
+        detail: `${span.runs} clipped peak${span.runs === 1 ? '' : 's'}, ${span.score} samples at full scale.`,
+    }));
+}
+
+/** Locates sibilant bursts, plosive thumps, mains hum and clipping in a recording, in time order. */
+export function detectAudioEvents(channels: Float32Array[], sampleRate: number): AudioEvent[] {
+    const mono = mixToMono(channels);
+    return [
+        ...detectSibilanceAndPlosives(mono, sampleRate),
+        ...detectHum(mono, sampleRate),
+        ...detectClipping(channels, sampleRate),
+    ].sort((a, b) => a.startS - b.startS);
+}
@@ -0,0 +1,102 @@
+import type { EQSetting, ProcessingChain } from '../types';
+import { audioBufferToChannels, decodeAudioBlob, detectSourceSampleRate, type DecodedAudio } from './audioDecoder';
+import { encodeFlac, encodeWav, type BitDepth } from './audioEncoders';
+import { mixToMono, resample } from './dsp';
+import { createDynamicsChain, createGate, gateEnvelope } from './dynamics';
+import { createEqChain } from './eqFilters';
+
+export type RenderFormat = 'wav16' | 'wav24' | 'flac16' | 'flac24';
+
+export const RENDER_FORMATS: { id: RenderFormat; label: string; extension: string; bitDepth: BitDepth }[] = [
+    { id: 'wav24', label: 'WAV 24-bit', extension: 'wav', bitDepth: 24 },
+    { id: 'wav16', label: 'WAV 16-bit', extension: 'wav', bitDepth: 16 },
+    { id: 'flac24', label: 'FLAC 24-bit', extension: 'flac', bitDepth: 24 },
+    { id: 'flac16', label: 'FLAC 16-bit', extension: 'flac', bitDepth: 16 },
+];
+
+// Boosts can push peaks past full scale; rendered files are pulled back to this ceiling.
+const PEAK_CEILING_DB = -1;
+// Gemini reduces audio input to 16 kHz mono anyway, so a higher rate only makes the upload bigger.
+const SPEECH_UPLOAD_RATE = 16000;
+
+export interface RenderedAudio {
+    blob: Blob;
+    extension: string;
+    sampleRate: number;
+    peakReductionDb: number;
+}
+
+/**
+ * Runs the buffer through the preset's filter chain, and the processing chain around it when one
+ * is given, in an OfflineAudioContext at the buffer's own rate.
+ */
+export async function renderWithEq(buffer: AudioBuffer, settings: EQSetting[], processing: ProcessingChain | null = null): Promise<AudioBuffer> {
+    const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const chain = createEqChain(context, settings);
+    const dynamics = createDynamicsChain(context, processing);
+    if (processing?.gate) {
+        const gate = createGate(context, gateEnvelope(buffer, processing.gate));
+        source.connect(gate.node).connect(chain.input);
+        gate.control.start();
+    } else {
+        source.connect(chain.input);
+    }
+    chain.output.connect(dynamics.input);
+    dynamics.output.connect(context.destination);
+    source.start();
+    return context.startRendering();
+}
+
+/**
+ * Downmixes and resamples a recording to a compact 16 kHz mono 16-bit WAV for sending to an
+ * analysis model. Plain DSP rather than Web Audio, so it also runs outside the browser.
+ */
+export function encodeSpeechUpload({ sampleRate, channels }: DecodedAudio): Blob {
+    const speech = resample(mixToMono(channels), sampleRate, SPEECH_UPLOAD_RATE);
+    return encodeWav([speech], SPEECH_UPLOAD_RATE, 16, { title: 'Voice sample', software: 'EQ Template Creator' });
+}
+
+/**
+ * Decodes the recording at its source sample rate where the container reveals it, applies the
+ * preset and any processing chain, and encodes the result with the preset name in the file metadata.
+ */
+export async function renderProcessedAudio(
+    blob: Blob,
+    settings: EQSetting[],
+    format: RenderFormat,
+    presetName: string,
+    processing: ProcessingChain | null = null,
+): Promise<RenderedAudio> {
+    const { extension, bitDepth } = RENDER_FORMATS.find(f => f.id === format)!;
+    const sourceRate = await detectSourceSampleRate(blob);
+    const decoded = await decodeAudioBlob(blob, sourceRate ?? undefined);
+    const rendered = await renderWithEq(decoded, settings, processing);
+    const channels = audioBufferToChannels(rendered);
+
+    let peak = 0;
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i]));
+    }
+    const ceiling = 10 ** (PEAK_CEILING_DB / 20);
+    let peakReductionDb = 0;
+    if (peak > 1) {
+        const scale = ceiling / peak;
+        for (const channel of channels) {
+            for (let i = 0; i < channel.length; i++) channel[i] *= scale;
+        }
+        peakReductionDb = 20 * Math.log10(scale);
+    }
+
+    const metadata = {
+        title: presetName,
+        software: 'EQ Template Creator',
+        comment: `Processed with EQ preset "${presetName}"`,
+    };
+    const encoded = extension === 'flac'
+        ? encodeFlac(channels, rendered.sampleRate, bitDepth, metadata)
+        : encodeWav(channels, rendered.sampleRate, bitDepth, metadata);
+
+    return { blob: encoded, extension, sampleRate: rendered.sampleRate, peakReductionDb };
+}
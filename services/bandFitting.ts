@@ -0,0 +1,211 @@
+import type { EQSetting, FilterType } from '../types';
+import { biquadCoefficients, biquadMagnitudeDb, eqResponseDb } from './eqFilters';
+import { GRAPHIC_EQ_FREQUENCIES } from './audacityPreset';
+
+export interface DeviceBand {
+    type: FilterType;
+    frequency: number;
+    q: number;
+}
+
+/** A fixed-band EQ: only the gains can be set, within a range and in steps. */
+export interface DeviceProfile {
+    id: string;
+    label: string;
+    bands: DeviceBand[];
+    minGainDb: number;
+    maxGainDb: number;
+    gainStepDb: number;
+}
+
+export interface ResidualPoint {
+    frequency: number;
+    targetDb: number;
+    fittedDb: number;
+    /** Fitted minus target. */
+    errorDb: number;
+}
+
+export interface BandFit {
+    profile: DeviceProfile;
+    settings: EQSetting[];
+    residual: ResidualPoint[];
+    rmsErrorDb: number;
+    maxErrorDb: number;
+}
+
+// Constant-Q bells one octave and one third of an octave wide.
+const OCTAVE_Q = 1.41;
+const THIRD_OCTAVE_Q = 4.32;
+
+const graphicBands = (frequencies: number[], q: number): DeviceBand[] =>
+    frequencies.map(frequency => ({ type: 'peak', frequency, q }));
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+    {
+        id: 'graphic-10',
+        label: '10-band graphic EQ (ISO octaves)',
+        bands: graphicBands([31.5, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000], OCTAVE_Q),
+        minGainDb: -12,
+        maxGainDb: 12,
+        gainStepDb: 0.5,
+    },
+    {
+        id: 'graphic-31',
+        label: '31-band graphic EQ (ISO third-octaves)',
+        bands: graphicBands(GRAPHIC_EQ_FREQUENCIES, THIRD_OCTAVE_Q),
+        minGainDb: -12,
+        maxGainDb: 12,
+        gainStepDb: 0.5,
+    },
+    {
+        id: 'mixer-4',
+        label: 'Mixer channel EQ (4 fixed bands)',
+        bands: [
+            { type: 'lowShelf', frequency: 80, q: 0.71 },
+            { type: 'peak', frequency: 400, q: 1 },
+            { type: 'peak', frequency: 2500, q: 1 },
+            { type: 'highShelf', frequency: 12000, q: 0.71 },
+        ],
+        minGainDb: -15,
+        maxGainDb: 15,
+        gainStepDb: 0.5,
+    },
+    {
+        id: 'tone-3',
+        label: '3-band EQ (low shelf, mid, high shelf)',
+        bands: [
+            { type: 'lowShelf', frequency: 250, q: 0.71 },
+            { type: 'peak', frequency: 1000, q: 0.7 },
+            { type: 'highShelf', frequency: 4000, q: 0.71 },
+        ],
+        minGainDb: -20,
+        maxGainDb: 20,
+        gainStepDb: 0.1,
+    },
+];
+
+export const getDeviceProfile = (id: string) => DEVICE_PROFILES.find(p => p.id === id);
+
+const FIT_POINTS_PER_OCTAVE = 12;
+const GAUSS_NEWTON_ITERATIONS = 12;
+const DERIVATIVE_STEP_DB = 0.05;
+// Keeps the normal equations solvable when neighbouring bands overlap almost completely.
+const DAMPING = 1e-3;
+
+const fitFrequencies = () =>
+    Array.from({ length: 10 * FIT_POINTS_PER_OCTAVE + 1 }, (_, i) => Math.min(20000, 20 * 2 ** (i / FIT_POINTS_PER_OCTAVE)));
+
+/** Solves A·x = b in place by Gaussian elimination with partial pivoting. */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        [b[col], b[pivot]] = [b[pivot], b[col]];
+        if (Math.abs(a[col][col]) < 1e-12) continue;
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+            b[row] -= factor * b[col];
+        }
+    }
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        if (Math.abs(a[row][row]) < 1e-12) continue;
+        let sum = b[row];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+/**
+ * Finds the gains for a fixed-band device whose combined response best matches the target preset,
+ * in the least-squares sense on a twelfth-octave grid. Gains are solved continuously with
+ * Gauss-Newton, then snapped to the device's step and refined one step at a time.
+ * The target is limited to the device's gain range, since deep pass-filter and notch skirts
+ * could never be matched and would otherwise pull every other band off.
+ */
+export function fitToDevice(target: EQSetting[], profile: DeviceProfile, sampleRate = 48000): BandFit {
+    return fitCurveToDevice(f => eqResponseDb(target, f, sampleRate), profile, sampleRate);
+}
+
+/** Like fitToDevice, for a target response given in dB at any frequency. */
+export function fitCurveToDevice(targetDbAt: (frequency: number) => number, profile: DeviceProfile, sampleRate = 48000): BandFit {
+    const frequencies = fitFrequencies();
+    const { bands, minGainDb, maxGainDb, gainStepDb } = profile;
+    const clampGain = (gain: number) => Math.min(maxGainDb, Math.max(minGainDb, gain));
+    const targetDb = frequencies.map(f => clampGain(targetDbAt(f)));
+
+    const bandResponse = (index: number, gain: number) => {
+        const c = biquadCoefficients({ ...bands[index], gain }, sampleRate);
+        return frequencies.map(f => biquadMagnitudeDb(c, f, sampleRate));
+    };
+    const sumResponses = (responses: number[][]) =>
+        frequencies.map((_, k) => responses.reduce((sum, r) => sum + r[k], 0));
+
+    let gains = bands.map(() => 0);
+    for (let iteration = 0; iteration < GAUSS_NEWTON_ITERATIONS; iteration++) {
+        const fitted = sumResponses(gains.map((gain, i) => bandResponse(i, gain)));
+        const residual = targetDb.map((t, k) => t - fitted[k]);
+        const jacobian = gains.map((gain, i) => {
+            const above = bandResponse(i, gain + DERIVATIVE_STEP_DB);
+            const below = bandResponse(i, gain - DERIVATIVE_STEP_DB);
+            return above.map((v, k) => (v - below[k]) / (2 * DERIVATIVE_STEP_DB));
+        });
+
+        const normal = jacobian.map(ji => jacobian.map(jj => ji.reduce((sum, v, k) => sum + v * jj[k], 0)));
+        const trace = normal.reduce((sum, row, i) => sum + row[i], 0);
+        normal.forEach((row, i) => { row[i] += DAMPING * trace / bands.length; });
+        const delta = solveLinearSystem(normal, jacobian.map(ji => ji.reduce((sum, v, k) => sum + v * residual[k], 0)));
+
+        gains = gains.map((gain, i) => clampGain(gain + delta[i]));
+        if (Math.max(...delta.map(Math.abs)) < 0.01) break;
+    }
+
+    const snap = (gain: number) => clampGain(Math.round(gain / gainStepDb) * gainStepDb);
+    gains = gains.map(snap);
+    const responses = gains.map((gain, i) => bandResponse(i, gain));
+    let fitted = sumResponses(responses);
+    const squaredError = (values: number[]) => values.reduce((sum, v, k) => sum + (v - targetDb[k]) ** 2, 0);
+
+    // Rounding to the step can leave a neighbouring step closer; nudge bands until nothing improves.
+    let error = squaredError(fitted);
+    for (let improved = true, pass = 0; improved && pass < 20; pass++) {
+        improved = false;
+        for (let i = 0; i < bands.length; i++) {
+            for (const direction of [-1, 1]) {
+                const gain = snap(gains[i] + direction * gainStepDb);
+                if (gain === gains[i]) continue;
+                const response = bandResponse(i, gain);
+                const candidate = fitted.map((v, k) => v - responses[i][k] + response[k]);
+                const candidateError = squaredError(candidate);
+                if (candidateError < error - 1e-9) {
+                    gains[i] = gain;
+                    responses[i] = response;
+                    fitted = candidate;
+                    error = candidateError;
+                    improved = true;
+                }
+            }
+        }
+    }
+
+    const residual = frequencies.map((frequency, k) => ({
+        frequency,
+        targetDb: targetDb[k],
+        fittedDb: fitted[k],
+        errorDb: fitted[k] - targetDb[k],
+    }));
+    return {
+        profile,
+        settings: bands.map((band, i) => ({ ...band, gain: Number(gains[i].toFixed(2)) || 0 })),
+        residual,
+        rmsErrorDb: Math.sqrt(error / frequencies.length),
+        maxErrorDb: Math.max(...residual.map(p => Math.abs(p.errorDb))),
+    };
+}
@@ -0,0 +1,14 @@
+/** Base64 of raw bytes. Chunked so large recordings don't overflow the argument limit of fromCharCode. */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/** Base64 of a blob's bytes, without FileReader so it also works outside the browser. */
+export const blobToBase64 = async (blob: Blob): Promise<string> => bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+
+export const base64ToBlob = (base64: string, mimeType: string) =>
+    new Blob([Uint8Array.from(atob(base64), c => c.charCodeAt(0))], { type: mimeType });
@@ -0,0 +1,63 @@
+import type { LoudnessReport } from './loudness';
+
+export type DeliveryStandardId = 'acx' | 'podcast' | 'streaming' | 'ebu-r128' | 'atsc-a85';
+
+export interface DeliveryStandard {
+    id: DeliveryStandardId;
+    label: string;
+    integratedLufs?: [number, number];
+    rmsDbfs?: [number, number];
+    maxTruePeakDbtp?: number;
+    maxSamplePeakDbfs?: number;
+    maxNoiseFloorDbfs?: number;
+}
+
+export const DELIVERY_STANDARDS: DeliveryStandard[] = [
+    { id: 'acx', label: 'ACX audiobook', rmsDbfs: [-23, -18], maxSamplePeakDbfs: -3, maxNoiseFloorDbfs: -60 },
+    { id: 'podcast', label: 'Podcast platforms (-16 LUFS)', integratedLufs: [-17, -15], maxTruePeakDbtp: -1 },
+    { id: 'streaming', label: 'Music and video streaming (-14 LUFS)', integratedLufs: [-15, -13], maxTruePeakDbtp: -1 },
+    { id: 'ebu-r128', label: 'EBU R128 broadcast', integratedLufs: [-23.5, -22.5], maxTruePeakDbtp: -1 },
+    { id: 'atsc-a85', label: 'ATSC A/85 broadcast (US)', integratedLufs: [-26, -22], maxTruePeakDbtp: -2 },
+];
+
+export const getDeliveryStandard = (id: DeliveryStandardId) => DELIVERY_STANDARDS.find(s => s.id === id)!;
+
+export interface Requirement {
+    metric: keyof LoudnessReport;
+    /** Human-readable limit, e.g. "≤ -1 dBTP". */
+    label: string;
+    /** A missing measurement fails. */
+    test: (value: number | null) => boolean;
+}
+
+export interface ComplianceCheck {
+    metric: keyof LoudnessReport;
+    requirement: string;
+    pass: boolean;
+}
+
+const between = (metric: keyof LoudnessReport, [min, max]: [number, number], unit: string): Requirement => ({
+    metric,
+    label: `${min} to ${max} ${unit}`,
+    test: value => value != null && value >= min && value <= max,
+});
+
+const atMost = (metric: keyof LoudnessReport, max: number, unit: string): Requirement => ({
+    metric,
+    label: `≤ ${max} ${unit}`,
+    test: value => value != null && value <= max,
+});
+
+/** The standard's limits in the order loudness, peak, noise. */
+export function requirements(standard: DeliveryStandard): Requirement[] {
+    return [
+        standard.integratedLufs && between('integratedLufs', standard.integratedLufs, 'LUFS'),
+        standard.rmsDbfs && between('rmsDbfs', standard.rmsDbfs, 'dBFS'),
+        standard.maxTruePeakDbtp != null && atMost('truePeakDbtp', standard.maxTruePeakDbtp, 'dBTP'),
+        standard.maxSamplePeakDbfs != null && atMost('samplePeakDbfs', standard.maxSamplePeakDbfs, 'dBFS'),
+        standard.maxNoiseFloorDbfs != null && atMost('noiseFloorDbfs', standard.maxNoiseFloorDbfs, 'dBFS RMS'),
+    ].filter((r): r is Requirement => !!r);
+}
+
+export const checkCompliance = (report: LoudnessReport, standard: DeliveryStandard): ComplianceCheck[] =>
+    requirements(standard).map(r => ({ metric: r.metric, requirement: r.label, pass: r.test(report[r.metric]) }));
@@ -0,0 +1,140 @@
+// Small, dependency-free DSP helpers shared by the analysis and rendering code.
+
+export function nextPowerOfTwo(n: number): number {
+    let size = 1;
+    while (size < n) size <<= 1;
+    return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ * The inverse transform is scaled by 1/N.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        const half = len >> 1;
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < half; k++) {
+                const aRe = re[i + k];
+                const aIm = im[i + k];
+                const bRe = re[i + k + half] * curRe - im[i + k + half] * curIm;
+                const bIm = re[i + k + half] * curIm + im[i + k + half] * curRe;
+                re[i + k] = aRe + bRe;
+                im[i + k] = aIm + bIm;
+                re[i + k + half] = aRe - bRe;
+                im[i + k + half] = aIm - bIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+
+    if (inverse) {
+        for (let i = 0; i < n; i++) {
+            re[i] /= n;
+            im[i] /= n;
+        }
+    }
+}
+
+export function hannWindow(size: number): Float64Array {
+    const window = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    }
+    return window;
+}
+
+export function mixToMono(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) return channels[0];
+    const length = Math.min(...channels.map(c => c.length));
+    const mono = new Float32Array(length);
+    for (const channel of channels) {
+        for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+    }
+    return mono;
+}
+
+// Zero crossings of the resampler's windowed sinc on each side of its centre.
+const RESAMPLE_ZEROS = 16;
+// Up to this many distinct output phases, the filter taps are worked out once per phase.
+const MAX_RESAMPLE_PHASES = 4096;
+
+const gcd = (a: number, b: number): number => b ? gcd(b, a % b) : a;
+
+/** Taps of a Hann-windowed sinc centred `offset` input samples after the first input sample at or before it. */
+function resampleTaps(offset: number, cutoff: number): { first: number; weights: Float64Array } {
+    const reach = RESAMPLE_ZEROS / cutoff;
+    const first = Math.ceil(offset - reach);
+    const weights = new Float64Array(Math.floor(offset + reach) - first + 1);
+    for (let k = 0; k < weights.length; k++) {
+        const x = (first + k - offset) * cutoff;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        weights[k] = cutoff * sinc * (0.5 + 0.5 * Math.cos((Math.PI * x) / RESAMPLE_ZEROS));
+    }
+    return { first, weights };
+}
+
+/**
+ * Band-limited resampling with a Hann-windowed sinc, cutting off just below the lower of the two
+ * Nyquist frequencies so downsampling does not alias.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) return samples.slice();
+    const step = fromRate / toRate;
+    // Cutoff relative to the input's Nyquist frequency.
+    const cutoff = 0.95 * Math.min(1, toRate / fromRate);
+    // Output i sits at the same fraction between input samples as output i + phases.
+    const phases = Number.isInteger(fromRate) && Number.isInteger(toRate) ? toRate / gcd(fromRate, toRate) : Infinity;
+    const cache = phases <= MAX_RESAMPLE_PHASES ? new Map<number, ReturnType<typeof resampleTaps>>() : null;
+    const output = new Float32Array(Math.max(1, Math.round(samples.length / step)));
+    for (let i = 0; i < output.length; i++) {
+        const centre = i * step;
+        const base = Math.floor(centre);
+        const phase = i % phases;
+        let taps = cache?.get(phase);
+        if (!taps) {
+            taps = resampleTaps(centre - base, cutoff);
+            cache?.set(phase, taps);
+        }
+        const { first, weights } = taps;
+        const from = Math.max(0, -(base + first));
+        const to = Math.min(weights.length, samples.length - base - first);
+        let sum = 0;
+        for (let k = from; k < to; k++) sum += samples[base + first + k] * weights[k];
+        output[i] = sum;
+    }
+    return output;
+}
+
+export function powerToDb(power: number, floorDb = -120): number {
+    return power > 0 ? Math.max(floorDb, 10 * Math.log10(power)) : floorDb;
+}
+
+/** Linear-interpolated percentile (p in 0..1) of an unsorted list. */
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * p;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
@@ -0,0 +1,192 @@
+import type { GateSettings, ProcessingChain } from '../types';
+
+export type ChainStage = keyof ProcessingChain;
+
+export const CHAIN_STAGES: { id: ChainStage; label: string }[] = [
+    { id: 'gate', label: 'Noise gate' },
+    { id: 'deEsser', label: 'De-esser' },
+    { id: 'compressor', label: 'Compressor' },
+    { id: 'limiter', label: 'Limiter' },
+];
+
+export const chainStages = (chain: ProcessingChain | null | undefined): ChainStage[] =>
+    CHAIN_STAGES.map(s => s.id).filter(id => chain?.[id]);
+
+const formatMs = (ms: number) => ms >= 100 ? `${Math.round(ms)} ms` : `${Number(ms.toFixed(1))} ms`;
+
+const formatHz = (hz: number) => hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`;
+
+/** One-line parameter summary of a stage, e.g. "3:1 above -18.0 dB, attack 10 ms, release 120 ms". */
+export function stageSummary(chain: ProcessingChain, stage: ChainStage): string {
+    switch (stage) {
+        case 'gate':
+            return `Threshold ${chain.gate!.thresholdDb.toFixed(1)} dBFS`;
+        case 'deEsser':
+            return `${formatHz(chain.deEsser!.frequency)}, threshold ${chain.deEsser!.thresholdDb.toFixed(1)} dB`;
+        case 'compressor': {
+            const { thresholdDb, ratio, attackMs, releaseMs } = chain.compressor!;
+            return `${Number(ratio.toFixed(1))}:1 above ${thresholdDb.toFixed(1)} dB, attack ${formatMs(attackMs)}, release ${formatMs(releaseMs)}`;
+        }
+        case 'limiter':
+            return `Ceiling ${chain.limiter!.ceilingDb.toFixed(1)} dBFS`;
+    }
+}
+
+// Parameters the recommendation leaves out, shared by the preview and the exporters.
+export const GATE_RANGE_DB = -30;
+export const GATE_ATTACK_MS = 2;
+export const GATE_HOLD_MS = 80;
+export const GATE_RELEASE_MS = 120;
+export const DE_ESSER_RATIO = 6;
+export const COMPRESSOR_KNEE_DB = 6;
+export const LIMITER_RELEASE_MS = 50;
+
+const GATE_WINDOW_S = 0.01;
+// The gate gain is precomputed at a low rate and played back in sync with the recording.
+const ENVELOPE_RATE = 4000;
+const LIMITER_RATIO = 20;
+// Web Audio compressors delay their output by a fixed 6 ms lookahead.
+const COMPRESSOR_LOOKAHEAD_S = 0.006;
+
+export interface DynamicsChain {
+    input: AudioNode;
+    output: AudioNode;
+}
+
+export interface GateNode {
+    node: GainNode;
+    /** Drives the gain; start it at the same time and offset, and with the same loop, as the recording. */
+    control: AudioBufferSourceNode;
+}
+
+/**
+ * Gain of a noise gate over the whole recording: open while the 10 ms RMS level of the loudest
+ * channel is above the threshold, held open briefly, and opened one window early so onsets are
+ * not clipped. Returns a mono buffer of linear gains at ENVELOPE_RATE.
+ */
+export function gateEnvelope(buffer: AudioBuffer, gate: GateSettings): AudioBuffer {
+    const windowSize = Math.max(1, Math.round(buffer.sampleRate * GATE_WINDOW_S));
+    const blocks = Math.ceil(buffer.length / windowSize);
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const threshold = 10 ** (gate.thresholdDb / 10);
+    const holdBlocks = Math.round(GATE_HOLD_MS / 1000 / GATE_WINDOW_S);
+
+    const open = new Uint8Array(blocks);
+    let hold = 0;
+    for (let b = 0; b < blocks; b++) {
+        const start = b * windowSize;
+        const end = Math.min(buffer.length, start + windowSize);
+        let power = 0;
+        for (const channel of channels) {
+            let sum = 0;
+            for (let i = start; i < end; i++) sum += channel[i] * channel[i];
+            power = Math.max(power, sum / (end - start));
+        }
+        hold = power >= threshold ? holdBlocks : hold - 1;
+        if (hold >= 0) {
+            open[b] = 1;
+            if (b > 0) open[b - 1] = 1;
+        }
+    }
+
+    const length = Math.max(1, Math.ceil(buffer.duration * ENVELOPE_RATE));
+    const envelope = new AudioBuffer({ length, sampleRate: ENVELOPE_RATE, numberOfChannels: 1 });
+    const gains = envelope.getChannelData(0);
+    const closed = 10 ** (GATE_RANGE_DB / 20);
+    const attack = 1 - Math.exp(-1000 / (GATE_ATTACK_MS * ENVELOPE_RATE));
+    const release = 1 - Math.exp(-1000 / (GATE_RELEASE_MS * ENVELOPE_RATE));
+    let gain = closed;
+    for (let i = 0; i < length; i++) {
+        const block = Math.min(blocks - 1, Math.floor(i / ENVELOPE_RATE / GATE_WINDOW_S));
+        const target = open[block] ? 1 : closed;
+        gain += (target - gain) * (target > gain ? attack : release);
+        gains[i] = gain;
+    }
+    return envelope;
+}
+
+export function createGate(context: BaseAudioContext, envelope: AudioBuffer): GateNode {
+    const node = context.createGain();
+    node.gain.value = 0;
+    const control = context.createBufferSource();
+    control.buffer = envelope;
+    control.connect(node.gain);
+    return { node, control };
+}
+
+/** Make-up gain a Web Audio compressor adds by itself; the chain undoes it so settings match the exports. */
+const autoMakeupDb = (thresholdDb: number, ratio: number) => -0.6 * thresholdDb * (1 - 1 / ratio);
+
+function createCompressor(
+    context: BaseAudioContext,
+    thresholdDb: number,
+    ratio: number,
+    kneeDb: number,
+    attackS: number,
+    releaseS: number,
+): DynamicsChain {
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.value = thresholdDb;
+    compressor.ratio.value = ratio;
+    compressor.knee.value = kneeDb;
+    compressor.attack.value = attackS;
+    compressor.release.value = releaseS;
+    const trim = context.createGain();
+    trim.gain.value = 10 ** (-autoMakeupDb(thresholdDb, ratio) / 20);
+    compressor.connect(trim);
+    return { input: compressor, output: trim };
+}
+
+function butterworth(context: BaseAudioContext, type: BiquadFilterType, frequency: number): BiquadFilterNode {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = Math.SQRT1_2;
+    return filter;
+}
+
+/**
+ * Split-band de-esser: a Linkwitz-Riley crossover at the de-esser frequency, with only the upper
+ * band compressed. The lower band is delayed to stay aligned with the compressor's lookahead.
+ */
+function createDeEsser(context: BaseAudioContext, frequency: number, thresholdDb: number): DynamicsChain {
+    const input = context.createGain();
+    const output = context.createGain();
+    const delay = context.createDelay();
+    delay.delayTime.value = COMPRESSOR_LOOKAHEAD_S;
+    input
+        .connect(butterworth(context, 'lowpass', frequency))
+        .connect(butterworth(context, 'lowpass', frequency))
+        .connect(delay)
+        .connect(output);
+    const compressor = createCompressor(context, thresholdDb, DE_ESSER_RATIO, 0, 0.002, 0.06);
+    input
+        .connect(butterworth(context, 'highpass', frequency))
+        .connect(butterworth(context, 'highpass', frequency))
+        .connect(compressor.input);
+    compressor.output.connect(output);
+    return { input, output };
+}
+
+/**
+ * De-esser, compressor and limiter, the stages that follow the EQ. The gate comes before the EQ
+ * and is built separately with createGate. The limiter is a fast, hard compressor, so brief
+ * overshoots of the ceiling are possible.
+ */
+export function createDynamicsChain(context: BaseAudioContext, chain: ProcessingChain | null | undefined): DynamicsChain {
+    const input = context.createGain();
+    let tail: AudioNode = input;
+    const append = (stage: DynamicsChain) => {
+        tail.connect(stage.input);
+        tail = stage.output;
+    };
+    if (chain?.deEsser) append(createDeEsser(context, chain.deEsser.frequency, chain.deEsser.thresholdDb));
+    if (chain?.compressor) {
+        const { thresholdDb, ratio, attackMs, releaseMs } = chain.compressor;
+        append(createCompressor(context, thresholdDb, ratio, COMPRESSOR_KNEE_DB, attackMs / 1000, releaseMs / 1000));
+    }
+    if (chain?.limiter) {
+        append(createCompressor(context, chain.limiter.ceilingDb, LIMITER_RATIO, 0, 0.001, LIMITER_RELEASE_MS / 1000));
+    }
+    return { input, output: tail };
+}
@@ -0,0 +1,175 @@
+import type { EQSetting, FilterType, SpectrumPoint } from '../types';
+
+// Bandwidth of roughly one octave, which suits the ~10-band presets the model produces.
+export const GRAPHIC_EQ_Q = 1.41;
+
+export const FILTER_TYPES: { id: FilterType; label: string; defaultQ: number }[] = [
+    { id: 'peak', label: 'Peak', defaultQ: GRAPHIC_EQ_Q },
+    { id: 'lowShelf', label: 'Low shelf', defaultQ: 0.71 },
+    { id: 'highShelf', label: 'High shelf', defaultQ: 0.71 },
+    { id: 'highPass', label: 'High-pass', defaultQ: 0.71 },
+    { id: 'lowPass', label: 'Low-pass', defaultQ: 0.71 },
+    { id: 'notch', label: 'Notch', defaultQ: 8 },
+];
+
+export const isFilterType = (value: unknown): value is FilterType => FILTER_TYPES.some(t => t.id === value);
+
+export const defaultQ = (type: FilterType) => FILTER_TYPES.find(t => t.id === type)!.defaultQ;
+
+/** Pass and notch filters have no gain control; their `gain` is ignored everywhere. */
+export const hasGain = (type: FilterType) => type === 'peak' || type === 'lowShelf' || type === 'highShelf';
+
+export interface BiquadCoefficients {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/** RBJ Audio EQ Cookbook coefficients for one band, normalised so a0 = 1. */
+export function biquadCoefficients(band: EQSetting, sampleRate: number): BiquadCoefficients {
+    const a = 10 ** ((hasGain(band.type) ? band.gain : 0) / 40);
+    const w0 = (2 * Math.PI * Math.min(band.frequency, sampleRate / 2 - 1)) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * band.q);
+    const cos = Math.cos(w0);
+    const shelf = 2 * Math.sqrt(a) * alpha;
+
+    let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+    switch (band.type) {
+        case 'lowShelf':
+            b0 = a * ((a + 1) - (a - 1) * cos + shelf);
+            b1 = 2 * a * ((a - 1) - (a + 1) * cos);
+            b2 = a * ((a + 1) - (a - 1) * cos - shelf);
+            a0 = (a + 1) + (a - 1) * cos + shelf;
+            a1 = -2 * ((a - 1) + (a + 1) * cos);
+            a2 = (a + 1) + (a - 1) * cos - shelf;
+            break;
+        case 'highShelf':
+            b0 = a * ((a + 1) + (a - 1) * cos + shelf);
+            b1 = -2 * a * ((a - 1) + (a + 1) * cos);
+            b2 = a * ((a + 1) + (a - 1) * cos - shelf);
+            a0 = (a + 1) - (a - 1) * cos + shelf;
+            a1 = 2 * ((a - 1) - (a + 1) * cos);
+            a2 = (a + 1) - (a - 1) * cos - shelf;
+            break;
+        case 'highPass':
+            b0 = (1 + cos) / 2;
+            b1 = -(1 + cos);
+            b2 = (1 + cos) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cos;
+            a2 = 1 - alpha;
+            break;
+        case 'lowPass':
+            b0 = (1 - cos) / 2;
+            b1 = 1 - cos;
+            b2 = (1 - cos) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cos;
+            a2 = 1 - alpha;
+            break;
+        case 'notch':
+            b0 = 1;
+            b1 = -2 * cos;
+            b2 = 1;
+            a0 = 1 + alpha;
+            a1 = -2 * cos;
+            a2 = 1 - alpha;
+            break;
+        case 'peak':
+        default:
+            b0 = 1 + alpha * a;
+            b1 = -2 * cos;
+            b2 = 1 - alpha * a;
+            a0 = 1 + alpha / a;
+            a1 = -2 * cos;
+            a2 = 1 - alpha / a;
+            break;
+    }
+    return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+export function biquadMagnitudeDb(c: BiquadCoefficients, frequency: number, sampleRate: number): number {
+    const w = (2 * Math.PI * frequency) / sampleRate;
+    const cos1 = Math.cos(w);
+    const sin1 = Math.sin(w);
+    const cos2 = Math.cos(2 * w);
+    const sin2 = Math.sin(2 * w);
+    const numRe = c.b0 + c.b1 * cos1 + c.b2 * cos2;
+    const numIm = -(c.b1 * sin1 + c.b2 * sin2);
+    const denRe = 1 + c.a1 * cos1 + c.a2 * cos2;
+    const denIm = -(c.a1 * sin1 + c.a2 * sin2);
+    return 10 * Math.log10((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+}
+
+/** Combined magnitude response of the whole preset at one frequency, in dB. */
+export function eqResponseDb(settings: EQSetting[], frequency: number, sampleRate = 48000): number {
+    return settings.reduce((sum, band) => sum + biquadMagnitudeDb(biquadCoefficients(band, sampleRate), frequency, sampleRate), 0);
+}
+
+/**
+ * Gain (dB) that brings the EQ'd signal back to the loudness of the original, estimated by weighting
+ * the EQ response with the recording's spectrum. Without a spectrum, a flat 100 Hz–8 kHz weighting is used.
+ */
+export function levelMatchGainDb(settings: EQSetting[], spectrum: SpectrumPoint[] | null, sampleRate = 48000): number {
+    const weights = spectrum && spectrum.length
+        ? spectrum.map(p => ({ frequency: p.frequency, power: 10 ** (p.level / 10) }))
+        : Array.from({ length: 37 }, (_, i) => ({ frequency: 100 * 2 ** (i / 6), power: 1 }));
+
+    let before = 0;
+    let after = 0;
+    for (const { frequency, power } of weights) {
+        if (frequency >= sampleRate / 2) continue;
+        before += power;
+        after += power * 10 ** (eqResponseDb(settings, frequency, sampleRate) / 10);
+    }
+    return before > 0 && after > 0 ? -10 * Math.log10(after / before) : 0;
+}
+
+export interface EqChain {
+    input: AudioNode;
+    output: AudioNode;
+}
+
+/**
+ * Builds a series chain of Web Audio filters for the preset. IIRFilterNodes are fed the same
+ * cookbook coefficients used for the charts, because BiquadFilterNode ignores Q on shelves and
+ * treats it as dB on pass filters. An empty preset yields a pass-through node.
+ */
+export function createEqChain(context: BaseAudioContext, settings: EQSetting[]): EqChain {
+    if (settings.length === 0) {
+        const passThrough = context.createGain();
+        return { input: passThrough, output: passThrough };
+    }
+    const filters = settings.map(band => {
+        const c = biquadCoefficients(band, context.sampleRate);
+        return context.createIIRFilter([c.b0, c.b1, c.b2], [1, c.a1, c.a2]);
+    });
+    for (let i = 1; i < filters.length; i++) filters[i - 1].connect(filters[i]);
+    return { input: filters[0], output: filters[filters.length - 1] };
+}
+
+/** Largest boost of the combined response between 20 Hz and 20 kHz, used to set preamp headroom. */
+export function peakResponseDb(settings: EQSetting[], sampleRate = 48000): number {
+    let peak = -Infinity;
+    for (let i = 0; i <= 240; i++) {
+        const frequency = 20 * 1000 ** (i / 240);
+        peak = Math.max(peak, eqResponseDb(settings, frequency, sampleRate));
+    }
+    return peak;
+}
+
+export const sortBands = (settings: EQSetting[]) => [...settings].sort((a, b) => a.frequency - b.frequency);
+
+/**
+ * At most `max` bands, sorted by frequency. Pass and notch filters are kept first, then the bands
+ * with the largest gain, since dropping those changes the sound the most.
+ */
+export function strongestBands(settings: EQSetting[], max: number): EQSetting[] {
+    const effect = (band: EQSetting) => (hasGain(band.type) ? Math.abs(band.gain) : Infinity);
+    return sortBands([...settings].sort((a, b) => effect(b) - effect(a)).slice(0, max));
+}
+
+/** Bandwidth in octaves equivalent to a Q value, for hosts that specify bell width that way. */
+export const qToOctaves = (q: number) => (2 / Math.LN2) * Math.asinh(1 / (2 * q));
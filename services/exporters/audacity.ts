@@ -0,0 +1,19 @@
+import { AUDACITY_FORMATS, buildAudacityMacro, buildAudacityPreset } from '../audacityPreset';
+import type { PresetExporter } from './registry';
+
+export const audacityExporters: PresetExporter[] = AUDACITY_FORMATS.map(({ id, label, extension }) => ({
+    id: `audacity-${id}`,
+    label: `Audacity: ${label}`,
+    extension,
+    mimeType: extension === 'xml' ? 'application/xml' : 'text/plain',
+    build: (settings, { name }) => buildAudacityPreset(id, settings, name),
+}));
+
+export const audacityMacroExporter: PresetExporter = {
+    id: 'audacity-macro',
+    label: 'Audacity: macro with EQ and dynamics (Audacity 3.7+)',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    chainStages: ['gate', 'compressor', 'limiter'],
+    build: (settings, { processingChain }) => buildAudacityMacro(settings, processingChain),
+};
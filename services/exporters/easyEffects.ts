@@ -0,0 +1,156 @@
+import type { FilterType, ProcessingChain } from '../../types';
+import { COMPRESSOR_KNEE_DB, DE_ESSER_RATIO, GATE_ATTACK_MS, GATE_HOLD_MS, GATE_RANGE_DB, GATE_RELEASE_MS, LIMITER_RELEASE_MS } from '../dynamics';
+import { hasGain, qToOctaves, sortBands } from '../eqFilters';
+import type { PresetExporter } from './registry';
+
+// LSP equalizer filter names, shared by EasyEffects and PulseEffects.
+const LSP_TYPES: Record<FilterType, string> = {
+    peak: 'Bell',
+    lowShelf: 'Lo-shelf',
+    highShelf: 'Hi-shelf',
+    highPass: 'Hi-pass',
+    lowPass: 'Lo-pass',
+    notch: 'Notch',
+};
+
+const levels = { bypass: false, 'input-gain': 0.0, 'output-gain': 0.0 };
+
+/** EasyEffects 7 plugin instances for the dynamics stages, keyed by the position they take around the equalizer. */
+function easyEffectsDynamics(chain: ProcessingChain): { before: Record<string, object>; after: Record<string, object> } {
+    const before: Record<string, object> = {};
+    const after: Record<string, object> = {};
+    if (chain.gate) {
+        before['gate#0'] = {
+            ...levels,
+            attack: GATE_ATTACK_MS,
+            'curve-threshold': chain.gate.thresholdDb,
+            hold: GATE_HOLD_MS,
+            makeup: 0.0,
+            reduction: GATE_RANGE_DB,
+            release: GATE_RELEASE_MS,
+        };
+    }
+    if (chain.deEsser) {
+        after['deesser#0'] = {
+            ...levels,
+            detection: 'RMS',
+            'f1-freq': chain.deEsser.frequency,
+            'f2-freq': chain.deEsser.frequency,
+            laxity: 15,
+            makeup: 0.0,
+            mode: 'Wide',
+            ratio: DE_ESSER_RATIO,
+            'sc-listen': false,
+            threshold: chain.deEsser.thresholdDb,
+        };
+    }
+    if (chain.compressor) {
+        after['compressor#0'] = {
+            ...levels,
+            attack: chain.compressor.attackMs,
+            knee: -COMPRESSOR_KNEE_DB,
+            makeup: 0.0,
+            mode: 'Downward',
+            ratio: chain.compressor.ratio,
+            release: chain.compressor.releaseMs,
+            threshold: chain.compressor.thresholdDb,
+        };
+    }
+    if (chain.limiter) {
+        after['limiter#0'] = {
+            ...levels,
+            attack: 5.0,
+            mode: 'Herm Thin',
+            release: LIMITER_RELEASE_MS,
+            threshold: chain.limiter.ceilingDb,
+        };
+    }
+    return { before, after };
+}
+
+/** EasyEffects 7 input (microphone) preset: an IIR equalizer with any gate before it and de-esser, compressor and limiter after it. */
+export const easyEffectsExporter: PresetExporter = {
+    id: 'easyeffects',
+    label: 'EasyEffects: input preset (JSON)',
+    extension: 'json',
+    mimeType: 'application/json',
+    chainStages: ['gate', 'deEsser', 'compressor', 'limiter'],
+    build: (settings, { processingChain }) => {
+        const bands: Record<string, object> = {};
+        sortBands(settings).forEach(({ type, frequency, gain, q }, i) => {
+            bands[`band${i}`] = {
+                frequency,
+                gain: hasGain(type) ? gain : 0,
+                mode: 'RLC (BT)',
+                mute: false,
+                q,
+                slope: 'x1',
+                solo: false,
+                type: LSP_TYPES[type],
+                width: Number(qToOctaves(q).toFixed(3)),
+            };
+        });
+        const { before, after } = easyEffectsDynamics(processingChain ?? {});
+        const preset = {
+            input: {
+                blocklist: [],
+                ...before,
+                'equalizer#0': {
+                    balance: 0.0,
+                    bypass: false,
+                    'input-gain': 0.0,
+                    left: bands,
+                    mode: 'IIR',
+                    'num-bands': settings.length,
+                    'output-gain': 0.0,
+                    'pitch-left': 0.0,
+                    'pitch-right': 0.0,
+                    right: bands,
+                    'split-channels': false,
+                },
+                ...after,
+                plugins_order: [...Object.keys(before), 'equalizer#0', ...Object.keys(after)],
+            },
+        };
+        return JSON.stringify(preset, null, 4) + '\n';
+    },
+};
+
+/** Legacy PulseEffects input preset, which stores every value as a string. */
+export const pulseEffectsExporter: PresetExporter = {
+    id: 'pulseeffects',
+    label: 'PulseEffects: input preset (JSON)',
+    extension: 'json',
+    mimeType: 'application/json',
+    build: settings => {
+        const bands: Record<string, object> = {};
+        sortBands(settings).forEach(({ type, frequency, gain, q }, i) => {
+            bands[`band${i}`] = {
+                gain: String(hasGain(type) ? gain : 0),
+                frequency: String(frequency),
+                q: String(q),
+                type: LSP_TYPES[type],
+                mode: 'RLC (BT)',
+                slope: 'x1',
+                solo: 'false',
+                mute: 'false',
+            };
+        });
+        const preset = {
+            input: {
+                plugins_order: ['equalizer'],
+                equalizer: {
+                    state: 'true',
+                    mode: 'IIR',
+                    'num-bands': String(settings.length),
+                    'input-gain': '0',
+                    'output-gain': '0',
+                    'split-channels': 'false',
+                    left: bands,
+                    right: bands,
+                },
+            },
+        };
+        return JSON.stringify(preset, null, 4) + '\n';
+    },
+};
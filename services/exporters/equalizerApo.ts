@@ -0,0 +1,65 @@
+import type { EQSetting } from '../../types';
+import { eqResponseDb, peakResponseDb, sortBands } from '../eqFilters';
+import type { PresetExporter } from './registry';
+
+const GRAPHIC_EQ_POINTS = 64;
+const GRAPHIC_EQ_FLOOR_DB = -60;
+
+const formatDb = (db: number) => (Math.round(db * 10) / 10 || 0).toFixed(1);
+const comment = (name: string) => `# ${name.replace(/\s+/g, ' ')}`;
+
+const preampLine = (db: number) => `Preamp: ${formatDb(-Math.max(0, db))} dB`;
+
+/** Filter line body in Equalizer APO syntax; REW filter files use the same type codes. */
+export function apoFilter({ type, frequency, gain, q }: EQSetting): string {
+    const fc = `Fc ${Number(frequency.toFixed(1))} Hz`;
+    const withQ = `Q ${q.toFixed(2)}`;
+    switch (type) {
+        case 'lowShelf':
+            return `LSC ${fc} Gain ${formatDb(gain)} dB ${withQ}`;
+        case 'highShelf':
+            return `HSC ${fc} Gain ${formatDb(gain)} dB ${withQ}`;
+        case 'highPass':
+            return `HPQ ${fc} ${withQ}`;
+        case 'lowPass':
+            return `LPQ ${fc} ${withQ}`;
+        case 'notch':
+            return `NO ${fc} ${withQ}`;
+        case 'peak':
+        default:
+            return `PK ${fc} Gain ${formatDb(gain)} dB ${withQ}`;
+    }
+}
+
+/** Equalizer APO config.txt using one parametric filter line per band. */
+export const equalizerApoFiltersExporter: PresetExporter = {
+    id: 'equalizer-apo-filters',
+    label: 'Equalizer APO: config.txt (filters)',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    build: (settings, { name }) => {
+        const lines = [comment(name), preampLine(peakResponseDb(settings))];
+        sortBands(settings).forEach((band, i) => {
+            lines.push(`Filter ${i + 1}: ON ${apoFilter(band)}`);
+        });
+        return lines.join('\n') + '\n';
+    },
+};
+
+/**
+ * Equalizer APO config.txt using a single GraphicEQ line sampled from the combined response,
+ * for setups that only take a graphic curve.
+ */
+export const equalizerApoGraphicExporter: PresetExporter = {
+    id: 'equalizer-apo-graphic',
+    label: 'Equalizer APO: config.txt (GraphicEQ)',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    build: (settings, { name }) => {
+        const points = Array.from({ length: GRAPHIC_EQ_POINTS }, (_, i) => {
+            const frequency = Math.round(20 * 1000 ** (i / (GRAPHIC_EQ_POINTS - 1)));
+            return `${frequency} ${formatDb(Math.max(GRAPHIC_EQ_FLOOR_DB, eqResponseDb(settings, frequency)))}`;
+        });
+        return [comment(name), preampLine(peakResponseDb(settings)), `GraphicEQ: ${points.join('; ')}`].join('\n') + '\n';
+    },
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { EQSetting, ProcessingChain } from '../../types';
+import { getExporter, getExporters } from '.';
+
+// One band of every filter type, so each format's mapping of every type is pinned down.
+const PRESET: EQSetting[] = [
+    { type: 'highPass', frequency: 80, gain: 0, q: 0.71 },
+    { type: 'lowShelf', frequency: 150, gain: 2, q: 0.7 },
+    { type: 'peak', frequency: 320, gain: -3.5, q: 1.4 },
+    { type: 'notch', frequency: 3150, gain: 0, q: 8 },
+    { type: 'highShelf', frequency: 9000, gain: 1.5, q: 0.7 },
+    { type: 'lowPass', frequency: 18000, gain: 0, q: 0.71 },
+];
+
+const CHAIN: ProcessingChain = {
+    gate: { thresholdDb: -50 },
+    deEsser: { frequency: 6500, thresholdDb: -28 },
+    compressor: { thresholdDb: -20, ratio: 3, attackMs: 10, releaseMs: 120 },
+    limiter: { ceilingDb: -1 },
+};
+
+const EXPORTER_IDS = [
+    'audacity-curveXml',
+    'audacity-filterCurve',
+    'audacity-graphicEq',
+    'audacity-macro',
+    'equalizer-apo-filters',
+    'equalizer-apo-graphic',
+    'easyeffects',
+    'pulseeffects',
+    'reaper-reaeq',
+    'rew-filters',
+];
+
+describe('exporters', () => {
+    it('registers every format', () => {
+        expect(getExporters().map(exporter => exporter.id).sort()).toEqual([...EXPORTER_IDS].sort());
+    });
+
+    for (const id of EXPORTER_IDS) {
+        it(`builds the ${id} format`, () => {
+            expect(getExporter(id)!.build(PRESET, { name: 'Host "A" & co', processingChain: CHAIN })).toMatchSnapshot();
+        });
+    }
+
+    it('keeps the pass, notch and largest-gain bands within ReaEQ\'s four bands', () => {
+        const script = getExporter('reaper-reaeq')!.build(PRESET, { name: 'Voice' });
+        expect([...script.matchAll(/freq = (\d+)/g)].map(match => Number(match[1]))).toEqual([80, 320, 3150, 18000]);
+        expect(script).toContain('the 2 with the least effect were left out');
+    });
+});
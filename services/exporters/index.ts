@@ -0,0 +1,20 @@
+import { audacityExporters, audacityMacroExporter } from './audacity';
+import { easyEffectsExporter, pulseEffectsExporter } from './easyEffects';
+import { equalizerApoFiltersExporter, equalizerApoGraphicExporter } from './equalizerApo';
+import { reaEqExporter } from './reaper';
+import { registerExporter } from './registry';
+import { rewExporter } from './rew';
+
+export { getExporter, getExporters, registerExporter } from './registry';
+export type { ExportContext, PresetExporter } from './registry';
+
+[
+    ...audacityExporters,
+    audacityMacroExporter,
+    equalizerApoFiltersExporter,
+    equalizerApoGraphicExporter,
+    easyEffectsExporter,
+    pulseEffectsExporter,
+    reaEqExporter,
+    rewExporter,
+].forEach(registerExporter);
@@ -0,0 +1,64 @@
+import type { FilterType } from '../../types';
+import { hasGain, qToOctaves, strongestBands } from '../eqFilters';
+import type { PresetExporter } from './registry';
+
+// ReaEQ band type codes used by the TrackFX_*EQ* API.
+const REAEQ_TYPES: Record<FilterType, number> = {
+    highPass: 0,
+    lowShelf: 1,
+    peak: 2,
+    notch: 3,
+    highShelf: 4,
+    lowPass: 5,
+};
+
+// A new ReaEQ instance has four bands, and the EQ API can only retype bands that exist.
+const REAEQ_BANDS = 4;
+
+const luaString = (value: string) => JSON.stringify(value);
+
+/**
+ * ReaEQ's preset chunk is an undocumented binary blob, so the preset ships as a ReaScript that
+ * inserts ReaEQ on every selected track and sets the bands through REAPER's EQ API. The API's third
+ * band parameter is ReaEQ's bandwidth knob, so Q is converted to octaves.
+ */
+export const reaEqExporter: PresetExporter = {
+    id: 'reaper-reaeq',
+    label: 'REAPER: ReaEQ setup script (ReaScript .lua)',
+    extension: 'lua',
+    mimeType: 'text/x-lua',
+    maxBands: REAEQ_BANDS,
+    build: (settings, { name }) => {
+        const omitted = settings.length - REAEQ_BANDS;
+        const bands = strongestBands(settings, REAEQ_BANDS)
+            .map(({ type, frequency, gain, q }) =>
+                `  { type = ${REAEQ_TYPES[type]}, freq = ${Number(frequency.toFixed(1))}, gain = ${(hasGain(type) ? gain : 0).toFixed(1)}, bw = ${qToOctaves(q).toFixed(3)} },`);
+        return [
+            `-- Sets up ReaEQ with the preset ${luaString(name)}; generated by EQ Template Creator.`,
+            '-- Run it from Actions > Show action list > ReaScript: Load, with the target tracks selected.',
+            ...(omitted > 0 ? [`-- ReaEQ starts with ${REAEQ_BANDS} bands, so the ${omitted} with the least effect were left out.`] : []),
+            'local bands = {',
+            ...bands,
+            '}',
+            '',
+            'reaper.Undo_BeginBlock()',
+            'for t = 0, reaper.CountSelectedTracks(0) - 1 do',
+            '  local track = reaper.GetSelectedTrack(0, t)',
+            '  local fx = reaper.TrackFX_AddByName(track, "ReaEQ (Cockos)", false, -1)',
+            `  reaper.TrackFX_SetNamedConfigParm(track, fx, "renamed_name", ${luaString(name)})`,
+            '  local seen = {}',
+            '  for i, band in ipairs(bands) do',
+            '    reaper.TrackFX_SetNamedConfigParm(track, fx, "BANDTYPE" .. (i - 1), tostring(band.type))',
+            '    reaper.TrackFX_SetNamedConfigParm(track, fx, "BANDENABLED" .. (i - 1), "1")',
+            '    local nth = seen[band.type] or 0',
+            '    seen[band.type] = nth + 1',
+            '    reaper.TrackFX_SetEQParam(track, fx, band.type, nth, 0, band.freq, false)',
+            '    reaper.TrackFX_SetEQParam(track, fx, band.type, nth, 1, band.gain, false)',
+            '    reaper.TrackFX_SetEQParam(track, fx, band.type, nth, 2, band.bw, false)',
+            '  end',
+            'end',
+            `reaper.Undo_EndBlock(${luaString(`Apply EQ preset: ${name}`)}, -1)`,
+            '',
+        ].join('\n');
+    },
+};
@@ -0,0 +1,34 @@
+import type { EQSetting, ProcessingChain } from '../../types';
+import type { ChainStage } from '../dynamics';
+
+export interface ExportContext {
+    name: string;
+    processingChain?: ProcessingChain | null;
+}
+
+export interface PresetExporter {
+    id: string;
+    label: string;
+    extension: string;
+    mimeType: string;
+    /** Dynamics stages the format can carry; the rest of the chain is left out. None when omitted. */
+    chainStages?: ChainStage[];
+    /** Most bands the format can hold; the bands with the least effect are left out. Unlimited when omitted. */
+    maxBands?: number;
+    build: (settings: EQSetting[], context: ExportContext) => string;
+}
+
+const exporters = new Map<string, PresetExporter>();
+
+/** Adds an exporter to the format picker. Registering an id again replaces the earlier exporter. */
+export function registerExporter(exporter: PresetExporter): void {
+    exporters.set(exporter.id, exporter);
+}
+
+export function getExporters(): PresetExporter[] {
+    return [...exporters.values()];
+}
+
+export function getExporter(id: string): PresetExporter | undefined {
+    return exporters.get(id);
+}
@@ -0,0 +1,28 @@
+import { sortBands } from '../eqFilters';
+import { apoFilter } from './equalizerApo';
+import type { PresetExporter } from './registry';
+
+/** Room EQ Wizard "Filter Settings file" text, which Equalizer APO can also import. */
+export const rewExporter: PresetExporter = {
+    id: 'rew-filters',
+    label: 'REW: filter settings (.txt)',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    build: (settings, { name }) => {
+        const title = name.replace(/\s+/g, ' ');
+        const filters = sortBands(settings)
+            .map((band, i) => `Filter ${String(i + 1).padStart(2)}: ON  ${apoFilter(band)}`);
+        return [
+            'Filter Settings file',
+            '',
+            'Room EQ V5.20',
+            '',
+            `Notes:${title}`,
+            '',
+            'Equaliser: Generic',
+            title,
+            ...filters,
+            '',
+        ].join('\n');
+    },
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { measureLoudness } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+/** A stereo 1 kHz sine, the same in both channels, through consecutive sections of [seconds, dBFS]. */
+function sineSections(sections: [number, number][], frequency = 1000, phase = 0): Float32Array[] {
+    const length = sections.reduce((sum, [seconds]) => sum + seconds * SAMPLE_RATE, 0);
+    const samples = new Float32Array(length);
+    let i = 0;
+    for (const [seconds, dbfs] of sections) {
+        const amplitude = 10 ** (dbfs / 20);
+        for (const end = i + seconds * SAMPLE_RATE; i < end; i++) {
+            samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE + phase);
+        }
+    }
+    return [samples, samples.slice()];
+}
+
+// Reference cases from EBU Tech 3341 (integrated loudness, ±0.1 LU) and Tech 3342 (loudness range, ±1 LU).
+describe('measureLoudness', () => {
+    it('reads a -23 dBFS stereo sine as -23.0 LUFS (Tech 3341 case 1)', () => {
+        expect(measureLoudness(sineSections([[20, -23]]), SAMPLE_RATE).integratedLufs).toBeCloseTo(-23, 1);
+    });
+
+    it('reads a -33 dBFS stereo sine as -33.0 LUFS (Tech 3341 case 2)', () => {
+        expect(measureLoudness(sineSections([[20, -33]]), SAMPLE_RATE).integratedLufs).toBeCloseTo(-33, 1);
+    });
+
+    it('gates quiet passages out of the integrated loudness (Tech 3341 cases 3 and 4)', () => {
+        expect(measureLoudness(sineSections([[10, -36], [60, -23], [10, -36]]), SAMPLE_RATE).integratedLufs).toBeCloseTo(-23, 1);
+        expect(measureLoudness(sineSections([[10, -72], [10, -36], [60, -23], [10, -36], [10, -72]]), SAMPLE_RATE).integratedLufs)
+            .toBeCloseTo(-23, 1);
+    });
+
+    it('reads the loudness range of level steps (Tech 3342 cases 1 to 3)', () => {
+        for (const [sections, expected] of [
+            [[[20, -20], [20, -30]], 10],
+            [[[20, -20], [20, -15]], 5],
+            [[[20, -40], [20, -20]], 20],
+        ] as [[number, number][], number][]) {
+            const { loudnessRangeLu } = measureLoudness(sineSections(sections), SAMPLE_RATE);
+            expect(Math.abs(loudnessRangeLu! - expected)).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('finds the true peak between samples', () => {
+        // A quarter of the sample rate at 45° only ever samples 0.707 of its amplitude.
+        const report = measureLoudness(sineSections([[1, -6]], SAMPLE_RATE / 4, Math.PI / 4), SAMPLE_RATE);
+        expect(report.samplePeakDbfs).toBeCloseTo(-9, 0);
+        expect(report.truePeakDbtp).toBeGreaterThan(-6.4);
+        expect(report.truePeakDbtp).toBeLessThan(-5.8);
+    });
+
+    it('reports no integrated loudness or loudness range for silence and short recordings', () => {
+        const silence = measureLoudness([new Float32Array(SAMPLE_RATE * 5)], SAMPLE_RATE);
+        expect(silence.integratedLufs).toBeNull();
+        expect(measureLoudness(sineSections([[2, -23]]), SAMPLE_RATE).loudnessRangeLu).toBeNull();
+    });
+});
@@ -0,0 +1,179 @@
+import { audioBufferToChannels } from './audioDecoder';
+import { percentile, powerToDb } from './dsp';
+
+export interface LoudnessReport {
+    /** ITU-R BS.1770-4 gated integrated loudness; null when nothing is above the absolute gate. */
+    integratedLufs: number | null;
+    /** EBU Tech 3342 loudness range; null for recordings shorter than one short-term window. */
+    loudnessRangeLu: number | null;
+    truePeakDbtp: number;
+    samplePeakDbfs: number;
+    /** Unweighted RMS of the whole recording. */
+    rmsDbfs: number;
+    /** Unweighted RMS of the quietest 10% of 100 ms segments, i.e. the room tone between phrases. */
+    noiseFloorDbfs: number;
+}
+
+const SEGMENT_S = 0.1;
+// 400 ms momentary blocks and 3 s short-term windows, both stepped by one 100 ms segment.
+const MOMENTARY_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const LRA_RELATIVE_GATE_LU = -20;
+const NOISE_PERCENTILE = 0.1;
+// True peak is interpolated only near the loudest samples; overs more than 6 dB above both
+// neighbouring samples do not occur in band-limited programme material.
+const TRUE_PEAK_SEARCH_DB = -6;
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+interface Biquad {
+    b: [number, number, number];
+    a: [number, number];
+}
+
+/** BS.1770 K-weighting (high-shelf pre-filter and RLB high-pass) derived for any sample rate. */
+function kWeighting(sampleRate: number): Biquad[] {
+    let k = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let q = 0.7071752369554196;
+    const vh = 10 ** (3.999843853973347 / 20);
+    const vb = vh ** 0.4996667741545416;
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+        b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+        a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+    };
+    k = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    q = 0.5003270373238773;
+    a0 = 1 + k / q + k * k;
+    const highPass: Biquad = { b: [1, -2, 1], a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0] };
+    return [shelf, highPass];
+}
+
+function filterInPlace(samples: Float64Array, { b, a }: Biquad): void {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const x = samples[i];
+        const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+        x2 = x1;
+        x1 = x;
+        y2 = y1;
+        y1 = y;
+        samples[i] = y;
+    }
+}
+
+/** Mean square of each consecutive segment, summed over channels; optionally K-weighted. */
+function segmentPowers(channels: Float32Array[], sampleRate: number, weighted: boolean): Float64Array {
+    const segment = Math.round(sampleRate * SEGMENT_S);
+    const count = Math.floor(channels[0].length / segment);
+    const powers = new Float64Array(count);
+    for (const channel of channels) {
+        const samples = Float64Array.from(channel);
+        if (weighted) kWeighting(sampleRate).forEach(stage => filterInPlace(samples, stage));
+        for (let s = 0; s < count; s++) {
+            let sum = 0;
+            for (let i = s * segment; i < (s + 1) * segment; i++) sum += samples[i] * samples[i];
+            powers[s] += sum / segment;
+        }
+    }
+    return powers;
+}
+
+/** Sliding means over `width` segments, one per segment step. */
+function windowPowers(segments: Float64Array, width: number): number[] {
+    const windows: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < segments.length; i++) {
+        sum += segments[i];
+        if (i >= width) sum -= segments[i - width];
+        if (i >= width - 1) windows.push(sum / width);
+    }
+    return windows;
+}
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+const meanPower = (powers: number[]) => powers.reduce((sum, p) => sum + p, 0) / powers.length;
+
+function integratedLoudness(blocks: number[]): number | null {
+    const absolute = blocks.filter(p => toLufs(p) > ABSOLUTE_GATE_LUFS);
+    if (absolute.length === 0) return null;
+    const threshold = toLufs(meanPower(absolute)) + RELATIVE_GATE_LU;
+    const relative = absolute.filter(p => toLufs(p) > threshold);
+    return toLufs(meanPower(relative));
+}
+
+function loudnessRange(shortTerm: number[]): number | null {
+    const absolute = shortTerm.filter(p => toLufs(p) > ABSOLUTE_GATE_LUFS);
+    if (absolute.length === 0) return null;
+    const threshold = toLufs(meanPower(absolute)) + LRA_RELATIVE_GATE_LU;
+    const levels = absolute.map(toLufs).filter(l => l > threshold);
+    return percentile(levels, 0.95) - percentile(levels, 0.1);
+}
+
+/** Windowed-sinc interpolation filter for `factor`x oversampling, split into polyphase branches. */
+function interpolationPhases(factor: number): Float64Array[] {
+    const length = factor * TRUE_PEAK_TAPS_PER_PHASE;
+    const centre = (length - 1) / 2;
+    const phases = Array.from({ length: factor }, () => new Float64Array(TRUE_PEAK_TAPS_PER_PHASE));
+    for (let n = 0; n < length; n++) {
+        const t = (n - centre) / factor;
+        const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+        const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+        phases[n % factor][Math.floor(n / factor)] = sinc * window;
+    }
+    return phases;
+}
+
+/** BS.1770 Annex 2 true peak: the sample peak of the signal oversampled to at least 176.4 kHz. */
+function truePeak(channels: Float32Array[], sampleRate: number, samplePeak: number): number {
+    const factor = sampleRate < 88200 ? 4 : sampleRate < 176400 ? 2 : 1;
+    if (factor === 1 || samplePeak === 0) return samplePeak;
+    const phases = interpolationPhases(factor);
+    const search = samplePeak * 10 ** (TRUE_PEAK_SEARCH_DB / 20);
+    const half = TRUE_PEAK_TAPS_PER_PHASE / 2;
+    let peak = samplePeak;
+    for (const x of channels) {
+        for (let n = 0; n + 1 < x.length; n++) {
+            if (Math.abs(x[n]) < search && Math.abs(x[n + 1]) < search) continue;
+            for (const taps of phases) {
+                let y = 0;
+                for (let k = 0; k < TRUE_PEAK_TAPS_PER_PHASE; k++) {
+                    const i = n + half - k;
+                    if (i >= 0 && i < x.length) y += taps[k] * x[i];
+                }
+                peak = Math.max(peak, Math.abs(y));
+            }
+        }
+    }
+    return peak;
+}
+
+/** Loudness, peaks, RMS and noise floor of a multichannel recording (channel weights of 1, as for mono and stereo). */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessReport {
+    let samplePeak = 0;
+    let sumSquares = 0;
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+            samplePeak = Math.max(samplePeak, Math.abs(channel[i]));
+            sumSquares += channel[i] * channel[i];
+        }
+    }
+    const totalSamples = channels.length * channels[0].length;
+
+    const weighted = segmentPowers(channels, sampleRate, true);
+    const unweighted = Array.from(segmentPowers(channels, sampleRate, false), p => powerToDb(p / channels.length));
+
+    return {
+        integratedLufs: integratedLoudness(windowPowers(weighted, MOMENTARY_SEGMENTS)),
+        loudnessRangeLu: weighted.length >= SHORT_TERM_SEGMENTS ? loudnessRange(windowPowers(weighted, SHORT_TERM_SEGMENTS)) : null,
+        truePeakDbtp: powerToDb(truePeak(channels, sampleRate, samplePeak) ** 2),
+        samplePeakDbfs: powerToDb(samplePeak ** 2),
+        rmsDbfs: powerToDb(totalSamples ? sumSquares / totalSamples : 0),
+        noiseFloorDbfs: unweighted.length ? percentile(unweighted, NOISE_PERCENTILE) : -120,
+    };
+}
+
+export const measureBufferLoudness = (buffer: AudioBuffer) =>
+    measureLoudness(audioBufferToChannels(buffer), buffer.sampleRate);
@@ -0,0 +1,163 @@
+import { mixToMono, percentile, powerToDb } from './dsp';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheck {
+    id: 'speech' | 'level' | 'clipping' | 'noise' | 'sampleRate' | 'channels';
+    label: string;
+    status: PreflightStatus;
+    detail: string;
+}
+
+export interface PreflightReport {
+    checks: PreflightCheck[];
+    durationS: number;
+    speechS: number;
+    clippedPercent: number;
+    noiseFloorDbfs: number;
+    /** Rate stated by the file header, or null when the container does not reveal it. */
+    sampleRate: number | null;
+    channels: number;
+}
+
+const FRAME_S = 0.05;
+const MIN_SPEECH_S = 10;
+const FAIL_SPEECH_S = 3;
+// Frames count as speech when they stand out from the noise and are near the loud passages.
+const SPEECH_ABOVE_NOISE_DB = 12;
+const SPEECH_BELOW_LOUD_DB = 45;
+// Three or more consecutive samples at full scale are a flattened, clipped peak.
+const CLIP_LEVEL = 0.999;
+const CLIP_RUN = 3;
+const WARN_CLIPPED_PERCENT = 0.01;
+const FAIL_CLIPPED_PERCENT = 0.1;
+const WARN_NOISE_DBFS = -50;
+const FAIL_NOISE_DBFS = -35;
+const QUIET_SPEECH_DBFS = -40;
+const SILENT_PEAK_DBFS = -60;
+const WARN_SAMPLE_RATE = 32000;
+const FAIL_SAMPLE_RATE = 16000;
+const CHANNEL_IMBALANCE_DB = 20;
+
+const worst = (statuses: PreflightStatus[]): PreflightStatus =>
+    statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+
+export const preflightStatus = (report: PreflightReport) => worst(report.checks.map(c => c.status));
+
+/** Share of samples, in percent, that sit in runs of CLIP_RUN or more at full scale. */
+function clippedPercent(channels: Float32Array[]): number {
+    let clipped = 0;
+    let total = 0;
+    for (const channel of channels) {
+        let run = 0;
+        for (let i = 0; i <= channel.length; i++) {
+            if (i < channel.length && Math.abs(channel[i]) >= CLIP_LEVEL) {
+                run++;
+            } else {
+                if (run >= CLIP_RUN) clipped += run;
+                run = 0;
+            }
+        }
+        total += channel.length;
+    }
+    return total ? 100 * clipped / total : 0;
+}
+
+const channelLevelDb = (channel: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < channel.length; i++) sum += channel[i] * channel[i];
+    return powerToDb(channel.length ? sum / channel.length : 0);
+};
+
+/** Checks a decoded recording for problems that would make an analysis call a waste. */
+export function preflightChecks(channels: Float32Array[], decodedRate: number, sourceRate: number | null): PreflightReport {
+    const mono = mixToMono(channels);
+    const frame = Math.round(decodedRate * FRAME_S);
+    const levels: number[] = [];
+    let peak = 0;
+    for (let start = 0; start + frame <= mono.length; start += frame) {
+        let sum = 0;
+        for (let i = start; i < start + frame; i++) {
+            sum += mono[i] * mono[i];
+            peak = Math.max(peak, Math.abs(mono[i]));
+        }
+        levels.push(powerToDb(sum / frame));
+    }
+    const noiseFloorDbfs = levels.length ? percentile(levels, 0.1) : -120;
+    const loudDb = levels.length ? percentile(levels, 0.95) : -120;
+    const speechGate = Math.max(noiseFloorDbfs + SPEECH_ABOVE_NOISE_DB, loudDb - SPEECH_BELOW_LOUD_DB);
+    const speechS = levels.filter(l => l > speechGate).length * FRAME_S;
+    const durationS = mono.length / decodedRate;
+    const clipped = clippedPercent(channels);
+    const peakDb = powerToDb(peak * peak);
+    const checks: PreflightCheck[] = [];
+
+    checks.push({
+        id: 'speech',
+        label: 'Speech length',
+        status: speechS < FAIL_SPEECH_S ? 'fail' : speechS < MIN_SPEECH_S ? 'warn' : 'pass',
+        detail: speechS < MIN_SPEECH_S
+            ? `Only about ${speechS.toFixed(1)} s of speech in ${durationS.toFixed(1)} s. Record at least ${MIN_SPEECH_S} s of continuous talking so the voice can be measured reliably.`
+            : `About ${speechS.toFixed(0)} s of speech in ${durationS.toFixed(0)} s.`,
+    });
+
+    checks.push({
+        id: 'level',
+        label: 'Recording level',
+        status: peakDb < SILENT_PEAK_DBFS ? 'fail' : loudDb < QUIET_SPEECH_DBFS ? 'warn' : 'pass',
+        detail: peakDb < SILENT_PEAK_DBFS
+            ? 'The recording is silent or nearly so. Check that the right microphone is selected and not muted.'
+            : loudDb < QUIET_SPEECH_DBFS
+                ? `Speech peaks around ${loudDb.toFixed(0)} dBFS, which is very quiet. Move closer to the microphone or raise the input gain.`
+                : `Speech peaks around ${loudDb.toFixed(0)} dBFS.`,
+    });
+
+    checks.push({
+        id: 'clipping',
+        label: 'Clipping',
+        status: clipped > FAIL_CLIPPED_PERCENT ? 'fail' : clipped > WARN_CLIPPED_PERCENT ? 'warn' : 'pass',
+        detail: clipped > WARN_CLIPPED_PERCENT
+            ? `${clipped.toFixed(2)}% of samples are clipped. Lower the input gain and record again; clipping adds distortion no EQ can remove.`
+            : 'No significant clipping.',
+    });
+
+    checks.push({
+        id: 'noise',
+        label: 'Background noise',
+        status: noiseFloorDbfs > FAIL_NOISE_DBFS ? 'fail' : noiseFloorDbfs > WARN_NOISE_DBFS ? 'warn' : 'pass',
+        detail: noiseFloorDbfs > WARN_NOISE_DBFS
+            ? `The noise floor between phrases is ${noiseFloorDbfs.toFixed(0)} dBFS. Turn off fans and other noise sources, or record in a quieter room.`
+            : `Noise floor ${noiseFloorDbfs.toFixed(0)} dBFS.`,
+    });
+
+    checks.push(sourceRate == null
+        ? {
+            id: 'sampleRate',
+            label: 'Sample rate',
+            status: 'pass',
+            detail: `Not stated in the file; decoded at ${(decodedRate / 1000).toFixed(1)} kHz.`,
+        }
+        : {
+            id: 'sampleRate',
+            label: 'Sample rate',
+            status: sourceRate < FAIL_SAMPLE_RATE ? 'fail' : sourceRate < WARN_SAMPLE_RATE ? 'warn' : 'pass',
+            detail: sourceRate < WARN_SAMPLE_RATE
+                ? `${(sourceRate / 1000).toFixed(1)} kHz cuts off everything above ${(sourceRate / 2000).toFixed(1)} kHz, so presence and air cannot be judged. Record at 44.1 or 48 kHz.`
+                : `${(sourceRate / 1000).toFixed(1)} kHz.`,
+        });
+
+    const channelLevels = channels.map(channelLevelDb);
+    const imbalance = channels.length === 2 ? Math.abs(channelLevels[0] - channelLevels[1]) : 0;
+    checks.push({
+        id: 'channels',
+        label: 'Channels',
+        status: channels.length > 2 || imbalance > CHANNEL_IMBALANCE_DB ? 'warn' : 'pass',
+        detail: imbalance > CHANNEL_IMBALANCE_DB
+            ? `One stereo channel is ${imbalance.toFixed(0)} dB quieter than the other, so the voice is probably on one side only. Record in mono or fix the input routing.`
+            : channels.length > 2
+                ? `${channels.length} channels will be mixed down to mono. Make sure only the voice microphone is in the file.`
+                : channels.length === 1 ? 'Mono.' : 'Stereo, mixed to mono for analysis.',
+    });
+
+    return { checks, durationS, speechS, clippedPercent: clipped, noiseFloorDbfs, sampleRate: sourceRate, channels: channels.length };
+}
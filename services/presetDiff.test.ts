@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { EQSetting } from '../types';
+import { blendPresets, diffBands } from './presetDiff';
+
+const EXISTING: EQSetting[] = [
+    { type: 'highPass', frequency: 100, gain: 0, q: 0.71 },
+    { type: 'notch', frequency: 4000, gain: 0, q: 8 },
+    { type: 'peak', frequency: 300, gain: -4, q: 1 },
+];
+const RECOMMENDED: EQSetting[] = [
+    { type: 'highPass', frequency: 80, gain: 0, q: 0.5 },
+    { type: 'peak', frequency: 3000, gain: 2, q: 1 },
+];
+
+describe('blendPresets', () => {
+    it('keeps pass and notch filters found in only one preset', () => {
+        const blend = blendPresets(EXISTING, RECOMMENDED, 0.5);
+        expect(blend.filter(band => band.type === 'notch')).toEqual([EXISTING[1]]);
+    });
+
+    it('merges same-type filters at nearby frequencies by the weight', () => {
+        const highPasses = blendPresets(EXISTING, RECOMMENDED, 0.5).filter(band => band.type === 'highPass');
+        expect(highPasses).toHaveLength(1);
+        expect(highPasses[0].frequency).toBeCloseTo(89.4, 1);
+        expect(highPasses[0].q).toBeCloseTo(0.605, 3);
+    });
+
+    it('scales gain bands by their preset weight', () => {
+        const peaks = blendPresets(EXISTING, RECOMMENDED, 0.25).filter(band => band.type === 'peak');
+        expect(peaks.map(band => [band.frequency, band.gain])).toEqual([[300, -3], [3000, 0.5]]);
+    });
+
+    it('leaves out a preset that has no weight', () => {
+        expect(blendPresets(EXISTING, RECOMMENDED, 1)).toEqual(RECOMMENDED.slice().sort((x, y) => x.frequency - y.frequency));
+        expect(blendPresets(EXISTING, RECOMMENDED, 0).map(band => band.frequency)).toEqual([100, 300, 4000]);
+    });
+});
+
+describe('diffBands', () => {
+    it('pairs moved bands and reports the rest as added or removed', () => {
+        expect(diffBands(EXISTING, RECOMMENDED).map(diff => diff.change)).toEqual(['changed', 'removed', 'added', 'removed']);
+    });
+});
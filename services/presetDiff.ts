@@ -0,0 +1,97 @@
+import type { EQSetting } from '../types';
+import { hasGain, sortBands } from './eqFilters';
+
+export type BandChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BandDiff {
+    change: BandChange;
+    /** Null for an added band. */
+    before: EQSetting | null;
+    /** Null for a removed band. */
+    after: EQSetting | null;
+}
+
+// Bands of the same type within this distance are taken to be the same band, moved.
+const MATCH_OCTAVES = 0.5;
+
+// Scaled bands quieter than this are left out of a blend.
+const MIN_BLEND_GAIN_DB = 0.05;
+
+const octavesApart = (a: EQSetting, b: EQSetting) => Math.abs(Math.log2(a.frequency / b.frequency));
+
+// Compared at the precision the band table shows, so invisible float noise isn't reported as a change.
+const differs = (a: EQSetting, b: EQSetting) =>
+    Math.round(a.frequency) !== Math.round(b.frequency)
+    || a.gain.toFixed(1) !== b.gain.toFixed(1)
+    || a.q.toFixed(2) !== b.q.toFixed(2);
+
+/** Pairs bands of the same filter type within MATCH_OCTAVES of each other, closest pairs first. */
+function matchBands(a: EQSetting[], b: EQSetting[]): { pairs: [number, number][]; onlyA: number[]; onlyB: number[] } {
+    const candidates: [number, number, number][] = [];
+    a.forEach((x, i) => b.forEach((y, j) => {
+        if (x.type === y.type && octavesApart(x, y) <= MATCH_OCTAVES) candidates.push([octavesApart(x, y), i, j]);
+    }));
+    candidates.sort((x, y) => x[0] - y[0]);
+
+    const pairedA = new Set<number>();
+    const pairedB = new Set<number>();
+    const pairs: [number, number][] = [];
+    for (const [, i, j] of candidates) {
+        if (pairedA.has(i) || pairedB.has(j)) continue;
+        pairedA.add(i);
+        pairedB.add(j);
+        pairs.push([i, j]);
+    }
+    return {
+        pairs,
+        onlyA: a.map((_, i) => i).filter(i => !pairedA.has(i)),
+        onlyB: b.map((_, j) => j).filter(j => !pairedB.has(j)),
+    };
+}
+
+/**
+ * Pairs the bands of two versions of a preset, closest pairs of the same filter type first, and
+ * classifies each pair. Bands left unpaired were added or removed. Sorted by frequency.
+ */
+export function diffBands(before: EQSetting[], after: EQSetting[]): BandDiff[] {
+    const { pairs, onlyA, onlyB } = matchBands(before, after);
+    const diffs: BandDiff[] = [
+        ...pairs.map(([i, j]): BandDiff => ({ change: differs(before[i], after[j]) ? 'changed' : 'unchanged', before: before[i], after: after[j] })),
+        ...onlyA.map((i): BandDiff => ({ change: 'removed', before: before[i], after: null })),
+        ...onlyB.map((j): BandDiff => ({ change: 'added', before: null, after: after[j] })),
+    ];
+    return diffs.sort((x, y) => (x.after ?? x.before)!.frequency - (y.after ?? y.before)!.frequency);
+}
+
+/**
+ * Mixes two presets: every gain band of both is kept with its gain scaled by its preset's weight,
+ * so the blend's curve is close to the weighted mix of the two curves. Pass and notch filters have
+ * no gain to scale: those of the same type in both presets at nearby frequencies are merged, with
+ * frequency and Q moved between them by the weight, and the rest are kept unless their preset has
+ * no weight at all.
+ */
+export function blendPresets(a: EQSetting[], b: EQSetting[], weightB: number): EQSetting[] {
+    const scaled = (settings: EQSetting[], weight: number) => settings
+        .filter(band => hasGain(band.type))
+        .map(band => ({ ...band, gain: Math.round(band.gain * weight * 10) / 10 }))
+        .filter(band => Math.abs(band.gain) >= MIN_BLEND_GAIN_DB);
+    const fixedA = a.filter(band => !hasGain(band.type));
+    const fixedB = b.filter(band => !hasGain(band.type));
+    const { pairs, onlyA, onlyB } = matchBands(fixedA, fixedB);
+    const merged = pairs.map(([i, j]): EQSetting => {
+        const x = fixedA[i];
+        const y = fixedB[j];
+        return {
+            ...(weightB >= 0.5 ? y : x),
+            frequency: Math.round(x.frequency * (y.frequency / x.frequency) ** weightB * 10) / 10,
+            q: Math.round((x.q + (y.q - x.q) * weightB) * 1000) / 1000,
+        };
+    });
+    return sortBands([
+        ...scaled(a, 1 - weightB),
+        ...scaled(b, weightB),
+        ...merged,
+        ...(weightB < 1 ? onlyA.map(i => fixedA[i]) : []),
+        ...(weightB > 0 ? onlyB.map(j => fixedB[j]) : []),
+    ]);
+}
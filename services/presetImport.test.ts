@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parsePresetFile } from './presetImport';
+import { getTargetMode } from './targetModes';
+
+const PODCAST = getTargetMode('podcast');
+
+describe('parsePresetFile', () => {
+    it('reads Equalizer APO filters of every type', () => {
+        const text = [
+            'Preamp: -4 dB',
+            'Filter 1: ON HPQ Fc 80 Hz Q 0.71',
+            'Filter 2: ON PK Fc 2.5 kHz Gain -3 dB Q 1.4',
+            'Filter 3: ON HSC Fc 8000 Hz Gain 2 dB BW Oct 1',
+        ].join('\n');
+        const { format, settings } = parsePresetFile(text, 'voice.txt', PODCAST);
+        expect(format).toBe('Equalizer APO config');
+        expect(settings.map(({ type, frequency, gain }) => [type, frequency, gain])).toEqual([
+            ['highPass', 80, 0],
+            ['peak', 2500, -3],
+            ['highShelf', 8000, 2],
+        ]);
+        expect(settings[2].q).toBeCloseTo(1.41, 2);
+    });
+
+    it('limits imported bands to the target mode and warns about each repair', () => {
+        const { settings, warnings } = parsePresetFile('Filter 1: ON PK Fc 45000 Hz Gain 40 dB Q 0.001', 'extreme.txt', PODCAST);
+        expect(settings).toEqual([{ type: 'peak', frequency: 20000, gain: PODCAST.maxBoostDb, q: 0.1 }]);
+        expect(warnings.join(' ')).toMatch(/moved into 20 Hz–20 kHz.*limited to/);
+    });
+
+    it('throws when the file holds no active filters', () => {
+        expect(() => parsePresetFile('Filter 1: OFF PK Fc 1000 Hz Gain 3 dB Q 1', 'off.txt', PODCAST)).toThrow('No active filters');
+    });
+});
@@ -0,0 +1,154 @@
+import type { EQSetting, FilterType } from '../types';
+import { sanitizeBands } from './analysis';
+import { parseAudacityCurveXml, parseAudacityParameters, type CurvePoint } from './audacityPreset';
+import { fitCurveToDevice, getDeviceProfile } from './bandFitting';
+import { defaultQ } from './eqFilters';
+import type { TargetMode } from './targetModes';
+
+export interface ImportedPreset {
+    name: string;
+    /** The file format, for display. */
+    format: string;
+    settings: EQSetting[];
+    /** What could not be carried over exactly. */
+    warnings: string[];
+}
+
+// Curves are fitted with third-octave bells over a wider range than graphic EQ hardware offers.
+const CURVE_GAIN_RANGE_DB = 20;
+const MIN_CURVE_BAND_DB = 0.1;
+
+const APO_TYPES: Record<string, FilterType | null> = {
+    PK: 'peak',
+    PEQ: 'peak',
+    MODAL: 'peak',
+    LS: 'lowShelf',
+    LSC: 'lowShelf',
+    HS: 'highShelf',
+    HSC: 'highShelf',
+    HP: 'highPass',
+    HPQ: 'highPass',
+    LP: 'lowPass',
+    LPQ: 'lowPass',
+    NO: 'notch',
+    // REW writes unused filter slots as "None".
+    NONE: null,
+};
+const APO_IGNORED_COMMANDS = /^\s*(Channel|Include|Device|Copy|Stage|If|ElseIf|Else|EndIf|Eval|Convolution|Delay)\s*:/im;
+
+const fileTitle = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Imported preset';
+
+/** Point curves hold between points on a log-frequency axis and stay flat beyond the ends. */
+function curveToBands(points: CurvePoint[], warnings: string[]): EQSetting[] {
+    const sorted = [...points].filter(p => p.frequency > 0).sort((a, b) => a.frequency - b.frequency);
+    if (sorted.length === 0) return [];
+    const gainAt = (frequency: number) => {
+        const upper = sorted.findIndex(p => p.frequency >= frequency);
+        if (upper === 0) return sorted[0].gain;
+        if (upper < 0) return sorted[sorted.length - 1].gain;
+        const low = sorted[upper - 1];
+        const high = sorted[upper];
+        const t = Math.log(frequency / low.frequency) / Math.log(high.frequency / low.frequency);
+        return low.gain + t * (high.gain - low.gain);
+    };
+    const profile = {
+        ...getDeviceProfile('graphic-31')!,
+        minGainDb: -CURVE_GAIN_RANGE_DB,
+        maxGainDb: CURVE_GAIN_RANGE_DB,
+        gainStepDb: 0.1,
+    };
+    const fit = fitCurveToDevice(gainAt, profile);
+    const settings = fit.settings.filter(band => Math.abs(band.gain) >= MIN_CURVE_BAND_DB);
+    warnings.push(`The ${sorted.length}-point curve was converted into ${settings.length} third-octave bands, within ${fit.maxErrorDb.toFixed(1)} dB of it.`);
+    return settings;
+}
+
+/** Bandwidth in octaves to Q, as Equalizer APO and REW convert it. */
+const bandwidthToQ = (octaves: number) => Math.sqrt(2 ** octaves) / (2 ** octaves - 1);
+
+function parseApoFilter(line: string, warnings: string[]): EQSetting | null {
+    const [, label, state, code, rest] = /^\s*(Filter\s*\d*)\s*:\s*(ON|OFF)\s+(\w+)(.*)$/i.exec(line) ?? [];
+    if (!label) {
+        warnings.push(`"${line.trim()}" could not be read and was skipped.`);
+        return null;
+    }
+    const type = APO_TYPES[code.toUpperCase()];
+    if (type === null) return null;
+    if (type === undefined) {
+        warnings.push(`${label}: ${code} filters aren't supported and it was skipped.`);
+        return null;
+    }
+    if (state.toUpperCase() === 'OFF') {
+        warnings.push(`${label} is switched off and was skipped.`);
+        return null;
+    }
+    const fc = /\bFc\s+([\d.]+)\s*(k?)Hz/i.exec(rest);
+    if (!fc) {
+        warnings.push(`${label} has no frequency and was skipped.`);
+        return null;
+    }
+    const q = /\bQ\s+([\d.]+)/i.exec(rest);
+    const bandwidth = /\bBW\s+Oct\s+([\d.]+)/i.exec(rest);
+    return {
+        type,
+        frequency: Number(fc[1]) * (fc[2] ? 1000 : 1),
+        gain: Number(/\bGain\s+(-?[\d.]+)\s*dB/i.exec(rest)?.[1] ?? 0),
+        q: q ? Number(q[1]) : bandwidth ? bandwidthToQ(Number(bandwidth[1])) : defaultQ(type),
+    };
+}
+
+function parseApoText(text: string, warnings: string[]): EQSetting[] {
+    const settings: EQSetting[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (/^\s*Filter\s*\d*\s*:/i.test(line)) {
+            const band = parseApoFilter(line, warnings);
+            if (band) settings.push(band);
+        } else if (/^\s*GraphicEQ\s*:/i.test(line)) {
+            const points = line.slice(line.indexOf(':') + 1).split(';').map(pair => {
+                const [frequency, gain] = pair.trim().split(/\s+/).map(Number);
+                return { frequency, gain };
+            }).filter(p => Number.isFinite(p.frequency) && Number.isFinite(p.gain));
+            settings.push(...curveToBands(points, warnings));
+        } else if (/^\s*Preamp\s*:/i.test(line)) {
+            warnings.push('The preamp setting was left out; the overall level is not part of a preset.');
+        }
+    }
+    if (APO_IGNORED_COMMANDS.test(text)) {
+        warnings.push('Channel selection, delays and other Equalizer APO commands were ignored; all filters apply to every channel.');
+    }
+    return settings;
+}
+
+/**
+ * Reads an existing preset: an Audacity EQ curve XML file, an Audacity Filter Curve or Graphic EQ
+ * preset, an Equalizer APO config or a REW filter settings file. Point curves are converted into
+ * third-octave bands. Bands get the same limits as model output for `mode`, with each repair
+ * listed as a warning. Throws an Error with a user-facing message when nothing usable is found.
+ */
+export function parsePresetFile(text: string, fileName: string, mode: TargetMode): ImportedPreset {
+    const warnings: string[] = [];
+    let name = fileTitle(fileName);
+    let format: string;
+    let settings: EQSetting[];
+
+    if (/<equalizationeffect\b|<curve\b/i.test(text)) {
+        format = 'Audacity EQ curve';
+        const curves = parseAudacityCurveXml(text).filter(c => c.points.length > 0);
+        if (curves.length === 0) throw new Error('The Audacity file holds no curve points.');
+        if (curves.length > 1) warnings.push(`The file holds ${curves.length} curves; only the first, "${curves[0].name}", was imported.`);
+        name = curves[0].name || name;
+        settings = curveToBands(curves[0].points, warnings);
+    } else if (/\bf0\s*=\s*"/.test(text)) {
+        format = 'Audacity Filter Curve / Graphic EQ preset';
+        settings = curveToBands(parseAudacityParameters(text), warnings);
+    } else if (/^\s*(Filter\s*\d*|GraphicEQ)\s*:/im.test(text)) {
+        format = /^\s*Filter Settings file/i.test(text) ? 'REW filter settings' : 'Equalizer APO config';
+        settings = parseApoText(text, warnings);
+    } else {
+        throw new Error("The file isn't an Audacity EQ curve or preset, an Equalizer APO config or a REW filter settings file.");
+    }
+
+    settings = sanitizeBands(settings, mode, warnings);
+    if (settings.length === 0) throw new Error('No active filters were found in the file.');
+    return { name, format, settings, warnings };
+}
@@ -0,0 +1,224 @@
+import type { EQSetting, ProcessingChain, TargetModeId, VocalProfile, VoiceMeasurements } from '../types';
+import { sanitizeBands, sanitizeChain } from './analysis';
+import { base64ToBlob, blobToBase64 } from './base64';
+import { getExporters } from './exporters';
+import { DEFAULT_TARGET_MODE, getTargetMode, isTargetModeId } from './targetModes';
+
+export interface LibraryEntry {
+    id: string;
+    name: string;
+    tags: string[];
+    createdAt: number;
+    updatedAt: number;
+    providerId: string | null;
+    targetMode: TargetModeId;
+    vocalProfile: VocalProfile;
+    eqSettings: EQSetting[];
+    processingChain: ProcessingChain | null;
+    measurements: VoiceMeasurements | null;
+    /** Preset files as built when the entry was last saved, keyed by exporter id. */
+    exports: Record<string, string>;
+    audio: Blob | null;
+}
+
+const DB_NAME = 'eq-creator';
+const DB_VERSION = 1;
+const STORE = 'presets';
+const BUNDLE_FORMAT = 'eq-creator-library';
+const BUNDLE_VERSION = 1;
+
+interface BundleEntry extends Omit<LibraryEntry, 'audio'> {
+    audio: { mimeType: string; base64: string } | null;
+}
+
+export interface LibraryImport {
+    written: number;
+    /** Entries that were skipped or only partly imported, and why. */
+    problems: string[];
+}
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: 'id' });
+        };
+        dbPromise = requestResult(request).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return requestResult(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+/** Every saved entry, most recently updated first. */
+export async function listEntries(): Promise<LibraryEntry[]> {
+    const entries = await withStore('readonly', store => store.getAll() as IDBRequest<LibraryEntry[]>);
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export const saveEntry = (entry: LibraryEntry) => withStore('readwrite', store => store.put(entry)).then(() => entry);
+
+export const deleteEntry = (id: string) => withStore('readwrite', store => store.delete(id)).then(() => undefined);
+
+export function buildPresetExports(settings: EQSetting[], name: string, processingChain: ProcessingChain | null): Record<string, string> {
+    return Object.fromEntries(getExporters().map(e => [e.id, e.build(settings, { name, processingChain })]));
+}
+
+export function createEntry(fields: Pick<LibraryEntry, 'name' | 'vocalProfile' | 'eqSettings' | 'measurements' | 'providerId' | 'targetMode' | 'processingChain' | 'audio'>): LibraryEntry {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+        exports: buildPresetExports(fields.eqSettings, fields.name, fields.processingChain),
+        ...fields,
+    };
+}
+
+/** Applies an edit and refreshes the timestamp and, when the preset or name changed, the export strings. */
+export function updateEntry(
+    entry: LibraryEntry,
+    patch: Partial<Pick<LibraryEntry, 'name' | 'tags' | 'vocalProfile' | 'eqSettings' | 'processingChain' | 'audio'>>,
+): LibraryEntry {
+    const next = { ...entry, ...patch, updatedAt: Date.now() };
+    if (patch.eqSettings || patch.processingChain !== undefined || patch.name !== undefined) next.exports = buildPresetExports(next.eqSettings, next.name, next.processingChain);
+    return next;
+}
+
+/** Comma- or whitespace-separated tags, trimmed, lower-cased and de-duplicated. */
+export const parseTags = (text: string) => [...new Set(text.split(/[,\s]+/).map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+/** Every word of the query must appear in the name, a tag or the profile description. */
+export function matchesQuery(entry: LibraryEntry, query: string): boolean {
+    const haystack = [entry.name, ...entry.tags, entry.vocalProfile.description, ...entry.vocalProfile.keyCharacteristics]
+        .join(' ')
+        .toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+/** The whole library, audio included, as one JSON file. */
+export async function exportLibrary(): Promise<Blob> {
+    const entries: BundleEntry[] = await Promise.all((await listEntries()).map(async entry => ({
+        ...entry,
+        audio: entry.audio ? { mimeType: entry.audio.type, base64: await blobToBase64(entry.audio) } : null,
+    })));
+    const bundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), entries };
+    return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const timestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : Date.now();
+
+/**
+ * Turns one bundle item back into an entry, or throws an Error naming what is unusable. Bundles
+ * can be edited by hand, so bands and the chain get the same limits as model output, and the
+ * export strings are rebuilt from them. Unusable audio or measurements are left out and noted.
+ */
+function readBundleEntry(item: unknown, notes: string[]): LibraryEntry {
+    if (!isRecord(item) || !isText(item.id)) throw new Error('it has no id.');
+    if (!isText(item.name)) throw new Error('it has no name.');
+    const profile = item.vocalProfile;
+    if (!isRecord(profile) || typeof profile.description !== 'string' || typeof profile.fundamentalRange !== 'string' || !Array.isArray(profile.keyCharacteristics)) {
+        throw new Error('its vocal profile is incomplete.');
+    }
+    if (!Array.isArray(item.eqSettings)) throw new Error('it has no EQ bands.');
+
+    const targetMode = isTargetModeId(item.targetMode) ? item.targetMode : DEFAULT_TARGET_MODE;
+    const mode = getTargetMode(targetMode);
+    const eqSettings = sanitizeBands(item.eqSettings, mode, []);
+    if (eqSettings.length === 0) throw new Error('it has no usable EQ bands.');
+    const processingChain = sanitizeChain(item.processingChain, mode, []) ?? null;
+
+    let audio: Blob | null = null;
+    if (item.audio != null) {
+        try {
+            if (!isRecord(item.audio) || typeof item.audio.base64 !== 'string' || typeof item.audio.mimeType !== 'string') throw new Error();
+            audio = base64ToBlob(item.audio.base64, item.audio.mimeType);
+        } catch {
+            notes.push('its recording could not be read and was left out.');
+        }
+    }
+
+    const measurements = item.measurements;
+    const usableMeasurements = isRecord(measurements) && Array.isArray(measurements.spectrum) && Array.isArray(measurements.thirdOctaveBands);
+    if (measurements != null && !usableMeasurements) notes.push('its measurements could not be read and were left out.');
+
+    const name = item.name.trim();
+    return {
+        id: item.id,
+        name,
+        tags: Array.isArray(item.tags) ? parseTags(item.tags.filter((t): t is string => typeof t === 'string').join(',')) : [],
+        createdAt: timestamp(item.createdAt),
+        updatedAt: timestamp(item.updatedAt),
+        providerId: typeof item.providerId === 'string' ? item.providerId : null,
+        targetMode,
+        vocalProfile: {
+            description: profile.description,
+            fundamentalRange: profile.fundamentalRange,
+            keyCharacteristics: profile.keyCharacteristics.filter((c): c is string => typeof c === 'string'),
+        },
+        eqSettings,
+        processingChain,
+        measurements: usableMeasurements ? measurements as unknown as VoiceMeasurements : null,
+        exports: buildPresetExports(eqSettings, name, processingChain),
+        audio,
+    };
+}
+
+/**
+ * Adds the entries of an exported bundle. Entries whose id already exists replace the stored copy
+ * only if they were updated more recently. Every entry is checked before anything is written;
+ * unusable ones are skipped and listed in `problems` rather than failing the whole import.
+ */
+export async function importLibrary(file: Blob): Promise<LibraryImport> {
+    let bundle: { format?: unknown; entries?: unknown };
+    try {
+        bundle = JSON.parse(await file.text());
+    } catch {
+        throw new Error('The file is not a JSON library bundle.');
+    }
+    if (bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.entries)) {
+        throw new Error('The file is not an EQ Template Creator library bundle.');
+    }
+
+    const problems: string[] = [];
+    const entries: LibraryEntry[] = [];
+    bundle.entries.forEach((item, i) => {
+        const label = isRecord(item) && isText(item.name) ? `"${item.name.trim()}"` : `Entry ${i + 1}`;
+        const notes: string[] = [];
+        try {
+            entries.push(readBundleEntry(item, notes));
+            problems.push(...notes.map(note => `${label}: ${note}`));
+        } catch (error) {
+            problems.push(`${label} was skipped: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    const existing = new Map((await listEntries()).map(e => [e.id, e]));
+    let written = 0;
+    for (const entry of entries) {
+        const current = existing.get(entry.id);
+        if (current && current.updatedAt >= entry.updatedAt) continue;
+        await saveEntry(entry);
+        written++;
+    }
+    return { written, problems };
+}
@@ -0,0 +1,162 @@
+import type { EQSetting, VoiceMeasurements } from '../types';
+import { fitCurveToDevice, type DeviceProfile } from './bandFitting';
+
+export interface MatchPoint {
+    frequency: number;
+    /** Reference minus recording after level alignment, or null where the band is not compared. */
+    differenceDb: number | null;
+    /** The smoothed and limited curve the preset is fitted to. */
+    curveDb: number;
+}
+
+export interface ReferenceMatch {
+    settings: EQSetting[];
+    points: MatchPoint[];
+    /** Where the difference was not followed in full, and why. */
+    notes: string[];
+}
+
+// Overall level is aligned over the core of the voice so the match changes tone, not loudness.
+const ALIGN_LOW_HZ = 500;
+const ALIGN_HIGH_HZ = 2000;
+const MIN_MATCH_HZ = 80;
+const MAX_MATCH_HZ = 16000;
+// Bands this far below a recording's loudest band hold too little voice to compare.
+const CONTENT_RANGE_DB = 45;
+// Each third-octave band is averaged with one neighbour either side, an octave in all.
+const SMOOTHING_BANDS = 1;
+const MAX_BOOST_DB = 6;
+const MAX_CUT_DB = 6;
+const MAX_SLOPE_DB_PER_OCTAVE = 6;
+// Limits that moved the curve by less than this are not worth a note.
+const NOTE_THRESHOLD_DB = 0.5;
+const MIN_BAND_GAIN_DB = 0.3;
+
+const MATCH_PROFILE: DeviceProfile = {
+    id: 'reference-match',
+    label: 'Octave bells',
+    bands: [63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000].map(frequency => ({ type: 'peak', frequency, q: 1.41 })),
+    minGainDb: -MAX_CUT_DB,
+    maxGainDb: MAX_BOOST_DB,
+    gainStepDb: 0.1,
+};
+
+const formatFrequency = (hz: number) => hz >= 1000 ? `${Number((hz / 1000).toFixed(1))} kHz` : `${Math.round(hz)} Hz`;
+
+/** Index ranges [start, end] of consecutive true flags. */
+function runs(flags: boolean[]): [number, number][] {
+    const result: [number, number][] = [];
+    flags.forEach((flag, i) => {
+        if (!flag) return;
+        const last = result[result.length - 1];
+        if (last && last[1] === i - 1) last[1] = i;
+        else result.push([i, i]);
+    });
+    return result;
+}
+
+/**
+ * Builds an EQ preset that moves the recording's long-term voiced spectrum towards the reference's.
+ * The third-octave difference is aligned at 500 Hz–2 kHz, smoothed over an octave, limited to
+ * +6/−6 dB and 6 dB per octave, and fitted with octave-spaced bells. Bands below the voice's
+ * pitch, above either recording's bandwidth, or with too little energy in either are left flat.
+ */
+export function matchReference(source: VoiceMeasurements, reference: VoiceMeasurements): ReferenceMatch {
+    const referenceLevels = new Map(reference.thirdOctaveBands.map(b => [b.frequency, b.level]));
+    const bands = source.thirdOctaveBands
+        .filter(b => referenceLevels.has(b.frequency))
+        .map(b => ({ frequency: b.frequency, source: b.level, reference: referenceLevels.get(b.frequency)! }));
+    const sourceTop = Math.max(...bands.map(b => b.source));
+    const referenceTop = Math.max(...bands.map(b => b.reference));
+
+    const lowestHz = Math.max(MIN_MATCH_HZ, (source.f0Low ?? 0) * 0.8);
+    const bandwidthHz = 0.45 * Math.min(source.sampleRate, reference.sampleRate);
+    const highestHz = Math.min(MAX_MATCH_HZ, bandwidthHz);
+    const inRange = bands.map(b => b.frequency >= lowestHz && b.frequency <= highestHz);
+    const sourceThin = bands.map(b => b.source < sourceTop - CONTENT_RANGE_DB);
+    const referenceThin = bands.map(b => b.reference < referenceTop - CONTENT_RANGE_DB);
+    const matched = bands.map((_, i) => inRange[i] && !sourceThin[i] && !referenceThin[i]);
+
+    const raw = bands.map(b => b.reference - b.source);
+    const core = bands.map((b, i) => matched[i] && b.frequency >= ALIGN_LOW_HZ && b.frequency <= ALIGN_HIGH_HZ);
+    const alignOn = core.some(Boolean) ? core : matched;
+    const aligned = alignOn.filter(Boolean).length;
+    const offset = aligned ? raw.reduce((sum, d, i) => alignOn[i] ? sum + d : sum, 0) / aligned : 0;
+    const difference = raw.map((d, i) => matched[i] ? d - offset : null);
+
+    const smoothed = difference.map((d, i) => {
+        if (d === null) return 0;
+        const neighbours = difference
+            .slice(Math.max(0, i - SMOOTHING_BANDS), i + SMOOTHING_BANDS + 1)
+            .filter((v): v is number => v !== null);
+        return neighbours.reduce((sum, v) => sum + v, 0) / neighbours.length;
+    });
+    const gainLimited = smoothed.map(s => Math.min(MAX_BOOST_DB, Math.max(-MAX_CUT_DB, s)));
+
+    // Forward then backward, each band is kept within reach of its neighbour.
+    const maxStep = MAX_SLOPE_DB_PER_OCTAVE / 3;
+    const curve = [...gainLimited];
+    for (let i = 1; i < curve.length; i++) curve[i] = Math.min(curve[i - 1] + maxStep, Math.max(curve[i - 1] - maxStep, curve[i]));
+    for (let i = curve.length - 2; i >= 0; i--) curve[i] = Math.min(curve[i + 1] + maxStep, Math.max(curve[i + 1] - maxStep, curve[i]));
+
+    const range = ([start, end]: [number, number]) => start === end
+        ? formatFrequency(bands[start].frequency)
+        : `${formatFrequency(bands[start].frequency)}–${formatFrequency(bands[end].frequency)}`;
+    const notes: string[] = [];
+    if (bands.some(b => b.frequency < lowestHz)) {
+        notes.push(`Below ${formatFrequency(lowestHz)} is left flat: it lies under your voice's lowest pitch, so differences there are rumble and room noise rather than voice.`);
+    }
+    if (bandwidthHz < MAX_MATCH_HZ) {
+        const narrower = reference.sampleRate < source.sampleRate ? "the reference's" : "your recording's";
+        notes.push(`Above ${formatFrequency(bandwidthHz)} is left flat: ${narrower} ${formatFrequency(bandwidthHz / 0.45)} sample rate leaves nothing to compare there.`);
+    }
+    for (const span of runs(bands.map((_, i) => inRange[i] && !matched[i]))) {
+        const slice = (flags: boolean[]) => flags.slice(span[0], span[1] + 1).some(Boolean);
+        const thin = slice(sourceThin) && slice(referenceThin) ? 'both recordings have'
+            : slice(referenceThin) ? 'the reference has'
+            : 'your recording has';
+        notes.push(`${range(span)} is left flat: ${thin} too little energy there to compare.`);
+    }
+    for (const sign of [1, -1]) {
+        for (const span of runs(smoothed.map((s, i) => sign * (s - gainLimited[i]) > NOTE_THRESHOLD_DB))) {
+            const excess = Math.max(...smoothed.slice(span[0], span[1] + 1).map(s => Math.abs(s)));
+            notes.push(sign > 0
+                ? `${range(span)}: the reference is up to ${excess.toFixed(1)} dB stronger, but the boost was limited to +${MAX_BOOST_DB} dB because boosting further mostly raises noise and room sound.`
+                : `${range(span)}: the reference is up to ${excess.toFixed(1)} dB weaker, but the cut was limited to −${MAX_CUT_DB} dB because cutting deeper hollows out the voice.`);
+        }
+    }
+    for (const span of runs(curve.map((c, i) => Math.abs(c - gainLimited[i]) > NOTE_THRESHOLD_DB))) {
+        const moved = Math.max(...curve.slice(span[0], span[1] + 1).map((c, k) => Math.abs(c - gainLimited[span[0] + k])));
+        notes.push(`${range(span)}: the curve was eased by up to ${moved.toFixed(1)} dB to stay within ${MAX_SLOPE_DB_PER_OCTAVE} dB per octave, so the match follows the voice's balance rather than narrow quirks of either recording.`);
+    }
+    if (aligned) {
+        notes.push(`Levels were aligned over ${formatFrequency(ALIGN_LOW_HZ)}–${formatFrequency(ALIGN_HIGH_HZ)}, so the preset changes the tone, not the loudness.`);
+    }
+
+    const points = bands.map((b, i) => ({ frequency: b.frequency, differenceDb: difference[i], curveDb: curve[i] }));
+    if (!matched.some(Boolean)) {
+        return { settings: [], points, notes: ['No frequency range had enough voice in both recordings to compare.', ...notes] };
+    }
+
+    const curveAt = (frequency: number) => {
+        const upper = points.findIndex(p => p.frequency >= frequency);
+        if (upper <= 0) return upper === 0 && points[0].frequency === frequency ? points[0].curveDb : 0;
+        const low = points[upper - 1];
+        const high = points[upper];
+        const t = Math.log(frequency / low.frequency) / Math.log(high.frequency / low.frequency);
+        return low.curveDb + t * (high.curveDb - low.curveDb);
+    };
+    const fit = fitCurveToDevice(curveAt, MATCH_PROFILE);
+    const settings = fit.settings
+        .filter(band => Math.abs(band.gain) >= MIN_BAND_GAIN_DB)
+        .map(band => {
+            const nearest = bands.reduce((a, b) =>
+                Math.abs(Math.log(b.frequency / band.frequency)) < Math.abs(Math.log(a.frequency / band.frequency)) ? b : a);
+            return {
+                ...band,
+                rationale: `${band.gain > 0 ? 'Lifts' : 'Lowers'} the octave around ${formatFrequency(band.frequency)} towards the reference.`,
+                evidence: [`thirdOctaveBandsDb.${Math.round(nearest.frequency)}`],
+            };
+        });
+    return { settings, points, notes };
+}
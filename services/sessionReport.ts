@@ -0,0 +1,184 @@
+import type { EQSetting, ProcessingChain, TargetModeId, VocalProfile, VoiceMeasurements } from '../types';
+import { CHAIN_STAGES, chainStages, stageSummary } from './dynamics';
+import { FILTER_TYPES, eqResponseDb, hasGain } from './eqFilters';
+import { getExporters } from './exporters';
+import { toFileName } from './download';
+import { getTargetMode } from './targetModes';
+
+export interface SessionReport {
+    name: string;
+    vocalProfile: VocalProfile;
+    eqSettings: EQSetting[];
+    processingChain: ProcessingChain | null;
+    targetMode: TargetModeId;
+    /** Null when the recording was not measured or not shared. */
+    measurements: VoiceMeasurements | null;
+    /** Opens the preset read-only in the app; left out when null. */
+    shareUrl: string | null;
+    createdAt: Date;
+}
+
+const CURVE_WIDTH = 640;
+const CURVE_HEIGHT = 240;
+const CURVE_MARGIN = { top: 12, right: 16, bottom: 28, left: 40 };
+const CURVE_POINTS = 200;
+const MIN_CURVE_RANGE_DB = 12;
+
+const formatHz = (hz: number) => hz >= 1000 ? `${Number((hz / 1000).toFixed(2))} kHz` : `${Number(hz.toFixed(1))} Hz`;
+const formatGain = (band: EQSetting) => hasGain(band.type) ? `${band.gain > 0 ? '+' : ''}${band.gain.toFixed(1)} dB` : '—';
+const typeLabel = (band: EQSetting) => FILTER_TYPES.find(t => t.id === band.type)!.label;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * The preset's frequency response as a standalone SVG, 20 Hz–20 kHz on a log axis. The dB range
+ * is widened in 6 dB steps to fit the gain bands; pass and notch slopes run off the bottom edge.
+ * Plain ASCII so it can be base64-encoded as is.
+ */
+export function eqCurveSvg(settings: EQSetting[]): string {
+    const { top, right, bottom, left } = CURVE_MARGIN;
+    const plotWidth = CURVE_WIDTH - left - right;
+    const plotHeight = CURVE_HEIGHT - top - bottom;
+    const frequencies = Array.from({ length: CURVE_POINTS }, (_, i) => 20 * 1000 ** (i / (CURVE_POINTS - 1)));
+    const response = frequencies.map(f => eqResponseDb(settings, f));
+    const gainBands = settings.filter(band => hasGain(band.type));
+    const peak = Math.max(0, ...frequencies.map(f => Math.abs(eqResponseDb(gainBands, f))));
+    const rangeDb = Math.max(MIN_CURVE_RANGE_DB, Math.ceil(peak / 6) * 6);
+    const x = (f: number) => left + plotWidth * Math.log10(f / 20) / 3;
+    const y = (db: number) => top + plotHeight * (rangeDb - Math.max(-rangeDb, Math.min(rangeDb, db))) / (2 * rangeDb);
+
+    const grid: string[] = [];
+    for (const f of [50, 100, 200, 500, 1000, 2000, 5000, 10000]) {
+        grid.push(`<line x1="${x(f).toFixed(1)}" y1="${top}" x2="${x(f).toFixed(1)}" y2="${top + plotHeight}" stroke="#e5e7eb"/>`);
+        grid.push(`<text x="${x(f).toFixed(1)}" y="${CURVE_HEIGHT - 10}" text-anchor="middle">${f >= 1000 ? `${f / 1000}k` : f}</text>`);
+    }
+    for (let db = -rangeDb; db <= rangeDb; db += 6) {
+        grid.push(`<line x1="${left}" y1="${y(db).toFixed(1)}" x2="${left + plotWidth}" y2="${y(db).toFixed(1)}" stroke="${db === 0 ? '#9ca3af' : '#e5e7eb'}"/>`);
+        grid.push(`<text x="${left - 6}" y="${(y(db) + 4).toFixed(1)}" text-anchor="end">${db > 0 ? '+' : ''}${db}</text>`);
+    }
+    const path = frequencies.map((f, i) => `${i ? 'L' : 'M'}${x(f).toFixed(1)},${y(response[i]).toFixed(1)}`).join('');
+    const markers = settings
+        .filter(band => band.frequency >= 20 && band.frequency <= 20000)
+        .map(band => `<circle cx="${x(band.frequency).toFixed(1)}" cy="${y(eqResponseDb(settings, band.frequency)).toFixed(1)}" r="3.5" fill="#8A2BE2"/>`);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${CURVE_WIDTH}" height="${CURVE_HEIGHT}" viewBox="0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}" font-family="sans-serif" font-size="10" fill="#4b5563">`,
+        `<rect width="${CURVE_WIDTH}" height="${CURVE_HEIGHT}" fill="#ffffff"/>`,
+        ...grid,
+        `<path d="${path}" fill="none" stroke="#00BFFF" stroke-width="2"/>`,
+        ...markers,
+        `<text x="${left + plotWidth}" y="${top + 10}" text-anchor="end">dB / Hz</text>`,
+        '</svg>',
+    ].join('\n');
+}
+
+function measurementLines(m: VoiceMeasurements): string[] {
+    const lines: string[] = [];
+    if (m.f0Median != null) {
+        lines.push(`Pitch: median ${formatHz(m.f0Median)}${m.f0Low != null && m.f0High != null ? `, ${formatHz(m.f0Low)} – ${formatHz(m.f0High)}` : ''}`);
+    }
+    if (m.spectralCentroid != null) lines.push(`Spectral centroid: ${formatHz(m.spectralCentroid)}`);
+    if (m.sibilanceRatioDb != null) lines.push(`Sibilance ratio: ${m.sibilanceRatioDb.toFixed(1)} dB`);
+    if (m.lowMidBuildupDb != null) lines.push(`Low-mid buildup: ${m.lowMidBuildupDb.toFixed(1)} dB`);
+    lines.push(`Noise floor: ${m.noiseFloorDb.toFixed(1)} dBFS`);
+    return lines;
+}
+
+const snippets = ({ eqSettings, name, processingChain }: SessionReport) => getExporters().map(exporter => ({
+    label: exporter.label,
+    fileName: toFileName(name, exporter.extension),
+    content: exporter.build(eqSettings, { name, processingChain }),
+}));
+
+/** A self-contained HTML page with the profile, EQ table, curve, vocal chain and every export format. */
+export function buildReportHtml(report: SessionReport): string {
+    const { name, vocalProfile, eqSettings, processingChain, targetMode, measurements, shareUrl, createdAt } = report;
+    const chain = processingChain ? chainStages(processingChain) : [];
+    const rows = eqSettings.map((band, i) => `<tr><td>${i + 1}</td><td>${typeLabel(band)}</td><td>${formatHz(band.frequency)}</td>`
+        + `<td>${formatGain(band)}</td><td>${band.q.toFixed(2)}</td><td>${escapeHtml(band.rationale ?? '')}</td></tr>`);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(name)} – vocal EQ report</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { margin-bottom: 0; }
+.meta { color: #6b7280; margin-top: 0.25rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+pre { background: #f3f4f6; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+@media print { pre { white-space: pre-wrap; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(name)}</h1>
+<p class="meta">Target: ${escapeHtml(getTargetMode(targetMode).label)} · ${escapeHtml(createdAt.toLocaleString())}</p>
+${shareUrl ? `<p><a href="${escapeHtml(shareUrl)}">Open this preset in the app</a></p>\n` : ''}<h2>Vocal profile</h2>
+<p>${escapeHtml(vocalProfile.description)}</p>
+<ul>
+<li><strong>Fundamental range:</strong> ${escapeHtml(vocalProfile.fundamentalRange)}</li>
+${vocalProfile.keyCharacteristics.map(c => `<li>${escapeHtml(c)}</li>`).join('\n')}
+</ul>
+${measurements ? `<h2>Measurements</h2>\n<ul>\n${measurementLines(measurements).map(l => `<li>${escapeHtml(l)}</li>`).join('\n')}\n</ul>\n` : ''}<h2>EQ preset</h2>
+${eqCurveSvg(eqSettings)}
+<table>
+<thead><tr><th>#</th><th>Type</th><th>Frequency</th><th>Gain</th><th>Q</th><th>Why</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+${chain.length ? `<h2>Vocal chain</h2>\n<ul>\n${chain.map(stage => `<li><strong>${CHAIN_STAGES.find(s => s.id === stage)!.label}:</strong> ${stageSummary(processingChain!, stage)}${processingChain![stage]!.rationale ? ` – ${escapeHtml(processingChain![stage]!.rationale!)}` : ''}</li>`).join('\n')}\n</ul>\n` : ''}<h2>Export files</h2>
+${snippets(report).map(s => `<h3>${escapeHtml(s.label)} <small>(${escapeHtml(s.fileName)})</small></h3>\n<pre>${escapeHtml(s.content)}</pre>`).join('\n')}
+</body>
+</html>
+`;
+}
+
+/** The same report as Markdown, with the curve embedded as an SVG data URI. */
+export function buildReportMarkdown(report: SessionReport): string {
+    const { name, vocalProfile, eqSettings, processingChain, targetMode, measurements, shareUrl, createdAt } = report;
+    const fence = (content: string) => {
+        const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+        return '`'.repeat(longest + 1);
+    };
+    const lines = [
+        `# ${name}`,
+        '',
+        `Target: ${getTargetMode(targetMode).label} · ${createdAt.toLocaleString()}`,
+        ...(shareUrl ? ['', `[Open this preset in the app](${shareUrl})`] : []),
+        '',
+        '## Vocal profile',
+        '',
+        vocalProfile.description,
+        '',
+        `- **Fundamental range:** ${vocalProfile.fundamentalRange}`,
+        ...vocalProfile.keyCharacteristics.map(c => `- ${c}`),
+        ...(measurements ? ['', '## Measurements', '', ...measurementLines(measurements).map(l => `- ${l}`)] : []),
+        '',
+        '## EQ preset',
+        '',
+        `![EQ curve](data:image/svg+xml;base64,${btoa(eqCurveSvg(eqSettings))})`,
+        '',
+        '| # | Type | Frequency | Gain | Q | Why |',
+        '|---|------|-----------|------|---|-----|',
+        ...eqSettings.map((band, i) =>
+            `| ${i + 1} | ${typeLabel(band)} | ${formatHz(band.frequency)} | ${formatGain(band)} | ${band.q.toFixed(2)} | ${escapeCell(band.rationale ?? '')} |`),
+    ];
+    const chain = processingChain ? chainStages(processingChain) : [];
+    if (chain.length) {
+        lines.push('', '## Vocal chain', '');
+        for (const stage of chain) {
+            const rationale = processingChain![stage]!.rationale;
+            lines.push(`- **${CHAIN_STAGES.find(s => s.id === stage)!.label}:** ${stageSummary(processingChain!, stage)}${rationale ? ` – ${rationale}` : ''}`);
+        }
+    }
+    lines.push('', '## Export files');
+    for (const { label, fileName, content } of snippets(report)) {
+        lines.push('', `### ${label} (${fileName})`, '', fence(content), content, fence(content));
+    }
+    return `${lines.join('\n')}\n`;
+}
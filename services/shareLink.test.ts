@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PRESET_GAIN_DB } from './analysis';
+import { decodeShareFragment, encodeShareFragment, type SharedPreset } from './shareLink';
+
+const PRESET: SharedPreset = {
+    name: 'Host A',
+    vocalProfile: { description: 'Warm baritone.', fundamentalRange: '90–180 Hz', keyCharacteristics: ['Boomy low mids'] },
+    eqSettings: [
+        { type: 'highPass', frequency: 80, gain: 0, q: 0.71 },
+        { type: 'peak', frequency: 300, gain: -3, q: 1.2, rationale: 'Less boom.' },
+    ],
+    targetMode: 'broadcast',
+    processingChain: { limiter: { ceilingDb: -1 } },
+};
+
+describe('share links', () => {
+    it('round-trips a preset', async () => {
+        expect(await decodeShareFragment(await encodeShareFragment(PRESET))).toEqual(PRESET);
+    });
+
+    it('limits out-of-range gain and Q from a tampered link', async () => {
+        const fragment = await encodeShareFragment({
+            ...PRESET,
+            eqSettings: [{ type: 'peak', frequency: 1000, gain: 200, q: 500 }, { type: 'lowShelf', frequency: 100, gain: -200, q: 0.7 }],
+        });
+        const { eqSettings } = await decodeShareFragment(fragment);
+        for (const band of eqSettings) expect(Math.abs(band.gain)).toBeLessThanOrEqual(MAX_PRESET_GAIN_DB);
+        expect(eqSettings.find(band => band.type === 'peak')!.q).toBe(30);
+    });
+
+    it('rejects a damaged link', async () => {
+        await expect(decodeShareFragment('#share=v1.not-deflate')).rejects.toThrow('damaged or incomplete');
+    });
+});
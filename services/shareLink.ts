@@ -0,0 +1,113 @@
+import type { EQSetting, ProcessingChain, TargetModeId, VocalProfile } from '../types';
+import { sanitizeBands, sanitizeChain } from './analysis';
+import { bytesToBase64 } from './base64';
+import { FILTER_TYPES } from './eqFilters';
+import { getTargetMode, isTargetModeId } from './targetModes';
+
+export interface SharedPreset {
+    name: string;
+    vocalProfile: VocalProfile;
+    eqSettings: EQSetting[];
+    targetMode: TargetModeId;
+    processingChain: ProcessingChain | null;
+}
+
+const FRAGMENT_PREFIX = '#share=';
+// Bump when the payload layout changes; older links must keep decoding.
+const VERSION = 'v1';
+
+/** Version 1 payload: positional arrays keep the JSON short before it is deflated. */
+type BandV1 = [type: number, frequency: number, gain: number, q: number, rationale?: string];
+type PayloadV1 = [
+    name: string,
+    targetMode: string,
+    profile: [description: string, fundamentalRange: string, keyCharacteristics: string[]],
+    bands: BandV1[],
+    processingChain?: ProcessingChain,
+];
+
+const damaged = () => new Error('This share link is damaged or incomplete. Ask for the link to be copied again.');
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export const isShareFragment = (hash: string) => hash.startsWith(FRAGMENT_PREFIX);
+
+/**
+ * Encodes the preset as a URL fragment ("#share=v1.…"): positional JSON, deflated and base64url
+ * encoded. Band evidence is left out since the measurements it points to are not shared.
+ */
+export async function encodeShareFragment({ name, vocalProfile, eqSettings, targetMode, processingChain }: SharedPreset): Promise<string> {
+    const payload: PayloadV1 = [
+        name,
+        targetMode,
+        [vocalProfile.description, vocalProfile.fundamentalRange, vocalProfile.keyCharacteristics],
+        eqSettings.map(({ type, frequency, gain, q, rationale }) => {
+            const band: BandV1 = [FILTER_TYPES.findIndex(t => t.id === type), round(frequency, 1), round(gain, 2), round(q, 3)];
+            if (rationale) band.push(rationale);
+            return band;
+        }),
+    ];
+    if (processingChain) payload[4] = processingChain;
+    const bytes = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+    return `${FRAGMENT_PREFIX}${VERSION}.${toBase64Url(bytes)}`;
+}
+
+/** The band as an object for the preset sanitiser, which limits its values to the usual ranges. */
+function readBand(raw: unknown): Record<string, unknown> {
+    if (!Array.isArray(raw)) throw damaged();
+    const [typeIndex, frequency, gain, q, rationale] = raw;
+    const type = FILTER_TYPES[typeIndex as number]?.id;
+    if (!type || ![frequency, gain, q].every(v => typeof v === 'number' && Number.isFinite(v)) || frequency <= 0) throw damaged();
+    return { type, frequency, gain, q, rationale };
+}
+
+/**
+ * Reads a fragment made by encodeShareFragment. Throws an Error with a user-facing message when the
+ * fragment is not a share link, is damaged, or comes from a newer version of the app.
+ */
+export async function decodeShareFragment(hash: string): Promise<SharedPreset> {
+    if (!isShareFragment(hash)) throw damaged();
+    const [version, data] = hash.slice(FRAGMENT_PREFIX.length).split('.', 2);
+    if (version !== VERSION) {
+        throw new Error('This share link was made by a newer version of the app. Reload the page to update it.');
+    }
+    let payload: unknown;
+    try {
+        payload = JSON.parse(new TextDecoder().decode(await transform(fromBase64Url(data ?? ''), new DecompressionStream('deflate-raw'))));
+    } catch {
+        throw damaged();
+    }
+    if (!Array.isArray(payload)) throw damaged();
+    const [name, targetMode, profile, bands, chain] = payload as unknown[];
+    if (typeof name !== 'string' || !isTargetModeId(targetMode) || !Array.isArray(profile) || !Array.isArray(bands)) throw damaged();
+    const [description, fundamentalRange, keyCharacteristics] = profile;
+    if (typeof description !== 'string' || typeof fundamentalRange !== 'string' || !Array.isArray(keyCharacteristics)) throw damaged();
+
+    // Links can be edited by hand, so bands get the same limits as model output.
+    const mode = getTargetMode(targetMode);
+    const eqSettings = sanitizeBands(bands.map(readBand), mode, []);
+    return {
+        name,
+        vocalProfile: {
+            description,
+            fundamentalRange,
+            keyCharacteristics: keyCharacteristics.filter((c): c is string => typeof c === 'string'),
+        },
+        eqSettings,
+        targetMode,
+        processingChain: sanitizeChain(chain, mode, []) ?? null,
+    };
+}
@@ -0,0 +1,86 @@
+import { fft, hannWindow, powerToDb } from './dsp';
+
+export interface Spectrogram {
+    /** Time between columns, in seconds. */
+    hopS: number;
+    columns: number;
+    rows: number;
+    /** Frequencies of the bottom and top rows; rows are spaced logarithmically between them. */
+    minFrequency: number;
+    maxFrequency: number;
+    /** Column-major levels in dBFS: the row r of column c is at c * rows + r, row 0 at minFrequency. */
+    levels: Float32Array;
+}
+
+const FFT_SIZE = 2048;
+const ROWS = 200;
+const MIN_FREQUENCY = 40;
+const MAX_FREQUENCY = 20000;
+const COLUMNS_PER_SECOND = 50;
+// Keeps the canvas within browser size limits for long uploads.
+const MAX_COLUMNS = 16000;
+
+/**
+ * Calls `onFrame` with the one-sided power spectrum (scaled so a full-scale sine reads 0 dBFS) of
+ * Hann-windowed frames of `frameSize` samples, one every `hop` samples. The array is reused between calls.
+ */
+export function forEachStftFrame(
+    samples: Float32Array,
+    frameSize: number,
+    hop: number,
+    onFrame: (frame: number, power: Float64Array) => void,
+): void {
+    const window = hannWindow(frameSize);
+    const windowSum = window.reduce((sum, w) => sum + w, 0);
+    const powerScale = 4 / (windowSum * windowSum);
+    const re = new Float64Array(frameSize);
+    const im = new Float64Array(frameSize);
+    const power = new Float64Array(frameSize / 2 + 1);
+    const frames = samples.length < frameSize ? 0 : Math.floor((samples.length - frameSize) / hop) + 1;
+    for (let f = 0; f < frames; f++) {
+        const start = f * hop;
+        for (let i = 0; i < frameSize; i++) {
+            re[i] = samples[start + i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 0; k < power.length; k++) power[k] = (re[k] * re[k] + im[k] * im[k]) * powerScale;
+        onFrame(f, power);
+    }
+}
+
+/** Log-frequency spectrogram of a mono recording, one column per hop. */
+export function computeSpectrogram(samples: Float32Array, sampleRate: number): Spectrogram {
+    const durationS = samples.length / sampleRate;
+    const hopS = Math.max(1 / COLUMNS_PER_SECOND, durationS / MAX_COLUMNS);
+    const hop = Math.max(1, Math.round(hopS * sampleRate));
+    const binHz = sampleRate / FFT_SIZE;
+    const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+
+    // Each row covers the bins between the geometric midpoints to its neighbours, and at least the nearest bin.
+    const edges = Array.from({ length: ROWS + 1 }, (_, i) =>
+        MIN_FREQUENCY * (maxFrequency / MIN_FREQUENCY) ** ((i - 0.5) / (ROWS - 1)));
+    const rowBins = Array.from({ length: ROWS }, (_, r) => {
+        const low = Math.ceil(edges[r] / binHz);
+        const high = Math.min(FFT_SIZE / 2, Math.floor(edges[r + 1] / binHz));
+        return high >= low ? [low, high] : [Math.min(FFT_SIZE / 2, Math.round(Math.sqrt(edges[r] * edges[r + 1]) / binHz)), -1];
+    });
+
+    const padded = samples.length >= FFT_SIZE ? samples : Float32Array.from({ length: FFT_SIZE }, (_, i) => samples[i] ?? 0);
+    const columns = Math.floor((padded.length - FFT_SIZE) / hop) + 1;
+    const levels = new Float32Array(columns * ROWS);
+    forEachStftFrame(padded, FFT_SIZE, hop, (frame, power) => {
+        for (let r = 0; r < ROWS; r++) {
+            const [low, high] = rowBins[r];
+            let sum = 0;
+            if (high < 0) {
+                sum = power[low];
+            } else {
+                for (let k = low; k <= high; k++) sum += power[k];
+            }
+            levels[frame * ROWS + r] = powerToDb(sum);
+        }
+    });
+
+    return { hopS: hop / sampleRate, columns, rows: ROWS, minFrequency: MIN_FREQUENCY, maxFrequency, levels };
+}
@@ -0,0 +1,126 @@
+import type { SpectrumPoint, TargetModeId } from '../types';
+import type { DeliveryStandardId } from './deliveryStandards';
+
+export interface TargetMode {
+    id: TargetModeId;
+    label: string;
+    /** Shown under the mode picker. */
+    description: string;
+    /** Completes "The preset is for …" in the model prompt. */
+    goal: string;
+    guidance: string;
+    /** Desired long-term voice spectrum in dB relative to 1 kHz, at octave centres. */
+    targetCurve: SpectrumPoint[];
+    maxBoostDb: number;
+    maxCutDb: number;
+    /** Range the high-pass corner is kept within, whatever the measured pitch. */
+    highPassHz: [number, number];
+    /** Highest limiter ceiling allowed, in dBFS. */
+    limiterCeilingDb: number;
+    /** Delivery standard the loudness meter checks against by default. */
+    deliveryStandard: DeliveryStandardId;
+}
+
+const OCTAVES = [63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+const curve = (levels: number[]): SpectrumPoint[] => OCTAVES.map((frequency, i) => ({ frequency, level: levels[i] }));
+
+export const TARGET_MODES: TargetMode[] = [
+    {
+        id: 'podcast',
+        label: 'Podcast / voice-over',
+        description: 'Warm, clear and present speech for headphones and car speakers.',
+        goal: 'a standard podcast or voice-over',
+        guidance: 'Aim for warmth without muddiness and clear, forward presence; remove rumble.',
+        targetCurve: curve([-18, -4, 0, 1, 0, -4, -8, -14, -24]),
+        maxBoostDb: 8,
+        maxCutDb: 12,
+        highPassHz: [50, 100],
+        limiterCeilingDb: -1,
+        deliveryStandard: 'podcast',
+    },
+    {
+        id: 'audiobook',
+        label: 'Audiobook (ACX)',
+        description: 'Natural, fatigue-free narration for long listening, ready for ACX submission.',
+        goal: 'audiobook narration that will be submitted to ACX',
+        guidance: 'Keep the voice natural and consistent over hours of listening: gentle moves only, no bright or harsh presence boosts, and tame sibilance. ACX also requires a noise floor below -60 dBFS, so never boost the lows or highs where noise lives.',
+        targetCurve: curve([-22, -4, 0, 1, 0, -5, -10, -17, -28]),
+        maxBoostDb: 5,
+        maxCutDb: 10,
+        highPassHz: [50, 90],
+        limiterCeilingDb: -3,
+        deliveryStandard: 'acx',
+    },
+    {
+        id: 'broadcast',
+        label: 'Broadcast radio',
+        description: 'Tight, upfront voice that survives processing and small radios.',
+        goal: 'broadcast radio, where the voice goes through heavy multiband processing afterwards',
+        guidance: 'Tighten the lows, keep the low mids clean and make the voice upfront in the 2-5 kHz range; avoid excess highs that the broadcast processor would exaggerate.',
+        targetCurve: curve([-24, -6, -1, 0, 0, -2, -5, -11, -22]),
+        maxBoostDb: 8,
+        maxCutDb: 12,
+        highPassHz: [70, 120],
+        limiterCeilingDb: -1,
+        deliveryStandard: 'ebu-r128',
+    },
+    {
+        id: 'streaming',
+        label: 'Live streaming',
+        description: 'Clear voice that sits on top of game audio and music.',
+        goal: 'a live stream, where the voice competes with game audio or music',
+        guidance: 'Favour intelligibility and presence so the voice sits on top of other audio, keep the lows lean, and avoid narrow boosts that make keyboard and room noise stand out.',
+        targetCurve: curve([-20, -5, -1, 0, 0, -3, -6, -12, -22]),
+        maxBoostDb: 8,
+        maxCutDb: 12,
+        highPassHz: [60, 110],
+        limiterCeilingDb: -1,
+        deliveryStandard: 'streaming',
+    },
+    {
+        id: 'conferencing',
+        label: 'Video calls',
+        description: 'Intelligible speech through call codecs and laptop speakers.',
+        goal: 'video-call and conferencing audio that passes through a speech codec',
+        guidance: 'Concentrate on intelligibility between about 150 Hz and 6 kHz; roll off lows firmly, avoid boosting above 8 kHz, and keep every move modest so the codec and echo canceller behave.',
+        targetCurve: curve([-30, -10, -2, 0, 0, -1, -4, -14, -30]),
+        maxBoostDb: 6,
+        maxCutDb: 10,
+        highPassHz: [100, 150],
+        limiterCeilingDb: -1,
+        deliveryStandard: 'podcast',
+    },
+    {
+        id: 'singing',
+        label: 'Singing demo',
+        description: 'Full-range sung vocal with body and air for a demo mix.',
+        goal: 'a sung vocal for a demo mix',
+        guidance: 'Keep the fundamental and chest resonance intact, use broad gentle moves, add air rather than harsh presence, and cut only clear resonances.',
+        targetCurve: curve([-14, -3, 0, 0, 0, -3, -6, -10, -18]),
+        maxBoostDb: 6,
+        maxCutDb: 10,
+        highPassHz: [40, 90],
+        limiterCeilingDb: -1,
+        deliveryStandard: 'streaming',
+    },
+];
+
+export const DEFAULT_TARGET_MODE: TargetModeId = 'podcast';
+
+export const getTargetMode = (id: TargetModeId | null | undefined) =>
+    TARGET_MODES.find(m => m.id === id) ?? TARGET_MODES.find(m => m.id === DEFAULT_TARGET_MODE)!;
+
+export const isTargetModeId = (value: unknown): value is TargetModeId => TARGET_MODES.some(m => m.id === value);
+
+/** Target level relative to 1 kHz at any frequency, interpolated on a log-frequency scale. */
+export function targetLevelAt(mode: TargetMode, frequency: number): number {
+    const points = mode.targetCurve;
+    if (frequency <= points[0].frequency) return points[0].level;
+    for (let i = 1; i < points.length; i++) {
+        if (frequency <= points[i].frequency) {
+            const t = Math.log(frequency / points[i - 1].frequency) / Math.log(points[i].frequency / points[i - 1].frequency);
+            return points[i - 1].level + t * (points[i].level - points[i - 1].level);
+        }
+    }
+    return points[points.length - 1].level;
+}
@@ -0,0 +1,233 @@
+import type { MeasurementSummary, SpectrumPoint, VoiceMeasurements } from '../types';
+import { fft, hannWindow, nextPowerOfTwo, percentile, powerToDb } from './dsp';
+
+const MIN_F0 = 60;
+const MAX_F0 = 500;
+// Normalised autocorrelation peak a frame needs to count as voiced.
+const VOICING_CLARITY = 0.6;
+const SILENCE_DB = -70;
+const SPEECH_GATE_DB = 12;
+const SPEECH_DYNAMIC_RANGE_DB = 45;
+const SPECTRUM_BANDS_PER_OCTAVE = 6;
+
+/**
+ * Pitch of one frame via the normalised square difference function (McLeod pitch method).
+ * `re`/`im` are scratch buffers of at least twice the frame length (power of two).
+ * Returns null for unvoiced frames.
+ */
+function estimatePitch(frame: Float32Array, sampleRate: number, re: Float64Array, im: Float64Array): number | null {
+    const n = frame.length;
+    re.fill(0);
+    im.fill(0);
+    re.set(frame);
+    fft(re, im);
+    for (let k = 0; k < re.length; k++) {
+        re[k] = re[k] * re[k] + im[k] * im[k];
+        im[k] = 0;
+    }
+    fft(re, im, true);
+
+    const minLag = Math.floor(sampleRate / MAX_F0);
+    const maxLag = Math.min(n - 2, Math.ceil(sampleRate / MIN_F0));
+    const nsdf = new Float64Array(maxLag + 2);
+    let m = 2 * re[0];
+    for (let tau = 0; tau <= maxLag + 1; tau++) {
+        if (tau > 0) m -= frame[tau - 1] * frame[tau - 1] + frame[n - tau] * frame[n - tau];
+        nsdf[tau] = m > 0 ? (2 * re[tau]) / m : 0;
+    }
+
+    // Collect the maximum of each positive lobe after the zero-lag lobe.
+    const peaks: number[] = [];
+    let tau = 1;
+    while (tau <= maxLag && nsdf[tau] > 0) tau++;
+    while (tau <= maxLag) {
+        while (tau <= maxLag && nsdf[tau] <= 0) tau++;
+        let best = -1;
+        while (tau <= maxLag && nsdf[tau] > 0) {
+            if (tau >= minLag && (best < 0 || nsdf[tau] > nsdf[best])) best = tau;
+            tau++;
+        }
+        if (best > 0 && tau <= maxLag) peaks.push(best);
+    }
+    if (peaks.length === 0) return null;
+
+    const highest = Math.max(...peaks.map(p => nsdf[p]));
+    const chosen = peaks.find(p => nsdf[p] >= 0.9 * highest)!;
+    if (nsdf[chosen] < VOICING_CLARITY) return null;
+
+    const a = nsdf[chosen - 1];
+    const b = nsdf[chosen];
+    const c = nsdf[chosen + 1];
+    const denominator = a - 2 * b + c;
+    const shift = denominator !== 0 ? (a - c) / (2 * denominator) : 0;
+    const f0 = sampleRate / (chosen + shift);
+    return f0 >= MIN_F0 && f0 <= MAX_F0 ? f0 : null;
+}
+
+function bandPower(power: Float64Array, binHz: number, low: number, high: number): number {
+    const start = Math.max(1, Math.ceil(low / binHz));
+    const end = Math.min(power.length - 1, Math.floor(high / binHz));
+    let sum = 0;
+    for (let k = start; k <= end; k++) sum += power[k];
+    return sum;
+}
+
+/** Average power per octave between two frequencies, in dB. */
+function octaveDensityDb(power: Float64Array, binHz: number, low: number, high: number): number {
+    return powerToDb(bandPower(power, binHz, low, high) / Math.log2(high / low));
+}
+
+/**
+ * Groups a linear power spectrum into fractional-octave bands centred on the base-2 series
+ * around 1 kHz. Bands too narrow to contain an FFT bin are skipped.
+ */
+export function fractionalOctaveBands(
+    power: Float64Array,
+    binHz: number,
+    bandsPerOctave: number,
+    minFrequency = 20,
+    maxFrequency = 20000,
+): SpectrumPoint[] {
+    const top = Math.min(maxFrequency, binHz * (power.length - 1));
+    const edge = 2 ** (1 / (2 * bandsPerOctave));
+    const points: SpectrumPoint[] = [];
+    for (let i = Math.ceil(bandsPerOctave * Math.log2(minFrequency / 1000)); ; i++) {
+        const centre = 1000 * 2 ** (i / bandsPerOctave);
+        if (centre > top) break;
+        const low = centre / edge;
+        const high = centre * edge;
+        if (Math.floor(high / binHz) < Math.ceil(low / binHz)) continue;
+        points.push({
+            frequency: Math.round(centre * 10) / 10,
+            level: powerToDb(bandPower(power, binHz, low, high)),
+        });
+    }
+    return points;
+}
+
+/**
+ * Measures a mono recording: long-term average spectrum of the voiced frames, F0 statistics,
+ * spectral centroid, sibilance ratio and low-mid buildup. Levels are in dB relative to full scale.
+ */
+export function measureVoice(samples: Float32Array, sampleRate: number): VoiceMeasurements {
+    const frameSize = nextPowerOfTwo(Math.round(sampleRate * 0.04));
+    const hopSize = frameSize / 2;
+    const window = hannWindow(frameSize);
+    const windowSum = window.reduce((sum, w) => sum + w, 0);
+    const powerScale = 4 / (windowSum * windowSum);
+    const binHz = sampleRate / frameSize;
+    const bins = frameSize / 2 + 1;
+    const nyquist = sampleRate / 2;
+
+    const frameCount = samples.length < frameSize ? 0 : Math.floor((samples.length - frameSize) / hopSize) + 1;
+    const frameLevels: number[] = [];
+    for (let f = 0; f < frameCount; f++) {
+        let energy = 0;
+        for (let i = f * hopSize; i < f * hopSize + frameSize; i++) energy += samples[i] * samples[i];
+        frameLevels.push(powerToDb(energy / frameSize));
+    }
+
+    const noiseFloorDb = frameLevels.length ? percentile(frameLevels, 0.1) : -120;
+    const loudDb = frameLevels.length ? percentile(frameLevels, 0.95) : -120;
+    const speechGateDb = Math.max(
+        SILENCE_DB,
+        Math.min(Math.max(noiseFloorDb + SPEECH_GATE_DB, loudDb - SPEECH_DYNAMIC_RANGE_DB), loudDb - 6),
+    );
+
+    const voicedPower = new Float64Array(bins);
+    const activePower = new Float64Array(bins);
+    let voicedFrames = 0;
+    let activeFrames = 0;
+    const f0s: number[] = [];
+    const re = new Float64Array(frameSize);
+    const im = new Float64Array(frameSize);
+    const acRe = new Float64Array(frameSize * 2);
+    const acIm = new Float64Array(frameSize * 2);
+
+    for (let f = 0; f < frameCount; f++) {
+        if (frameLevels[f] < speechGateDb) continue;
+        const frame = samples.subarray(f * hopSize, f * hopSize + frameSize);
+        const f0 = estimatePitch(frame, sampleRate, acRe, acIm);
+
+        for (let i = 0; i < frameSize; i++) {
+            re[i] = frame[i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 0; k < bins; k++) {
+            const p = (re[k] * re[k] + im[k] * im[k]) * powerScale;
+            activePower[k] += p;
+            if (f0 !== null) voicedPower[k] += p;
+        }
+
+        activeFrames++;
+        if (f0 !== null) {
+            voicedFrames++;
+            f0s.push(f0);
+        }
+    }
+
+    for (let k = 0; k < bins; k++) {
+        if (activeFrames) activePower[k] /= activeFrames;
+        if (voicedFrames) voicedPower[k] /= voicedFrames;
+    }
+
+    let spectralCentroid: number | null = null;
+    if (voicedFrames) {
+        let weighted = 0;
+        let total = 0;
+        for (let k = Math.ceil(20 / binHz); k < bins; k++) {
+            weighted += k * binHz * voicedPower[k];
+            total += voicedPower[k];
+        }
+        spectralCentroid = total > 0 ? weighted / total : null;
+    }
+
+    let sibilanceRatioDb: number | null = null;
+    if (activeFrames && nyquist > 4000) {
+        const total = bandPower(activePower, binHz, 20, nyquist);
+        sibilanceRatioDb = total > 0 ? powerToDb(bandPower(activePower, binHz, 4000, 10000) / total) : null;
+    }
+
+    return {
+        sampleRate,
+        duration: samples.length / sampleRate,
+        voicedDuration: (voicedFrames * hopSize) / sampleRate,
+        spectrum: voicedFrames ? fractionalOctaveBands(voicedPower, binHz, SPECTRUM_BANDS_PER_OCTAVE) : [],
+        thirdOctaveBands: voicedFrames ? fractionalOctaveBands(voicedPower, binHz, 3) : [],
+        f0Median: f0s.length ? percentile(f0s, 0.5) : null,
+        f0Low: f0s.length ? percentile(f0s, 0.1) : null,
+        f0High: f0s.length ? percentile(f0s, 0.9) : null,
+        spectralCentroid,
+        sibilanceRatioDb,
+        lowMidBuildupDb: voicedFrames
+            ? octaveDensityDb(voicedPower, binHz, 200, 500) - octaveDensityDb(voicedPower, binHz, 500, 2000)
+            : null,
+        noiseFloorDb,
+    };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const roundOrNull = (value: number | null) => (value === null ? null : round1(value));
+
+/**
+ * Compact, rounded view of the measurements that is sent to the model as structured context.
+ * Band keys are the rounded centre frequencies in Hz.
+ */
+export function summarizeMeasurements(measurements: VoiceMeasurements): MeasurementSummary {
+    const thirdOctaveBandsDb: Record<string, number> = {};
+    for (const band of measurements.thirdOctaveBands) {
+        thirdOctaveBandsDb[String(Math.round(band.frequency))] = round1(band.level);
+    }
+    return {
+        f0MedianHz: roundOrNull(measurements.f0Median),
+        f0RangeHz: measurements.f0Low !== null && measurements.f0High !== null
+            ? [round1(measurements.f0Low), round1(measurements.f0High)]
+            : null,
+        noiseFloorDbfs: round1(measurements.noiseFloorDb),
+        sibilanceRatioDb: roundOrNull(measurements.sibilanceRatioDb),
+        lowMidBuildupDb: roundOrNull(measurements.lowMidBuildupDb),
+        spectralCentroidHz: roundOrNull(measurements.spectralCentroid),
+        thirdOctaveBandsDb,
+    };
+}
@@ -4,13 +4,93 @@ export interface VocalProfile {
   keyCharacteristics: string[];
 }
 
+export type FilterType = 'peak' | 'lowShelf' | 'highShelf' | 'highPass' | 'lowPass' | 'notch';
+
 export interface EQSetting {
+  type: FilterType;
   frequency: number;
   gain: number;
+  q: number;
+  rationale?: string;
+  evidence?: string[];
+}
+
+export interface SpectrumPoint {
+  frequency: number;
+  level: number;
+}
+
+/** A span of a recording, in seconds from its start. */
+export interface AudioRegion {
+  startS: number;
+  endS: number;
+}
+
+export interface VoiceMeasurements {
+  sampleRate: number;
+  duration: number;
+  voicedDuration: number;
+  spectrum: SpectrumPoint[];
+  thirdOctaveBands: SpectrumPoint[];
+  f0Median: number | null;
+  f0Low: number | null;
+  f0High: number | null;
+  spectralCentroid: number | null;
+  sibilanceRatioDb: number | null;
+  lowMidBuildupDb: number | null;
+  noiseFloorDb: number;
+}
+
+export interface MeasurementSummary {
+  f0MedianHz: number | null;
+  f0RangeHz: [number, number] | null;
+  noiseFloorDbfs: number;
+  sibilanceRatioDb: number | null;
+  lowMidBuildupDb: number | null;
+  spectralCentroidHz: number | null;
+  thirdOctaveBandsDb: Record<string, number>;
+}
+
+export interface GateSettings {
+  thresholdDb: number;
+  rationale?: string;
+}
+
+export interface DeEsserSettings {
+  frequency: number;
+  thresholdDb: number;
+  rationale?: string;
+}
+
+export interface CompressorSettings {
+  thresholdDb: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  rationale?: string;
 }
 
+export interface LimiterSettings {
+  ceilingDb: number;
+  rationale?: string;
+}
+
+/** Dynamics processors around the EQ, in signal order; a missing stage is not used. */
+export interface ProcessingChain {
+  gate?: GateSettings;
+  deEsser?: DeEsserSettings;
+  compressor?: CompressorSettings;
+  limiter?: LimiterSettings;
+}
+
+export type TargetModeId = 'podcast' | 'audiobook' | 'broadcast' | 'streaming' | 'conferencing' | 'singing';
+
 export interface GeminiAnalysisResult {
     vocalProfile: VocalProfile;
     eqPreset: EQSetting[];
-    audacityXml: string;
+    /** Use case the preset was generated for. */
+    targetMode: TargetModeId;
+    processingChain?: ProcessingChain;
+    /** Where the user's existing preset works against the measured voice, when one was given for review. */
+    existingPresetReview?: string[];
 }
\ No newline at end of file
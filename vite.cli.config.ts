@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the Node CLI into one ES module. Unlike the app build, process.env is left alone so the
+// provider settings are read from the environment the CLI runs in.
+export default defineConfig({
+    build: {
+        ssr: 'cli/main.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'eq-preset.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+    resolve: {
+        alias: {
+            '@': path.resolve(__dirname, '.'),
+        },
+    },
+});
@@ -0,0 +1,22 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds core/ into one ES module for other Node code, with dependencies left as imports.
+// The build:lib script then emits type declarations with tsconfig.lib.json and bundles them into index.d.ts.
+export default defineConfig({
+    build: {
+        ssr: 'core/index.ts',
+        outDir: 'dist-lib',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'index.js',
+            },
+        },
+    },
+    resolve: {
+        alias: {
+            '@': path.resolve(__dirname, '.'),
+        },
+    },
+});